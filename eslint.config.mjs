@@ -4,6 +4,7 @@ import tsParser from "@typescript-eslint/parser";
 import astroPlugin from "eslint-plugin-astro";
 import astroParser from "astro-eslint-parser";
 import globals from "globals";
+import resultPlugin from "./playground/result-option-types/eslint-plugin/index.js";
 
 export default [
   // Base JavaScript recommended rules
@@ -44,6 +45,41 @@ export default [
       "quotes": ["error", "double", { "allowTemplateLiterals": true }],
       "@typescript-eslint/triple-slash-reference": "off",
       "@typescript-eslint/no-require-imports": "off", // Allow require() in config files
+      "no-redeclare": "off", // Flags function overloads; the TS-aware rule below does not
+      "@typescript-eslint/no-redeclare": "error",
+    },
+  },
+  
+  // Option and Result usage in the playgrounds (type-aware)
+  {
+    files: ["playground/**/*.ts"],
+    languageOptions: {
+      parserOptions: {
+        projectService: true,
+        tsconfigRootDir: import.meta.dirname,
+      },
+    },
+    plugins: {
+      result: resultPlugin,
+    },
+    rules: {
+      ...resultPlugin.configs.recommended.rules,
+    },
+  },
+  {
+    files: [
+      "playground/result-option-types/option.ts",
+      "playground/result-option-types/result.ts",
+      "playground/**/*.test.ts",
+    ],
+    rules: {
+      "result/no-tag-comparison": "off", // The guards themselves, and tests of the representation
+    },
+  },
+  {
+    files: ["playground/**/*.test.ts"],
+    rules: {
+      "result/must-use-result": "off", // Tests call for side effects and assert on those
     },
   },
   
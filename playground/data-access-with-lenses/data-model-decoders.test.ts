@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { ok, err, decode } from "../result-option-types/index.ts";
+import { type IRS, type EuropeanCallOption } from "./data-models";
+import { irsDecoder, europeanCallOptionDecoder } from "./data-model-decoders";
+
+describe("Data model decoders", () => {
+  const sampleIRS: IRS = {
+    id: "IRS001_TEST",
+    notionalAmount: 1000000,
+    fixedLeg: {
+      paymentFrequency: "Semi-Annually",
+      dayCountConvention: "30/360",
+      rate: { type: "Fixed", value: 0.025 },
+    },
+    floatingLeg: {
+      paymentFrequency: "Quarterly",
+      dayCountConvention: "Actual/365",
+      rate: { type: "Floating", index: "LIBOR", spread: 0.005 },
+    },
+  };
+
+  it("decodes an IRS that went through JSON", () => {
+    const input: unknown = JSON.parse(JSON.stringify(sampleIRS));
+    expect(decode(irsDecoder, input)).toEqual(ok(sampleIRS));
+  });
+
+  it("reports the path of a bad floating rate field", () => {
+    const input = {
+      ...sampleIRS,
+      floatingLeg: {
+        ...sampleIRS.floatingLeg,
+        rate: { type: "Floating", index: "LIBOR", spread: "5bp" },
+      },
+    };
+    expect(decode(irsDecoder, input)).toEqual(
+      err({
+        _tag: "DecodeError",
+        path: ["floatingLeg", "rate", "spread"],
+        expected: "number",
+        actual: "string",
+      })
+    );
+  });
+
+  it("reports an unknown rate type at the discriminant", () => {
+    const input = {
+      ...sampleIRS,
+      fixedLeg: { ...sampleIRS.fixedLeg, rate: { type: "Fixd", value: 0.025 } },
+    };
+    expect(decode(irsDecoder, input)).toEqual(
+      err({
+        _tag: "DecodeError",
+        path: ["fixedLeg", "rate", "type"],
+        expected: "\"Fixed\" | \"Floating\"",
+        actual: "\"Fixd\"",
+      })
+    );
+  });
+
+  it("decodes a European call option and rejects other styles", () => {
+    const option: EuropeanCallOption = {
+      id: "opt1",
+      underlying: "XYZ",
+      strike: 100,
+      expiry: 1700000000,
+      style: "European",
+    };
+    expect(decode(europeanCallOptionDecoder, option)).toEqual(ok(option));
+    expect(decode(europeanCallOptionDecoder, { ...option, style: "American" })).toEqual(
+      err({
+        _tag: "DecodeError",
+        path: ["style"],
+        expected: "\"European\"",
+        actual: "\"American\"",
+      })
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { decoders, type Decoder } from "../result-option-types/index.ts";
+import {
+  type IRS,
+  type Leg,
+  type Rate,
+  type EuropeanCallOption,
+} from "./data-models";
+
+const { object, string, number, literal, discriminatedUnion } = decoders;
+
+// Each decoder is annotated with its model type, so the compiler checks
+// that the decoder and the interface in data-models.ts stay in sync.
+
+export const rateDecoder: Decoder<Rate> = discriminatedUnion("type", {
+  Fixed: object({ type: literal("Fixed"), value: number }),
+  Floating: object({ type: literal("Floating"), index: string, spread: number }),
+});
+
+export const legDecoder: Decoder<Leg> = object({
+  paymentFrequency: string,
+  dayCountConvention: string,
+  rate: rateDecoder,
+});
+
+export const irsDecoder: Decoder<IRS> = object({
+  id: string,
+  notionalAmount: number,
+  fixedLeg: legDecoder,
+  floatingLeg: legDecoder,
+});
+
+export const europeanCallOptionDecoder: Decoder<EuropeanCallOption> = object({
+  id: string,
+  underlying: string,
+  strike: number,
+  expiry: number,
+  style: literal("European"),
+});
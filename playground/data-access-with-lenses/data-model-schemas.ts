@@ -0,0 +1,39 @@
+import {
+  type SchemaRegistry,
+  string,
+  number,
+  literal,
+  object,
+  array,
+  union,
+} from "./lens-schema";
+
+// The types of data-models.ts by name, for checking the sourceType,
+// getterPath and targetType of lens configurations. Unlike the decoders,
+// these are not checked against the interfaces by the compiler, so keep
+// them in sync by hand.
+
+export const modelSchemas: SchemaRegistry = {
+  FixedRate: object({ type: literal("Fixed"), value: number }),
+  FloatingRate: object({ type: literal("Floating"), index: string, spread: number }),
+  Rate: union("FixedRate", "FloatingRate"),
+  Leg: object({
+    paymentFrequency: string,
+    dayCountConvention: string,
+    rate: "Rate",
+  }),
+  IRS: object({
+    id: string,
+    notionalAmount: number,
+    fixedLeg: "Leg",
+    floatingLeg: "Leg",
+  }),
+  Portfolio: object({ id: string, trades: array("IRS") }),
+  EuropeanCallOption: object({
+    id: string,
+    underlying: string,
+    strike: number,
+    expiry: number,
+    style: literal("European"),
+  }),
+};
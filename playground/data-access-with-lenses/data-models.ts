@@ -6,6 +6,11 @@ export interface IRS {
   // ... other relevant properties like currency, effective date, etc.
 }
 
+export interface Portfolio {
+  readonly id: string;
+  readonly trades: readonly IRS[];
+}
+
 export interface Leg {
   readonly paymentFrequency: string; // e.g., "Quarterly", "Semi-Annually"
   readonly dayCountConvention: string; // e.g., "30/360", "Actual/365"
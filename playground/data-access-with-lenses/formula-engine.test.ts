@@ -2,17 +2,21 @@ import { describe, it, expect, beforeEach } from "vitest";
 import { err, isErr, isOk, ok } from "../result-option-types/index.ts";
 import {
   clearRegistries,
+  describeFormulaError,
   evaluateFormula,
   registerLensConfig,
   registerFormulaDefinition,
+  registerTypeSchemas,
   type FormulaDefinition,
   type FormulaInputValue,
 } from "./formula-engine";
 import { type LensConfig } from "./lens-configurable";
-import { type IRS, type FixedRate, type FloatingRate } from "./data-models";
+import { type IRS, type Leg, type FixedRate, type FloatingRate } from "./data-models";
+import { modelSchemas } from "./data-model-schemas";
 
 beforeEach(() => {
   clearRegistries();
+  registerTypeSchemas(modelSchemas);
 });
 
 describe("Formula Engine", () => {
@@ -126,18 +130,51 @@ describe("Formula Engine", () => {
       expect(result.error).toEqual({
         kind: "InvalidLensConfig",
         token: "invalidToken",
-        reason: "LensConfig requires a non-empty getterPath",
+        reason: {
+          kind: "InvalidGetterPath",
+          reason: "LensConfig requires a non-empty getterPath",
+        },
       });
     }
   });
 
+  it("returns InvalidLensConfig when a token's path is not in the schema", () => {
+    const badPathFormula: FormulaDefinition = {
+      id: "BadPathFormula",
+      getRequiredTokens: () => ["badPathToken"],
+      execute: () => ok(0),
+    };
+    registerLensConfig("badPathToken", nonExistentConfig);
+    registerFormulaDefinition(badPathFormula);
+
+    expect(evaluateFormula(badPathFormula.id, sampleIRS)).toEqual(
+      err({
+        kind: "InvalidLensConfig",
+        token: "badPathToken",
+        reason: {
+          kind: "PathNotInSchema",
+          sourceType: "IRS",
+          path: "nonExistentPath",
+          segment: "nonExistentPath",
+          found: "IRS",
+        },
+      })
+    );
+  });
+
   it("returns ResolutionFailed when lens view fails for a token", () => {
     const viewFailFormula: FormulaDefinition = {
       id: "ViewFailFormula",
-      getRequiredTokens: () => ["badPathToken"],
+      getRequiredTokens: () => ["fixedSpreadToken"],
       execute: () => ok(0),
     };
-    registerLensConfig("badPathToken", nonExistentConfig);
+    // A Leg's rate may be floating, so the path passes the schema check
+    // and fails on this fixed rate.
+    registerLensConfig("fixedSpreadToken", {
+      sourceType: "IRS",
+      targetType: "number",
+      getterPath: "fixedLeg.rate.spread",
+    });
     registerFormulaDefinition(viewFailFormula);
 
     const result = evaluateFormula(viewFailFormula.id, sampleIRS);
@@ -147,14 +184,120 @@ describe("Formula Engine", () => {
       const error = result.error;
       expect(error.kind).toBe("ResolutionFailed");
       if (error.kind === "ResolutionFailed") {
-        expect(error.token).toBe("badPathToken");
-        expect(error.reason).toContain(
-          "Property 'nonExistentPath' does not exist"
-        );
+        expect(error.token).toBe("fixedSpreadToken");
+        expect(error.reason).toEqual({
+          kind: "PathFailed",
+          reason: expect.stringContaining("Property 'spread' does not exist"),
+        });
       }
     }
   });
 
+  it("returns ResolutionFailed when a viewed value is not the targetType", () => {
+    const notionalFormula: FormulaDefinition = {
+      id: "NotionalFormula",
+      getRequiredTokens: () => ["notional"],
+      execute: (inputs) => ok(inputs.notional),
+    };
+    registerLensConfig("notional", notionalConfig);
+    registerFormulaDefinition(notionalFormula);
+
+    expect(
+      evaluateFormula(notionalFormula.id, { ...sampleIRS, notionalAmount: "1m" })
+    ).toEqual(
+      err({
+        kind: "ResolutionFailed",
+        token: "notional",
+        reason: {
+          kind: "ValueTypeMismatch",
+          path: "notionalAmount",
+          targetType: "number",
+          found: "string",
+        },
+      })
+    );
+  });
+
+  it("does not check lens configurations until type schemas are registered", () => {
+    clearRegistries();
+    const dayCountsFormula: FormulaDefinition = {
+      id: "DayCounts",
+      getRequiredTokens: () => ["notional", "dayCounts"],
+      execute: (inputs) => ok(inputs.dayCounts),
+    };
+    registerLensConfig("notional", { ...notionalConfig, sourceType: "Swap" });
+    registerLensConfig("dayCounts", {
+      sourceType: "IRS",
+      targetType: "string[]",
+      getterPath: ["*", "dayCountConventon"],
+    });
+    registerFormulaDefinition(dayCountsFormula);
+
+    expect(evaluateFormula(dayCountsFormula.id, sampleIRS)).toEqual(
+      err({
+        kind: "ResolutionFailed",
+        token: "dayCounts",
+        reason: {
+          kind: "PathFailed",
+          reason:
+            "Path failed. The rest of the path resolves on none of the 4 elements " +
+            "of the wildcard. Path: *.dayCountConventon",
+        },
+      })
+    );
+  });
+
+  it("resolves a wildcard token to every value it focuses on", () => {
+    const legCountFormula: FormulaDefinition = {
+      id: "DayCounts",
+      getRequiredTokens: () => ["dayCounts"],
+      execute: (inputs) => ok(inputs.dayCounts),
+    };
+    registerLensConfig("dayCounts", {
+      sourceType: "IRS",
+      targetType: "string[]",
+      getterPath: ["*", "dayCountConvention"],
+    });
+    registerFormulaDefinition(legCountFormula);
+
+    expect(evaluateFormula(legCountFormula.id, sampleIRS)).toEqual(
+      ok(["30/360", "Actual/365"])
+    );
+  });
+
+  it("returns ResolutionFailed when a wildcard token resolves on no element", () => {
+    const dayCountsFormula: FormulaDefinition = {
+      id: "DayCounts",
+      getRequiredTokens: () => ["dayCounts"],
+      execute: (inputs) => ok(inputs.dayCounts),
+    };
+    registerLensConfig("dayCounts", {
+      sourceType: "IRS",
+      targetType: "string[]",
+      getterPath: ["*", "dayCountConvention"],
+    });
+    registerFormulaDefinition(dayCountsFormula);
+    const withoutDayCount = ({ paymentFrequency, rate }: Leg) => ({ paymentFrequency, rate });
+    const malformed = {
+      ...sampleIRS,
+      fixedLeg: withoutDayCount(sampleIRS.fixedLeg),
+      floatingLeg: withoutDayCount(sampleIRS.floatingLeg),
+    };
+
+    expect(evaluateFormula(dayCountsFormula.id, malformed)).toEqual(
+      err({
+        kind: "ResolutionFailed",
+        token: "dayCounts",
+        reason: {
+          kind: "PathFailed",
+          reason:
+            "Path failed. The rest of the path resolves on none of the 4 elements " +
+            "of the wildcard. Path: *.dayCountConvention",
+        },
+      })
+    );
+  });
+
   it("returns ExecutionFailed when formula execution returns Err", () => {
     const errorFormula: FormulaDefinition = {
       id: "ErrorFormula",
@@ -175,4 +318,37 @@ describe("Formula Engine", () => {
       });
     }
   });
+
+  it("describes every kind of FormulaError in one line", () => {
+    expect(
+      describeFormulaError({ kind: "MissingFormulaDefinition", formulaId: "F1" })
+    ).toBe("No formula is registered as \"F1\"");
+    expect(describeFormulaError({ kind: "MissingLensConfig", token: "val1" })).toBe(
+      "No lens configuration is registered for token \"val1\""
+    );
+    expect(
+      describeFormulaError({
+        kind: "InvalidLensConfig",
+        token: "val1",
+        reason: { kind: "InvalidGetterPath", reason: "empty path" },
+      })
+    ).toBe("Lens configuration for token \"val1\" is invalid: empty path");
+    expect(
+      describeFormulaError({
+        kind: "ResolutionFailed",
+        token: "val1",
+        reason: { kind: "PathFailed", reason: "missing" },
+      })
+    ).toBe("Could not resolve token \"val1\": missing");
+    expect(
+      describeFormulaError({
+        kind: "ResolutionFailed",
+        token: "val1",
+        reason: { kind: "ValueTypeMismatch", path: "id", targetType: "number", found: "string" },
+      })
+    ).toBe("Could not resolve token \"val1\": Value at id is string, not number");
+    expect(
+      describeFormulaError({ kind: "ExecutionFailed", formulaId: "F1", reason: "NaN" })
+    ).toBe("Formula \"F1\" failed: NaN");
+  });
 });
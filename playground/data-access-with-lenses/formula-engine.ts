@@ -1,5 +1,22 @@
-import { type Result, ok, err, isErr } from "../result-option-types/index.ts";
-import { createLensFromConfig, type LensConfig } from "./lens-configurable";
+import {
+  type Result,
+  ok,
+  err,
+  isErr,
+  mapResult,
+  matchTag,
+  traverse,
+} from "../result-option-types/index.ts";
+import {
+  createLensFromConfig,
+  describeConfiguredOpticError,
+  describeLensConfigError,
+  viewConfigured,
+  type ConfiguredOpticError,
+  type LensConfig,
+  type LensConfigError,
+} from "./lens-configurable";
+import { type SchemaRegistry } from "./lens-schema";
 
 export type FormulaInputValue =
   | number
@@ -30,12 +47,12 @@ export type FormulaError =
   | {
       readonly kind: "InvalidLensConfig";
       readonly token: string;
-      readonly reason: string;
+      readonly reason: LensConfigError;
     }
   | {
       readonly kind: "ResolutionFailed";
       readonly token: string;
-      readonly reason: string;
+      readonly reason: ConfiguredOpticError;
     }
   | {
       readonly kind: "ExecutionFailed";
@@ -43,10 +60,33 @@ export type FormulaError =
       readonly reason: string;
     };
 
+/**
+ * Renders a FormulaError as a one-line message for logs and operators.
+ * Adding a variant to FormulaError fails to compile until it is described
+ * here.
+ */
+export function describeFormulaError(error: FormulaError): string {
+  return matchTag(error, "kind", {
+    MissingFormulaDefinition: ({ formulaId }) =>
+      `No formula is registered as "${formulaId}"`,
+    MissingLensConfig: ({ token }) =>
+      `No lens configuration is registered for token "${token}"`,
+    InvalidLensConfig: ({ token, reason }) =>
+      `Lens configuration for token "${token}" is invalid: ` +
+      describeLensConfigError(reason),
+    ResolutionFailed: ({ token, reason }) =>
+      `Could not resolve token "${token}": ` +
+      describeConfiguredOpticError(reason),
+    ExecutionFailed: ({ formulaId, reason }) =>
+      `Formula "${formulaId}" failed: ${reason}`,
+  });
+}
+
 // Mock storage for formula engine dependencies.
 // In a real app these would come from a database, config files, or a service.
 let lensConfigsRegistry: Readonly<Record<string, LensConfig>> = {};
 let formulaDefinitionsRegistry: Readonly<Record<string, FormulaDefinition>> = {};
+let typeSchemasRegistry: SchemaRegistry | undefined;
 
 export function registerLensConfig(token: string, config: LensConfig): void {
   lensConfigsRegistry = { ...lensConfigsRegistry, [token]: config };
@@ -59,6 +99,17 @@ export function registerFormulaDefinition(definition: FormulaDefinition): void {
   };
 }
 
+/**
+ * Registers the types that lens configurations name as sourceType and
+ * targetType. Once any are registered, every configuration is checked
+ * against them when its token is resolved, so a sourceType that is not
+ * registered is an InvalidLensConfig. Until then configurations are not
+ * checked.
+ */
+export function registerTypeSchemas(schemas: SchemaRegistry): void {
+  typeSchemasRegistry = { ...typeSchemasRegistry, ...schemas };
+}
+
 export function lookupLensConfig(token: string): LensConfig | undefined {
   return lensConfigsRegistry[token];
 }
@@ -77,6 +128,7 @@ export function lookupFormulaDefinition(
 export function clearRegistries(): void {
   lensConfigsRegistry = {};
   formulaDefinitionsRegistry = {};
+  typeSchemasRegistry = undefined;
 }
 
 function resolveTokenInput(
@@ -88,7 +140,10 @@ function resolveTokenInput(
     return err({ kind: "MissingLensConfig", token });
   }
 
-  const lensResult = createLensFromConfig<object, FormulaInputValue>(config);
+  const lensResult = createLensFromConfig<object, FormulaInputValue>(
+    config,
+    typeSchemasRegistry
+  );
   if (isErr(lensResult)) {
     return err({
       kind: "InvalidLensConfig",
@@ -97,7 +152,7 @@ function resolveTokenInput(
     });
   }
 
-  const viewResult = lensResult.value.view(dataContext);
+  const viewResult = viewConfigured(lensResult.value, dataContext);
   if (isErr(viewResult)) {
     return err({
       kind: "ResolutionFailed",
@@ -113,21 +168,9 @@ function resolveFormulaInputs(
   tokens: readonly string[],
   dataContext: object
 ): Result<Record<string, FormulaInputValue>, FormulaError> {
-  return tokens.reduce<Result<Record<string, FormulaInputValue>, FormulaError>>(
-    (inputsResult, token) => {
-      if (isErr(inputsResult)) {
-        return inputsResult;
-      }
-
-      const tokenResult = resolveTokenInput(token, dataContext);
-      if (isErr(tokenResult)) {
-        return tokenResult;
-      }
-
-      const [resolvedToken, value] = tokenResult.value;
-      return ok({ ...inputsResult.value, [resolvedToken]: value });
-    },
-    ok({})
+  return mapResult(
+    traverse(tokens, (token) => resolveTokenInput(token, dataContext)),
+    (entries) => Object.fromEntries(entries)
   );
 }
 
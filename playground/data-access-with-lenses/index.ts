@@ -1,19 +1,50 @@
-import { err, isErr, isOk, ok } from "../result-option-types/index.ts";
+import {
+  andThen,
+  err,
+  isErr,
+  mapErr,
+  mapResult,
+  matchResult,
+  ok,
+  pipe,
+  tapResult,
+} from "../result-option-types/index.ts";
 import {
   type IRS,
   type EuropeanCallOption,
   type FixedRate,
   type FloatingRate,
+  type Leg,
+  type Portfolio,
 } from "./data-models";
-import { lensProp } from "./lens-core";
-import { createLensFromConfig, type LensConfig } from "./lens-configurable";
 import {
+  composeLens,
+  composeOptional,
+  composeTraversal,
+  each,
+  eachProp,
+  lensProp,
+  prismTag,
+  type Optional,
+} from "./lens-core";
+import {
+  createLensFromConfig,
+  describeConfiguredOpticError,
+  describeLensConfigError,
+  toLens,
+  viewConfigured,
+  type LensConfig,
+} from "./lens-configurable";
+import {
+  describeFormulaError,
   evaluateFormula,
   registerLensConfig,
   registerFormulaDefinition,
+  registerTypeSchemas,
   type FormulaDefinition,
   type FormulaInputValue,
 } from "./formula-engine";
+import { modelSchemas } from "./data-model-schemas";
 
 const section = (title: string): void => {
   console.log(`\n--- ${title} ---`);
@@ -44,25 +75,27 @@ const option1: EuropeanCallOption = {
 };
 
 // --- Register Lens Configurations ---
+// Every configuration is checked against these when its token is resolved.
+registerTypeSchemas(modelSchemas);
 registerLensConfig("IRS.Notional", {
   sourceType: "IRS",
   targetType: "number",
-  getterPath: ["notionalAmount"],
+  getterPath: "notionalAmount",
 });
 registerLensConfig("IRS.FloatingLeg.RateType", {
   sourceType: "IRS",
   targetType: "string",
-  getterPath: ["floatingLeg", "rate", "type"],
+  getterPath: "floatingLeg.rate.type",
 });
 registerLensConfig("IRS.FloatingLeg.Spread", {
   sourceType: "IRS",
   targetType: "number",
-  getterPath: ["floatingLeg", "rate", "spread"], // Assumes rate is FloatingRate
+  getterPath: "floatingLeg.rate.spread", // Assumes rate is FloatingRate
 });
 registerLensConfig("IRS.FixedLeg.RateValue", {
   sourceType: "IRS",
   targetType: "number",
-  getterPath: ["fixedLeg", "rate", "value"], // Assumes rate is FixedRate
+  getterPath: "/fixedLeg/rate/value", // Assumes rate is FixedRate
 });
 
 // --- Register Formula Definitions ---
@@ -106,45 +139,39 @@ function runLensLawDemo(): void {
   section("Lens Law Example (Option Strike)");
 
   const optionStrikeLens = lensProp<EuropeanCallOption, "strike">("strike");
-  const strikeView = optionStrikeLens.view(option1);
-  if (isErr(strikeView)) {
-    console.error("Failed to view strike on option1:", strikeView.error);
-    return;
-  }
-
-  const updatedOptionResult = optionStrikeLens.set(
-    option1,
-    strikeView.value + 10
-  );
-  if (isErr(updatedOptionResult)) {
-    console.error("Failed to set strike on option1:", updatedOptionResult.error);
-    return;
-  }
-
-  const newStrikeView = optionStrikeLens.view(updatedOptionResult.value);
-  if (isErr(newStrikeView)) {
-    console.error("Failed to view strike on updated option:", newStrikeView.error);
-    return;
-  }
-
-  console.log("Original Strike:", strikeView.value);
-  console.log("Updated Strike:", newStrikeView.value);
-  console.log(
-    "Set-Get Law (simplified):",
-    newStrikeView.value === strikeView.value + 10
+  pipe(
+    optionStrikeLens.view(option1),
+    mapErr((error) => `Failed to view strike on option1: ${error}`),
+    andThen((strike) =>
+      pipe(
+        optionStrikeLens.set(option1, strike + 10),
+        mapErr((error) => `Failed to set strike on option1: ${error}`),
+        andThen(optionStrikeLens.view),
+        mapResult((newStrike) => ({ strike, newStrike }))
+      )
+    ),
+    matchResult({
+      ok: ({ strike, newStrike }) => {
+        console.log("Original Strike:", strike);
+        console.log("Updated Strike:", newStrike);
+        console.log("Set-Get Law (simplified):", newStrike === strike + 10);
+      },
+      err: (message) => console.error(message),
+    })
   );
 }
 
 function runFormulaExample(formulaId: string): void {
   section(`Formula Evaluation Example: ${formulaId}`);
 
-  const formulaResult = evaluateFormula(formulaId, sampleIRS);
-  if (isOk(formulaResult)) {
-    console.log(`Formula Result (${formulaId}):`, formulaResult.value);
-    return;
-  }
-
-  console.error(`Error evaluating ${formulaId}:`, formulaResult.error);
+  pipe(
+    evaluateFormula(formulaId, sampleIRS),
+    matchResult({
+      ok: (value) => console.log(`Formula Result (${formulaId}):`, value),
+      err: (error) =>
+        console.error(`Error evaluating ${formulaId}:`, describeFormulaError(error)),
+    })
+  );
 }
 
 function runConfigurableLensDemo(): void {
@@ -155,45 +182,52 @@ function runConfigurableLensDemo(): void {
     targetType: "number",
     getterPath: ["floatingLeg", "rate", "spread"],
   };
-  const spreadLensResult = createLensFromConfig<IRS, number>(spreadLensConfig);
-  if (isErr(spreadLensResult)) {
-    console.error("Failed to create spread lens:", spreadLensResult.error);
-    return;
-  }
-
-  const spreadLens = spreadLensResult.value;
-  const spreadViewResult = spreadLens.view(sampleIRS);
-  console.log("Spread viewed via lens:", spreadViewResult);
-
-  if (isErr(spreadViewResult)) {
-    return;
-  }
-
-  const newIRSResult = spreadLens.set(sampleIRS, spreadViewResult.value + 0.001);
-  if (isErr(newIRSResult)) {
-    console.error("Failed to update spread in IRS object:", newIRSResult.error);
-    return;
-  }
-
-  const newIRS = newIRSResult.value;
-  const updatedSpreadView = spreadLens.view(newIRS);
-  console.log("Updated spread in new IRS object:", updatedSpreadView);
-
-  if (sampleIRS.floatingLeg.rate.type === "Floating") {
-    console.log(
-      "Original IRS spread (direct access):",
-      sampleIRS.floatingLeg.rate.spread
-    );
-  }
-
-  if (newIRS.floatingLeg.rate.type === "Floating" && isOk(updatedSpreadView)) {
-    console.log(
-      "New IRS spread (direct access):",
-      newIRS.floatingLeg.rate.spread,
-      "Matches lens view:",
-      newIRS.floatingLeg.rate.spread === updatedSpreadView.value
-    );
-  }
+  pipe(
+    createLensFromConfig<IRS, number>(spreadLensConfig),
+    andThen(toLens),
+    mapErr((error) => `Failed to create spread lens: ${describeLensConfigError(error)}`),
+    andThen((spreadLens) =>
+      pipe(
+        spreadLens.view(sampleIRS),
+        tapResult((spread) => console.log("Spread viewed via lens:", spread)),
+        andThen((spread) => spreadLens.set(sampleIRS, spread + 0.001)),
+        mapErr(
+          (error) =>
+            `Failed to update spread in IRS object: ${describeConfiguredOpticError(error)}`
+        ),
+        andThen((newIRS) =>
+          pipe(
+            spreadLens.view(newIRS),
+            mapErr(
+              (error) =>
+                `Failed to view spread in new IRS object: ${describeConfiguredOpticError(error)}`
+            ),
+            tapResult((spread) => console.log("Updated spread in new IRS object:", spread)),
+            mapResult((spread) => ({ newIRS, spread }))
+          )
+        )
+      )
+    ),
+    matchResult({
+      ok: ({ newIRS, spread }) => {
+        if (sampleIRS.floatingLeg.rate.type === "Floating") {
+          console.log(
+            "Original IRS spread (direct access):",
+            sampleIRS.floatingLeg.rate.spread
+          );
+        }
+        if (newIRS.floatingLeg.rate.type === "Floating") {
+          console.log(
+            "New IRS spread (direct access):",
+            newIRS.floatingLeg.rate.spread,
+            "Matches lens view:",
+            newIRS.floatingLeg.rate.spread === spread
+          );
+        }
+      },
+      err: (message) => console.error(message),
+    })
+  );
 }
 
 function runMismatchedPathDemo(): void {
@@ -204,11 +238,15 @@ function runMismatchedPathDemo(): void {
     targetType: "number",
     getterPath: ["fixedLeg", "rate", "spread"], // 'spread' doesn't exist on FixedRate
   };
-  const problematicLensResult = createLensFromConfig<IRS, number | undefined>(
-    problematicPathConfig
+  const problematicLensResult = andThen(
+    createLensFromConfig<IRS, number | undefined>(problematicPathConfig),
+    toLens
   );
   if (isErr(problematicLensResult)) {
-    console.error("Failed to create problematic lens:", problematicLensResult.error);
+    console.error(
+      "Failed to create problematic lens:",
+      describeLensConfigError(problematicLensResult.error)
+    );
     return;
   }
 
@@ -216,7 +254,7 @@ function runMismatchedPathDemo(): void {
   const problematicView = problematicLens.view(sampleIRS);
   if (isErr(problematicView)) {
     console.log("View failed because FixedRate has no spread field:");
-    console.log(problematicView.error);
+    console.log(describeConfiguredOpticError(problematicView.error));
   } else {
     console.log("Unexpected view success:", problematicView.value);
   }
@@ -228,14 +266,126 @@ function runMismatchedPathDemo(): void {
   if (isErr(problematicSetResult)) {
     console.error(
       "Error during problematic set on fixedLeg.rate.spread:",
-      problematicSetResult.error
+      describeConfiguredOpticError(problematicSetResult.error)
     );
     return;
   }
 
   console.log("Updated fixedLeg.rate:", problematicSetResult.value.fixedLeg.rate);
   console.log(
-    "This is why production configurable lenses should validate target paths against fixtures."
+    "This is why production configurable lenses should validate target paths against fixtures,"
+  );
+  console.log("or focus through the union with a Prism, as in the next example.");
+}
+
+function runRatePrismDemo(): void {
+  section("Prism Example: spread only on Floating rates");
+
+  // Lens∘Prism∘Lens is an Optional: it only has a focus on Floating rates.
+  const spreadOf = (leg: "fixedLeg" | "floatingLeg"): Optional<IRS, number> =>
+    composeOptional(
+      composeOptional(
+        composeLens(lensProp<IRS, typeof leg>(leg), lensProp<Leg, "rate">("rate")),
+        prismTag("type", "Floating")
+      ),
+      lensProp<FloatingRate, "spread">("spread")
+    );
+
+  for (const leg of ["floatingLeg", "fixedLeg"] as const) {
+    const spread = spreadOf(leg);
+    pipe(
+      spread.preview(sampleIRS),
+      tapResult((value) => console.log(`${leg}.rate.spread viewed:`, value)),
+      andThen((value) => spread.set(sampleIRS, value + 0.002)),
+      matchResult({
+        ok: (updated) => console.log(`Updated ${leg}.rate:`, updated[leg].rate),
+        err: (message) => console.log(`${leg}.rate.spread is not there: ${message}`),
+      })
+    );
+  }
+}
+
+function runConfiguredPathGrammarDemo(): void {
+  section("Configured Path Grammar Example: path strings, filters and wildcards");
+
+  const paths: ReadonlyArray<string> = [
+    "fixedLeg.rate[type=Floating].spread",
+    "*[rate.type=Floating].rate.spread",
+    "$.*.dayCountConvention",
+    "fixedLeg.rate[type]",
+  ];
+  for (const getterPath of paths) {
+    pipe(
+      createLensFromConfig<IRS, unknown>({ sourceType: "IRS", targetType: "unknown", getterPath }),
+      mapErr(describeLensConfigError),
+      andThen((optic) =>
+        mapErr(viewConfigured(optic, sampleIRS), describeConfiguredOpticError)
+      ),
+      matchResult({
+        ok: (value) => console.log(`${getterPath}:`, value),
+        err: (message) => console.log(`${getterPath} failed: ${message}`),
+      })
+    );
+  }
+}
+
+function runSchemaCheckedConfigDemo(): void {
+  section("Schema-Checked Configuration Example: sourceType and targetType");
+
+  const configs: readonly LensConfig[] = [
+    { sourceType: "IRS", targetType: "number", getterPath: "floatingLeg.rate.spread" },
+    { sourceType: "IRS", targetType: "number", getterPath: "fixedLeg.rate.margin" },
+    { sourceType: "IRS", targetType: "number", getterPath: "fixedLeg.rate.type" },
+    { sourceType: "IRS", targetType: "string[]", getterPath: "*.paymentFrequency" },
+    { sourceType: "Swap", targetType: "number", getterPath: "notionalAmount" },
+  ];
+  for (const config of configs) {
+    const label = `${config.sourceType} ${String(config.getterPath)} as ${config.targetType}`;
+    pipe(
+      createLensFromConfig<IRS, unknown>(config, modelSchemas),
+      mapErr(describeLensConfigError),
+      andThen((optic) =>
+        mapErr(viewConfigured(optic, sampleIRS), describeConfiguredOpticError)
+      ),
+      matchResult({
+        ok: (value) => console.log(`${label}:`, value),
+        err: (message) => console.log(`${label} rejected: ${message}`),
+      })
+    );
+  }
+}
+
+function runPortfolioTraversalDemo(): void {
+  section("Traversal Example: every leg of every trade");
+
+  const portfolio: Portfolio = {
+    id: "PF001",
+    trades: [sampleIRS, { ...sampleIRS, id: "IRS002", notionalAmount: 250000 }],
+  };
+  const trades = composeTraversal(lensProp<Portfolio, "trades">("trades"), each());
+  const dayCounts = composeTraversal(
+    composeTraversal(
+      trades,
+      eachProp<IRS, "fixedLeg" | "floatingLeg">("fixedLeg", "floatingLeg")
+    ),
+    lensProp<Leg, "dayCountConvention">("dayCountConvention")
+  );
+  const notionals = composeTraversal(trades, lensProp<IRS, "notionalAmount">("notionalAmount"));
+
+  console.log("Day count conventions:", dayCounts.toArray(portfolio));
+  console.log(
+    "Total notional:",
+    notionals.fold(portfolio, 0, (total, notional) => total + notional)
+  );
+  pipe(
+    dayCounts.set(portfolio, "Actual/360"),
+    matchResult({
+      ok: (updated) => {
+        console.log("After bulk update:", dayCounts.toArray(updated));
+        console.log("Original unchanged:", dayCounts.toArray(portfolio));
+      },
+      err: (message) => console.error("Bulk update failed:", message),
+    })
   );
 }
 
@@ -246,6 +396,10 @@ function runDemonstrations(): void {
   runFormulaExample("DisplayLegTypesAndNotional");
   runConfigurableLensDemo();
   runMismatchedPathDemo();
+  runRatePrismDemo();
+  runConfiguredPathGrammarDemo();
+  runSchemaCheckedConfigDemo();
+  runPortfolioTraversalDemo();
 }
 
 runDemonstrations();
@@ -1,20 +1,44 @@
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
-import { ok, isOk, isErr } from "../result-option-types/index.ts";
-import { createLensFromConfig, type LensConfig } from "./lens-configurable";
-import type { Lens } from "./lens-core";
+import { ok, err, isOk, isErr, andThen, mapErr } from "../result-option-types/index.ts";
+import {
+  createLensFromConfig,
+  describeLensConfigError,
+  toLens,
+  viewConfigured,
+  type ConfiguredOptic,
+  type ConfiguredOpticError,
+  type LensConfig,
+} from "./lens-configurable";
+import type { Lens, Optional, Traversal } from "./lens-core";
 
-// Test helper: createLensFromConfig now returns Result<Lens, string>.
+// Test helper: createLensFromConfig returns Result<ConfiguredOptic, LensConfigError>.
 // Tests that exercise lens behavior on a valid config use this to keep
 // assertions focused; tests for invalid config call the factory directly.
-function buildLens<S extends object, A>(config: LensConfig): Lens<S, A> {
-  const result = createLensFromConfig<S, A>(config);
+function buildLens<S extends object, A>(config: LensConfig): Lens<S, A, ConfiguredOpticError> {
+  const result = andThen(createLensFromConfig<S, A>(config), toLens);
   if (isErr(result)) {
-    throw new Error(`Test setup: invalid LensConfig: ${result.error}`);
+    throw new Error(
+      `Test setup: invalid LensConfig: ${describeLensConfigError(result.error)}`
+    );
   }
   return result.value;
 }
 
+function buildOptic<S extends object, A>(
+  ...getterPath: ReadonlyArray<string | number>
+): ConfiguredOptic<S, A> {
+  const result = createLensFromConfig<S, A>({ sourceType: "Test", targetType: "any", getterPath });
+  if (isErr(result)) {
+    throw new Error(
+      `Test setup: invalid LensConfig: ${describeLensConfigError(result.error)}`
+    );
+  }
+  return result.value;
+}
+
+const pathFailed = (reason: string) => err({ kind: "PathFailed", reason });
+
 function isRecord(value: unknown): value is Record<string, unknown> {
   return typeof value === "object" && value !== null && !Array.isArray(value);
 }
@@ -35,7 +59,10 @@ describe("createLensFromConfig", () => {
     const result = createLensFromConfig(config);
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("non-empty getterPath");
+      expect(result.error).toEqual({
+        kind: "InvalidGetterPath",
+        reason: "LensConfig requires a non-empty getterPath",
+      });
     }
   });
 
@@ -84,7 +111,10 @@ describe("createLensFromConfig", () => {
     const result = lens.view(sampleObject);
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("Property 'x' does not exist");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("Property 'x' does not exist"),
+      });
     }
   });
 
@@ -97,7 +127,10 @@ describe("createLensFromConfig", () => {
     const result = lens.view(sampleObject);
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("Property 'x' does not exist");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("Property 'x' does not exist"),
+      });
     }
   });
 
@@ -110,7 +143,10 @@ describe("createLensFromConfig", () => {
     const result = lens.view(sampleObject);
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("Index 5 out of bounds");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("Index 5 out of bounds"),
+      });
     }
   });
 
@@ -123,7 +159,10 @@ describe("createLensFromConfig", () => {
     const result = lens.view(sampleObject);
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("current object is null/undefined");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("current object is null/undefined"),
+      });
     }
   });
 
@@ -174,7 +213,10 @@ describe("createLensFromConfig", () => {
     const result = lens.set(sampleObject, "test");
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("Invalid path element 'x'");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("Invalid path element 'x'"),
+      });
     }
   });
 
@@ -187,12 +229,18 @@ describe("createLensFromConfig", () => {
     const result = lens.set(sampleObject, "test");
     expect(isErr(result)).toBe(true);
     if (isErr(result)) {
-      expect(result.error).toContain("Invalid path element 'f'");
+      expect(result.error).toEqual({
+        kind: "PathFailed",
+        reason: expect.stringContaining("Invalid path element 'f'"),
+      });
     }
   });
 
   describe("Configurable Lens Laws (Property-Based - Simplified)", () => {
-    const arbKey = fc.string({ minLength: 1, maxLength: 5 });
+    // Keys that read as path grammar ("*", "[k=v]") are not plain properties.
+    const arbKey = fc
+      .string({ minLength: 1, maxLength: 5 })
+      .filter((key) => key !== "*" && !key.startsWith("["));
     const arbValue = fc.oneof(
       fc.integer(),
       fc.string(),
@@ -243,3 +291,209 @@ describe("createLensFromConfig", () => {
     });
   });
 });
+
+describe("getterPath grammar", () => {
+  const book = {
+    legs: [
+      { id: "L1", rate: { type: "Fixed", value: 0.025 } },
+      { id: "L2", rate: { type: "Floating", index: "SOFR", spread: 0.005 } },
+      { id: "L3", rate: { type: "Floating", index: "ESTR", spread: 0.001 } },
+    ],
+    limits: { usd: 100, eur: 50 },
+    empty: [] as number[],
+  };
+  type Book = typeof book;
+
+  const asOptional = <S, A>(
+    optic: ConfiguredOptic<S, A>
+  ): Optional<S, A, ConfiguredOpticError> => {
+    expect("preview" in optic && !("toArray" in optic)).toBe(true);
+    return optic as Optional<S, A, ConfiguredOpticError>;
+  };
+  const asTraversal = <S, A>(
+    optic: ConfiguredOptic<S, A>
+  ): Traversal<S, A, ConfiguredOpticError> => {
+    expect("toArray" in optic).toBe(true);
+    return optic as Traversal<S, A, ConfiguredOpticError>;
+  };
+
+  it("returns a Lens for property names and indices only", () => {
+    expect(isOk(toLens(buildOptic<Book, string>("legs", 0, "id")))).toBe(true);
+  });
+
+  it("returns Err from the factory for a malformed filter or index", () => {
+    const create = (...getterPath: ReadonlyArray<string | number>) =>
+      createLensFromConfig({ sourceType: "Test", targetType: "any", getterPath });
+    expect(create("legs", "[type]")).toEqual(
+      err({
+        kind: "InvalidGetterPath",
+        reason: "Invalid filter '[type]' in getterPath: expected [key=value]",
+      })
+    );
+    expect(create("legs", -1.5)).toEqual(
+      err({
+        kind: "InvalidGetterPath",
+        reason: "Invalid index -1.5 in getterPath: negative indices must be integers",
+      })
+    );
+  });
+
+  it("accepts a path string in place of the segment array", () => {
+    const create = (getterPath: string) =>
+      createLensFromConfig<Book, unknown>({ sourceType: "Test", targetType: "any", getterPath });
+    const view = (getterPath: string) =>
+      andThen(create(getterPath), (optic) => viewConfigured(optic, book));
+    expect(view("legs[1].rate.spread")).toEqual(ok(0.005));
+    expect(view("/legs/0/id")).toEqual(ok("L1"));
+    expect(view("legs[*][rate.type=Floating].id")).toEqual(ok(["L2", "L3"]));
+    expect(create("legs[1")).toEqual(
+      err({
+        kind: "PathSyntaxError",
+        input: "legs[1",
+        column: 7,
+        reason: "expected \"]\"",
+      })
+    );
+    expect(mapErr(create("legs[1"), describeLensConfigError)).toEqual(
+      err("Invalid path \"legs[1\" at column 7: expected \"]\"")
+    );
+  });
+
+  describe("last element (-1)", () => {
+    const lastId = asOptional(buildOptic<Book, string>("legs", -1, "id"));
+
+    it("views and sets the last element", () => {
+      expect(lastId.preview(book)).toEqual(ok("L3"));
+      const result = lastId.set(book, "L9");
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.legs.map((leg) => leg.id)).toEqual(["L1", "L2", "L9"]);
+      }
+      expect(book.legs[2]?.id).toBe("L3");
+    });
+
+    it("returns Err with the path for an empty array or a non-array", () => {
+      const lastOfEmpty = asOptional(buildOptic<Book, number>("empty", -1));
+      const expected = pathFailed(
+        "Path failed. Index -1 out of bounds for array (length 0). Path: empty.-1"
+      );
+      expect(lastOfEmpty.preview(book)).toEqual(expected);
+      expect(lastOfEmpty.set(book, 1)).toEqual(expected);
+      expect(asOptional(buildOptic<Book, unknown>("limits", -1)).preview(book)).toEqual(
+        pathFailed("Path failed. Index -1 needs an array, found object. Path: limits.-1")
+      );
+    });
+  });
+
+  describe("filters", () => {
+    const spreadIfFloating = (index: number) =>
+      asOptional(buildOptic<Book, number>("legs", index, "rate", "[type=Floating]", "spread"));
+
+    it("views and sets only when the filter matches", () => {
+      expect(spreadIfFloating(1).preview(book)).toEqual(ok(0.005));
+      const result = spreadIfFloating(1).set(book, 0.007);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.value.legs[1]?.rate).toEqual({
+          type: "Floating",
+          index: "SOFR",
+          spread: 0.007,
+        });
+      }
+    });
+
+    it("neither views nor creates a field when the filter does not match", () => {
+      const expected = pathFailed(
+        "Path failed. Filter '[type=Floating]' does not match: type is 'Fixed'. " +
+          "Path: legs.0.rate.[type=Floating].spread"
+      );
+      expect(spreadIfFloating(0).preview(book)).toEqual(expected);
+      expect(spreadIfFloating(0).set(book, 0.007)).toEqual(expected);
+    });
+
+    it("keeps the precise message of the segment that failed", () => {
+      const missing = asOptional(buildOptic<Book, unknown>("legs", 0, "[type=Fixed]", "x"));
+      expect(missing.preview(book)).toEqual(
+        pathFailed(
+          "Path failed. Filter '[type=Fixed]' does not match: type is missing. " +
+            "Path: legs.0.[type=Fixed].x"
+        )
+      );
+      const afterFilter = asOptional(
+        buildOptic<Book, unknown>("legs", 0, "[rate.type=Fixed]", "x")
+      );
+      expect(afterFilter.preview(book)).toEqual(
+        pathFailed(
+          "Path failed. Property 'x' does not exist on current object. " +
+            "Path: legs.0.[rate.type=Fixed].x"
+        )
+      );
+    });
+  });
+
+  describe("wildcards", () => {
+    it("focuses every array element and every object value", () => {
+      expect(asTraversal(buildOptic<Book, string>("legs", "*", "id")).toArray(book)).toEqual([
+        "L1",
+        "L2",
+        "L3",
+      ]);
+      expect(asTraversal(buildOptic<Book, number>("limits", "*")).toArray(book)).toEqual([
+        100, 50,
+      ]);
+    });
+
+    it("combines with filters to pick matching elements", () => {
+      const floatingSpreads = asTraversal(
+        buildOptic<Book, number>("legs", "*", "[rate.type=Floating]", "rate", "spread")
+      );
+      expect(floatingSpreads.toArray(book)).toEqual([0.005, 0.001]);
+
+      const result = floatingSpreads.set(book, 0);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(floatingSpreads.toArray(result.value)).toEqual([0, 0]);
+        expect(result.value.legs[0]).toEqual(book.legs[0]);
+      }
+    });
+
+    it("focuses nothing inside a value that is not an array or object", () => {
+      expect(asTraversal(buildOptic<Book, unknown>("legs", 0, "id", "*")).toArray(book)).toEqual(
+        []
+      );
+    });
+
+    it("fails when the rest of the path resolves on no element", () => {
+      const misspelled = buildOptic<Book, string>("legs", "*", "idd");
+      const failure = pathFailed(
+        "Path failed. The rest of the path resolves on none of the 3 elements of the wildcard. " +
+          "Path: legs.*.idd"
+      );
+      expect(viewConfigured(misspelled, book)).toEqual(failure);
+      expect(asTraversal(misspelled).set(book, "L0")).toEqual(failure);
+      expect(asTraversal(misspelled).toArray(book)).toEqual([]);
+      expect(viewConfigured(buildOptic<Book, number>("empty", "*"), book)).toEqual(ok([]));
+      expect(viewConfigured(buildOptic<Book, unknown>("legs", 0, "id", "*"), book)).toEqual(
+        pathFailed(
+          "Path failed. Wildcard needs an array or object, found string. Path: legs.0.id.*"
+        )
+      );
+    });
+
+    it("reads every focused value with viewConfigured", () => {
+      expect(viewConfigured(buildOptic<Book, string>("legs", "*", "id"), book)).toEqual(
+        ok(["L1", "L2", "L3"])
+      );
+      expect(viewConfigured(buildOptic<Book, string>("legs", -1, "id"), book)).toEqual(ok("L3"));
+    });
+
+    it("cannot be narrowed to a Lens", () => {
+      expect(toLens(buildOptic<Book, string>("legs", "*", "id"))).toEqual(
+        err({ kind: "NotALens", describes: "Traversal" })
+      );
+      expect(toLens(buildOptic<Book, string>("legs", -1, "id"))).toEqual(
+        err({ kind: "NotALens", describes: "Optional" })
+      );
+    });
+  });
+});
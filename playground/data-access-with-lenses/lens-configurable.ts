@@ -1,10 +1,90 @@
-import { type Result, ok, err, isErr } from "../result-option-types/index.ts";
-import { type Lens, type ViewResult, type SetResult } from "./lens-core";
+import {
+  type Result,
+  ok,
+  err,
+  isOk,
+  isErr,
+  andThen,
+  mapErr,
+  mapResult,
+  matchTag,
+  traverse,
+} from "../result-option-types/index.ts";
+import {
+  type Lens,
+  type Optional,
+  type Traversal,
+  type ViewResult,
+  type SetResult,
+  composeOptional,
+  composeTraversal,
+  each,
+  toTraversal,
+} from "./lens-core";
+import { type PathSyntaxError, parsePath, formatPathSyntaxError } from "./lens-path";
+import {
+  type SchemaError,
+  type SchemaRegistry,
+  checkPath,
+  checkValue,
+  checkValues,
+  describeSchemaError,
+  describeType,
+} from "./lens-schema";
 
+/**
+ * One step of a getterPath:
+ * - a property name or array index focuses on that value;
+ * - `-1` focuses on the last element of an array, `-2` on the one before;
+ * - `"[type=Floating]"` continues only when the current value's `type` is
+ *   "Floating"; the key can be a dotted path, e.g. `"[rate.type=Floating]"`;
+ * - `"*"` focuses on every element of an array or value of an object.
+ */
+export type PathSegment = string | number;
+
+/**
+ * `getterPath` is either an array of segments or a path string such as
+ * `"floatingLeg.rate.spread"`, `"legs[0].rate"` or `"/fixedLeg/rate/value"`
+ * (see parsePath).
+ */
 export interface LensConfig {
   readonly sourceType: string;
   readonly targetType: string;
-  readonly getterPath: ReadonlyArray<string | number>;
+  readonly getterPath: ReadonlyArray<PathSegment> | string;
+}
+
+/**
+ * The optic a getterPath describes. Property names and indices alone
+ * give a Lens; a filter or negative index, which may miss, gives an
+ * Optional; a wildcard gives a Traversal.
+ */
+export type ConfiguredOptic<S, A> =
+  | Lens<S, A, ConfiguredOpticError>
+  | Optional<S, A, ConfiguredOpticError>
+  | ConfiguredTraversal<S, A>;
+
+/**
+ * Why a configured optic could not view or set. PathFailed carries the
+ * message for a path that does not resolve on the source; an optic created
+ * with a SchemaRegistry also fails with the SchemaError of a value that is
+ * not the targetType, usually a ValueTypeMismatch.
+ */
+export type ConfiguredOpticError =
+  | { readonly kind: "PathFailed"; readonly reason: string }
+  | SchemaError;
+
+/**
+ * Renders a ConfiguredOpticError as a one-line message.
+ */
+export function describeConfiguredOpticError(error: ConfiguredOpticError): string {
+  return matchTag(error, "kind", {
+    PathFailed: ({ reason }) => reason,
+    UnknownType: describeSchemaError,
+    CircularType: describeSchemaError,
+    PathNotInSchema: describeSchemaError,
+    TargetTypeMismatch: describeSchemaError,
+    ValueTypeMismatch: describeSchemaError,
+  });
 }
 
 const pathError = (
@@ -163,25 +243,376 @@ function setPathValue(
 }
 
 /**
- * Creates a Lens from configuration metadata. The factory itself returns
- * a Result because the configuration can be invalid (e.g. empty
- * getterPath); the returned lens follows the same convention: view fails
- * by Err when the path does not resolve, and set fails by Err when an
- * intermediate object is missing.
+ * A getterPath segment after parsing, as read by the optics below and by
+ * checkPath in lens-schema.
+ */
+export type ParsedSegment =
+  | { readonly kind: "key"; readonly key: string | number }
+  | { readonly kind: "fromEnd"; readonly offset: number }
+  | {
+      readonly kind: "filter";
+      readonly segment: string;
+      readonly keyPath: readonly string[];
+      readonly value: string;
+    }
+  | { readonly kind: "wildcard" };
+
+const FILTER_SEGMENT = /^\[([^=\]]+)=([^\]]*)\]$/;
+
+function parseSegment(segment: PathSegment): Result<ParsedSegment, string> {
+  if (typeof segment === "number") {
+    if (segment >= 0) {
+      return ok({ kind: "key", key: segment });
+    }
+    return Number.isInteger(segment)
+      ? ok({ kind: "fromEnd", offset: segment })
+      : err(`Invalid index ${segment} in getterPath: negative indices must be integers`);
+  }
+  if (segment === "*") {
+    return ok({ kind: "wildcard" });
+  }
+  if (segment.startsWith("[")) {
+    const match = FILTER_SEGMENT.exec(segment);
+    if (match === null) {
+      return err(`Invalid filter '${segment}' in getterPath: expected [key=value]`);
+    }
+    const [, keyPath = "", value = ""] = match;
+    return ok({ kind: "filter", segment, keyPath: keyPath.split("."), value });
+  }
+  return ok({ kind: "key", key: segment });
+}
+
+// Sets only where preview succeeds, so a configured Optional never creates
+// a value that is not there.
+function existingOptional<A>(
+  preview: (source: unknown) => ViewResult<A>,
+  replace: (source: unknown, newValue: A) => unknown
+): Optional<unknown, A> {
+  return {
+    preview,
+    set: (source, newValue) => {
+      const current = preview(source);
+      return isErr(current) ? current : ok(replace(source, newValue));
+    },
+  };
+}
+
+function segmentOptional(
+  segment: Exclude<ParsedSegment, { readonly kind: "wildcard" }>,
+  path: ReadonlyArray<PathSegment>
+): Optional<unknown, unknown> {
+  switch (segment.kind) {
+    case "key":
+      return existingOptional(
+        (current) => validatePathElement(current, segment.key, path),
+        (current, newValue) => replaceProperty(current, segment.key, newValue)
+      );
+    case "fromEnd": {
+      const indexIn = (array: readonly unknown[]) => array.length + segment.offset;
+      return existingOptional(
+        (current) => {
+          if (!Array.isArray(current)) {
+            return err(
+              pathError(
+                `Path failed. Index ${segment.offset} needs an array, found ${describeType(current)}`,
+                path
+              )
+            );
+          }
+          if (indexIn(current) < 0) {
+            return err(
+              pathError(
+                `Path failed. Index ${segment.offset} out of bounds for array (length ${current.length})`,
+                path
+              )
+            );
+          }
+          return ok(current[indexIn(current)]);
+        },
+        (current, newValue) =>
+          replaceArrayElement(current as unknown[], indexIn(current as unknown[]), newValue)
+      );
+    }
+    case "filter":
+      return existingOptional(
+        (current) => {
+          const found = segment.keyPath.reduce<unknown>(
+            (value, key) =>
+              value !== null && typeof value === "object"
+                ? readProperty(value, key)
+                : undefined,
+            current
+          );
+          if (found !== undefined && String(found) === segment.value) {
+            return ok(current);
+          }
+          const actual = found === undefined ? "missing" : `'${String(found)}'`;
+          return err(
+            pathError(
+              `Path failed. Filter '${segment.segment}' does not match: ${segment.keyPath.join(".")} is ${actual}`,
+              path
+            )
+          );
+        },
+        (_current, newValue) => newValue
+      );
+  }
+}
+
+type Collection = readonly unknown[] | Readonly<Record<string, unknown>>;
+
+// Arrays and objects have elements to traverse; any other value has none.
+function wildcardCollection(path: ReadonlyArray<PathSegment>): Optional<unknown, unknown> {
+  return existingOptional<unknown>(
+    (current) =>
+      current !== null && typeof current === "object"
+        ? ok(current)
+        : err(
+            pathError(
+              `Path failed. Wildcard needs an array or object, found ${describeType(current)}`,
+              path
+            )
+          ),
+    (_current, newValue) => newValue
+  );
+}
+
+/**
+ * The Traversal a getterPath with a wildcard describes. viewAll skips the
+ * elements where the rest of the path does not resolve, and fails by Err
+ * when it resolves on none of a wildcard's elements, so a misspelled key
+ * after a wildcard is not read as an empty focus; modify and set fail
+ * where viewAll does. toArray and fold, which cannot fail, read viewAll's
+ * values, or none where it fails.
+ */
+export interface ConfiguredTraversal<S, A> extends Traversal<S, A, ConfiguredOpticError> {
+  readonly viewAll: (source: S) => ViewResult<readonly A[], ConfiguredOpticError>;
+}
+
+// The optics built from a getterPath, before configuredOptic tags their
+// messages as PathFailed and checks the values they view.
+interface PathTraversal<S, A> extends Traversal<S, A> {
+  readonly viewAll: (source: S) => ViewResult<readonly A[]>;
+}
+
+type PathOptic<S, A> = Lens<S, A> | Optional<S, A> | PathTraversal<S, A>;
+
+type SegmentOptic = Optional<unknown, unknown> | Traversal<unknown, unknown>;
+
+// Views every focus of the optics in turn. An empty collection focuses on
+// nothing; a non-empty one must resolve the rest on at least one element.
+function viewFocuses(
+  optics: readonly SegmentOptic[],
+  source: unknown,
+  path: ReadonlyArray<PathSegment>
+): ViewResult<readonly unknown[]> {
+  const [optic, ...rest] = optics;
+  if (optic === undefined) {
+    return ok([source]);
+  }
+  if (!("toArray" in optic)) {
+    return andThen(optic.preview(source), (value) => viewFocuses(rest, value, path));
+  }
+  const elements = optic.toArray(source);
+  const resolved = elements.map((element) => viewFocuses(rest, element, path)).filter(isOk);
+  if (elements.length > 0 && resolved.length === 0) {
+    return err(
+      pathError(
+        `Path failed. The rest of the path resolves on none of the ${elements.length} elements of the wildcard`,
+        path
+      )
+    );
+  }
+  return ok(resolved.flatMap((focus) => focus.value));
+}
+
+function opticFromSegments(
+  segments: readonly ParsedSegment[],
+  path: ReadonlyArray<PathSegment>
+): Optional<unknown, unknown> | PathTraversal<unknown, unknown> {
+  const optics = segments.flatMap((segment): SegmentOptic[] => {
+    if (segment.kind !== "wildcard") {
+      return [segmentOptional(segment, path)];
+    }
+    // wildcardCollection only lets arrays and objects through to each.
+    return [wildcardCollection(path), each<Collection>() as Traversal<unknown, unknown>];
+  });
+  const identity = existingOptional<unknown>(ok, (_current, newValue) => newValue);
+  if (segments.some((segment) => segment.kind === "wildcard")) {
+    const traversal = optics.reduce<Traversal<unknown, unknown>>(
+      (composed, optic) => composeTraversal(composed, optic),
+      toTraversal(identity)
+    );
+    const viewAll = (source: unknown) => viewFocuses(optics, source, path);
+    const modify: Traversal<unknown, unknown>["modify"] = (source, fn) =>
+      andThen(viewAll(source), () => traversal.modify(source, fn));
+    return {
+      ...traversal,
+      viewAll,
+      modify,
+      set: (source, newValue) => modify(source, () => newValue),
+    };
+  }
+  // Without a wildcard every segment optic is an Optional.
+  return optics.reduce<Optional<unknown, unknown>>(
+    (optional, optic) => composeOptional(optional, optic as Optional<unknown, unknown>),
+    identity
+  );
+}
+
+/**
+ * Why createLensFromConfig or toLens rejected a configuration. A path
+ * string that does not parse gives its PathSyntaxError, with the column.
+ */
+export type LensConfigError =
+  | { readonly kind: "InvalidGetterPath"; readonly reason: string }
+  | { readonly kind: "NotALens"; readonly describes: "Optional" | "Traversal" }
+  | PathSyntaxError
+  | SchemaError;
+
+/**
+ * Renders a LensConfigError as a one-line message.
+ */
+export function describeLensConfigError(error: LensConfigError): string {
+  return matchTag(error, "kind", {
+    InvalidGetterPath: ({ reason }) => reason,
+    PathSyntaxError: formatPathSyntaxError,
+    NotALens: ({ describes }) =>
+      `Expected a Lens, but the getterPath describes ${
+        describes === "Traversal" ? "a Traversal" : "an Optional"
+      }`,
+    UnknownType: describeSchemaError,
+    CircularType: describeSchemaError,
+    PathNotInSchema: describeSchemaError,
+    TargetTypeMismatch: describeSchemaError,
+    ValueTypeMismatch: describeSchemaError,
+  });
+}
+
+const invalidGetterPath = (reason: string): LensConfigError => ({
+  kind: "InvalidGetterPath",
+  reason,
+});
+
+const pathFailed = (reason: string): ConfiguredOpticError => ({ kind: "PathFailed", reason });
+
+// Tags the optic's messages as PathFailed and runs the check on everything
+// it views. A Traversal's toArray and fold read the checked viewAll, so
+// they never hold a value the check rejects, and modify fails by Err where
+// viewAll does; set does not read the values, like a Lens's.
+function configuredOptic<S, A>(
+  optic: PathOptic<S, A>,
+  check: (viewed: A | readonly A[]) => Result<A | readonly A[], SchemaError>
+): ConfiguredOptic<S, A> {
+  // The check returns what it was given, so a value stays an A and a list
+  // of values a list of them.
+  const checkOne = (value: A) => check(value) as Result<A, SchemaError>;
+  const checkAll = (values: readonly A[]) => check(values) as Result<readonly A[], SchemaError>;
+  const set = (source: S, newValue: A) => mapErr(optic.set(source, newValue), pathFailed);
+  if ("toArray" in optic) {
+    const viewAll = (source: S) => andThen(mapErr(optic.viewAll(source), pathFailed), checkAll);
+    const toArray = (source: S): readonly A[] => {
+      const viewed = viewAll(source);
+      return isOk(viewed) ? viewed.value : [];
+    };
+    return {
+      toArray,
+      viewAll,
+      modify: (source, fn) =>
+        andThen(viewAll(source), () => mapErr(optic.modify(source, fn), pathFailed)),
+      set,
+      fold: (source, initial, fn) =>
+        toArray(source).reduce((acc, value) => fn(acc, value), initial),
+    };
+  }
+  if ("view" in optic) {
+    return { view: (source) => andThen(mapErr(optic.view(source), pathFailed), checkOne), set };
+  }
+  return {
+    preview: (source) => andThen(mapErr(optic.preview(source), pathFailed), checkOne),
+    set,
+  };
+}
+
+/**
+ * Creates an optic from configuration metadata: a Lens, Optional or
+ * Traversal depending on the getterPath (see ConfiguredOptic). The factory
+ * itself returns a Result because the configuration can be invalid (e.g.
+ * empty getterPath, malformed filter, a path string with a syntax error);
+ * the returned optic follows the same convention: view fails by Err when
+ * the path does not resolve, and set fails by Err when an intermediate
+ * object is missing, both with PathFailed. An Optional also refuses to set
+ * where it cannot view, so `["rate", "[type=Floating]", "spread"]` never
+ * adds a spread to a fixed rate; a Traversal skips the elements where the
+ * rest of the path does not resolve, and fails by Err when it resolves on
+ * none (see ConfiguredTraversal).
+ *
+ * Given a SchemaRegistry, the factory also checks that the getterPath
+ * exists on sourceType and leads to targetType (see checkPath), and view
+ * fails with a ValueTypeMismatch when the value found is not a targetType
+ * (for a Traversal, when one of the values is not an element of it; see
+ * checkValues). Without one, sourceType and targetType are not read, and
+ * the correctness of 'A' depends on the LensConfig.
  *
- * Caveats: Correctness of 'A' depends on LensConfig. Does not inherently
- * handle discriminated unions safely within path traversal without more
- * complex config.
+ * Caveat: object keys that read as path grammar, such as "*", cannot be
+ * addressed; a path string that quotes one fails with a PathSyntaxError.
  */
 export function createLensFromConfig<S extends object, A>(
-  config: LensConfig
-): Result<Lens<S, A>, string> {
+  config: LensConfig,
+  schemas?: SchemaRegistry
+): Result<ConfiguredOptic<S, A>, LensConfigError> {
   if (!config.getterPath || config.getterPath.length === 0) {
-    return err("LensConfig requires a non-empty getterPath");
+    return err(invalidGetterPath("LensConfig requires a non-empty getterPath"));
+  }
+
+  const parsed =
+    typeof config.getterPath === "string" ? parsePath(config.getterPath) : ok(config.getterPath);
+  if (isErr(parsed)) {
+    return parsed;
+  }
+  const getterPath = parsed.value;
+
+  const segments = traverse(getterPath, parseSegment);
+  if (isErr(segments)) {
+    return err(invalidGetterPath(segments.error));
+  }
+
+  const optic = createOptic<S, A>(segments.value, getterPath);
+  if (schemas === undefined) {
+    return ok(configuredOptic(optic, ok));
+  }
+  const checked = checkPath(schemas, {
+    sourceType: config.sourceType,
+    targetType: config.targetType,
+    segments: segments.value,
+  });
+  if (isErr(checked)) {
+    return checked;
+  }
+  const path = getterPath.join(".");
+  const isTraversal = "toArray" in optic;
+  return ok(
+    configuredOptic(optic, (viewed) =>
+      mapResult(
+        isTraversal
+          ? checkValues(schemas, config.targetType, path, viewed as readonly A[])
+          : checkValue(schemas, config.targetType, path, viewed),
+        () => viewed
+      )
+    )
+  );
+}
+
+function createOptic<S extends object, A>(
+  segments: readonly ParsedSegment[],
+  getterPath: ReadonlyArray<PathSegment>
+): PathOptic<S, A> {
+  if (segments.some((segment) => segment.kind !== "key")) {
+    return opticFromSegments(segments, getterPath) as PathOptic<S, A>;
   }
 
   const view = (source: S): ViewResult<A> => {
-    const result = config.getterPath.reduce<Result<unknown, string>>(
+    const result = getterPath.reduce<Result<unknown, string>>(
       (currentResult, pathElement) => {
         if (isErr(currentResult)) {
           return currentResult;
@@ -189,7 +620,7 @@ export function createLensFromConfig<S extends object, A>(
         return validatePathElement<unknown>(
           currentResult.value,
           pathElement,
-          config.getterPath
+          getterPath
         );
       },
       ok(source)
@@ -202,13 +633,40 @@ export function createLensFromConfig<S extends object, A>(
   };
 
   const set = (source: S, newValue: A): SetResult<S> => {
-    const parentResult = validateSetIntermediates(source, config.getterPath);
+    const parentResult = validateSetIntermediates(source, getterPath);
     if (isErr(parentResult)) {
       return parentResult;
     }
 
-    return ok(setPathValue(source, config.getterPath, newValue) as S);
+    return ok(setPathValue(source, getterPath, newValue) as S);
   };
 
-  return ok({ view, set });
+  return { view, set };
+}
+
+/**
+ * Narrows a configured optic to a Lens, for callers that need a path of
+ * property names and indices only.
+ */
+export function toLens<S, A>(
+  optic: ConfiguredOptic<S, A>
+): Result<Lens<S, A, ConfiguredOpticError>, LensConfigError> {
+  if ("view" in optic) {
+    return ok(optic);
+  }
+  return err({ kind: "NotALens", describes: "toArray" in optic ? "Traversal" : "Optional" });
+}
+
+/**
+ * Reads what a configured optic focuses on: the value for a Lens or an
+ * Optional, and every value, as an array, for a Traversal (see viewAll).
+ */
+export function viewConfigured<S, A>(
+  optic: ConfiguredOptic<S, A>,
+  source: S
+): ViewResult<A | readonly A[], ConfiguredOpticError> {
+  if ("toArray" in optic) {
+    return optic.viewAll(source);
+  }
+  return "view" in optic ? optic.view(source) : optic.preview(source);
 }
@@ -1,7 +1,26 @@
 import { describe, it, expect } from "vitest";
 import * as fc from "fast-check";
 import { ok, err, isOk, isErr } from "../result-option-types/index.ts";
-import { lensProp, composeLens, type Lens } from "./lens-core";
+import {
+  lensProp,
+  composeLens,
+  prismTag,
+  composePrism,
+  composeOptional,
+  toOptional,
+  each,
+  eachProp,
+  composeTraversal,
+  type Lens,
+  type Optional,
+} from "./lens-core";
+import {
+  type IRS,
+  type Leg,
+  type Portfolio,
+  type Rate,
+  type FloatingRate,
+} from "./data-models";
 
 describe("lensProp", () => {
   it("views a property as Ok", () => {
@@ -172,3 +191,289 @@ describe("composeLens", () => {
     expect(result).toEqual(err("Property 'x' not found on source object."));
   });
 });
+
+describe("prismTag", () => {
+  const floating = prismTag<Rate, "type", "Floating">("type", "Floating");
+  const floatingRate: Rate = { type: "Floating", index: "SOFR", spread: 0.005 };
+  const fixedRate: Rate = { type: "Fixed", value: 0.025 };
+
+  it("previews the matching variant as Ok", () => {
+    expect(floating.preview(floatingRate)).toEqual(ok(floatingRate));
+  });
+
+  it("returns Err for any other variant", () => {
+    expect(floating.preview(fixedRate)).toEqual(
+      err("Expected type 'Floating' but found 'Fixed'.")
+    );
+  });
+
+  it("reviews a variant back into the union", () => {
+    const variant: FloatingRate = { type: "Floating", index: "SOFR", spread: 0.01 };
+    expect(floating.review(variant)).toBe(variant);
+  });
+
+  it("Review-Preview: preview(review(a)) = Ok(a)", () => {
+    fc.assert(
+      fc.property(fc.string(), fc.double({ noNaN: true }), (index, spread) => {
+        const variant: FloatingRate = { type: "Floating", index, spread };
+        expect(floating.preview(floating.review(variant))).toEqual(ok(variant));
+      })
+    );
+  });
+});
+
+describe("composePrism", () => {
+  type Shape =
+    | { readonly kind: "circle"; readonly radius: number }
+    | { readonly kind: "polygon"; readonly sides: Polygon };
+  type Polygon =
+    | { readonly shape: "triangle" }
+    | { readonly shape: "square"; readonly side: number };
+
+  const polygon = prismTag<Shape, "kind", "polygon">("kind", "polygon");
+  const sides = lensProp<Extract<Shape, { kind: "polygon" }>, "sides">("sides");
+  const square = prismTag<Polygon, "shape", "square">("shape", "square");
+  const squareShape = composePrism(
+    polygon,
+    composePrism(
+      {
+        preview: sides.view,
+        review: (value: Polygon) => ({ kind: "polygon" as const, sides: value }),
+      },
+      square
+    )
+  );
+
+  it("previews only when both prisms match", () => {
+    const shape: Shape = { kind: "polygon", sides: { shape: "square", side: 2 } };
+    expect(squareShape.preview(shape)).toEqual(ok({ shape: "square", side: 2 }));
+    expect(isErr(squareShape.preview({ kind: "circle", radius: 1 }))).toBe(true);
+    expect(
+      squareShape.preview({ kind: "polygon", sides: { shape: "triangle" } })
+    ).toEqual(err("Expected shape 'square' but found 'triangle'."));
+  });
+
+  it("reviews through both prisms", () => {
+    expect(squareShape.review({ shape: "square", side: 3 })).toEqual({
+      kind: "polygon",
+      sides: { shape: "square", side: 3 },
+    });
+  });
+});
+
+describe("composeOptional", () => {
+  const leg = (rate: Rate): Leg => ({
+    paymentFrequency: "Quarterly",
+    dayCountConvention: "Actual/365",
+    rate,
+  });
+  const swap: IRS = {
+    id: "IRS001",
+    notionalAmount: 1000000,
+    fixedLeg: leg({ type: "Fixed", value: 0.025 }),
+    floatingLeg: leg({ type: "Floating", index: "SOFR", spread: 0.005 }),
+  };
+
+  const rate = lensProp<Leg, "rate">("rate");
+  const spread = lensProp<FloatingRate, "spread">("spread");
+  const spreadOf = (legKey: "fixedLeg" | "floatingLeg"): Optional<IRS, number> =>
+    composeOptional(
+      composeOptional(
+        composeLens(lensProp<IRS, typeof legKey>(legKey), rate),
+        prismTag("type", "Floating")
+      ),
+      spread
+    );
+
+  it("views and sets through Lens∘Prism∘Lens when the variant matches", () => {
+    const floatingSpread = spreadOf("floatingLeg");
+    expect(floatingSpread.preview(swap)).toEqual(ok(0.005));
+    const result = floatingSpread.set(swap, 0.007);
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(result.value.floatingLeg.rate).toEqual({
+        type: "Floating",
+        index: "SOFR",
+        spread: 0.007,
+      });
+      expect(result.value.fixedLeg).toBe(swap.fixedLeg);
+    }
+    expect(swap.floatingLeg.rate).toEqual({ type: "Floating", index: "SOFR", spread: 0.005 });
+  });
+
+  it("neither views nor sets a field on the wrong variant", () => {
+    const fixedSpread = spreadOf("fixedLeg");
+    const expected = err("Expected type 'Floating' but found 'Fixed'.");
+    expect(fixedSpread.preview(swap)).toEqual(expected);
+    expect(fixedSpread.set(swap, 0.007)).toEqual(expected);
+    expect(swap.fixedLeg.rate).toEqual({ type: "Fixed", value: 0.025 });
+  });
+
+  it("sets through a Prism only when the source is that variant", () => {
+    const floating = toOptional(prismTag<Rate, "type", "Floating">("type", "Floating"));
+    const replacement: FloatingRate = { type: "Floating", index: "ESTR", spread: 0 };
+    expect(floating.set(swap.floatingLeg.rate, replacement)).toEqual(ok(replacement));
+    expect(isErr(floating.set(swap.fixedLeg.rate, replacement))).toBe(true);
+  });
+
+  describe("Optional Laws (Property-Based)", () => {
+    const arbRate: fc.Arbitrary<Rate> = fc.oneof(
+      fc.record({ type: fc.constant("Fixed" as const), value: fc.double({ noNaN: true }) }),
+      fc.record({
+        type: fc.constant("Floating" as const),
+        index: fc.string(),
+        spread: fc.double({ noNaN: true }),
+      })
+    );
+    const spreadOfRate = composeOptional(prismTag<Rate, "type", "Floating">("type", "Floating"), spread);
+
+    it("Preview-Set: set(s, preview(s).value) = s", () => {
+      fc.assert(
+        fc.property(arbRate, (s) => {
+          const viewResult = spreadOfRate.preview(s);
+          if (isOk(viewResult)) {
+            expect(spreadOfRate.set(s, viewResult.value)).toEqual(ok(s));
+          }
+        })
+      );
+    });
+
+    it("Set-Preview: preview(set(s, v).value) = v, and set fails exactly when preview does", () => {
+      fc.assert(
+        fc.property(arbRate, fc.double({ noNaN: true }), (s, v) => {
+          const setResult = spreadOfRate.set(s, v);
+          expect(isOk(setResult)).toBe(isOk(spreadOfRate.preview(s)));
+          if (isOk(setResult)) {
+            expect(spreadOfRate.preview(setResult.value)).toEqual(ok(v));
+          }
+        })
+      );
+    });
+  });
+});
+
+describe("each", () => {
+  it("focuses every element of an array", () => {
+    const numbers = each<readonly number[]>();
+    const source = [1, 2, 3];
+    expect(numbers.toArray(source)).toEqual([1, 2, 3]);
+    expect(numbers.modify(source, (n) => n * 10)).toEqual(ok([10, 20, 30]));
+    expect(numbers.set(source, 0)).toEqual(ok([0, 0, 0]));
+    expect(numbers.fold(source, 0, (sum, n) => sum + n)).toBe(6);
+    expect(source).toEqual([1, 2, 3]);
+  });
+
+  it("focuses every value of a record and keeps its keys", () => {
+    const limits = each<Readonly<Record<string, number>>>();
+    const source = { usd: 100, eur: 50 };
+    expect(limits.toArray(source)).toEqual([100, 50]);
+    expect(limits.modify(source, (n) => n / 2)).toEqual(ok({ usd: 50, eur: 25 }));
+  });
+
+  it("Modify-Identity: modify(s, id) = s", () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), (s) => {
+        expect(each<readonly number[]>().modify(s, (n) => n)).toEqual(ok(s));
+      })
+    );
+  });
+
+  it("Modify-Compose: modify(modify(s, f), g) = modify(s, g ∘ f)", () => {
+    const f = (n: number) => n + 1;
+    const g = (n: number) => n * 2;
+    fc.assert(
+      fc.property(fc.array(fc.integer()), (s) => {
+        const numbers = each<readonly number[]>();
+        const once = numbers.modify(s, f);
+        expect(isOk(once)).toBe(true);
+        if (isOk(once)) {
+          expect(numbers.modify(once.value, g)).toEqual(numbers.modify(s, (n) => g(f(n))));
+        }
+      })
+    );
+  });
+});
+
+describe("composeTraversal", () => {
+  const leg = (rate: Rate, dayCountConvention: string): Leg => ({
+    paymentFrequency: "Quarterly",
+    dayCountConvention,
+    rate,
+  });
+  const trade = (id: string, rate: Rate): IRS => ({
+    id,
+    notionalAmount: 1000000,
+    fixedLeg: leg({ type: "Fixed", value: 0.025 }, "30/360"),
+    floatingLeg: leg(rate, "Actual/365"),
+  });
+  const portfolio: Portfolio = {
+    id: "P1",
+    trades: [
+      trade("IRS001", { type: "Floating", index: "SOFR", spread: 0.005 }),
+      trade("IRS002", { type: "Fixed", value: 0.03 }),
+      trade("IRS003", { type: "Floating", index: "ESTR", spread: 0.001 }),
+    ],
+  };
+
+  const trades = composeTraversal(lensProp<Portfolio, "trades">("trades"), each());
+  const legs = composeTraversal(
+    trades,
+    eachProp<IRS, "fixedLeg" | "floatingLeg">("fixedLeg", "floatingLeg")
+  );
+  const dayCounts = composeTraversal(
+    legs,
+    lensProp<Leg, "dayCountConvention">("dayCountConvention")
+  );
+
+  it("focuses every leg of every trade", () => {
+    expect(dayCounts.toArray(portfolio)).toEqual([
+      "30/360",
+      "Actual/365",
+      "30/360",
+      "Actual/365",
+      "30/360",
+      "Actual/365",
+    ]);
+  });
+
+  it("bulk-updates a portfolio immutably in one call", () => {
+    const result = dayCounts.set(portfolio, "Actual/360");
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(dayCounts.toArray(result.value)).toEqual(Array(6).fill("Actual/360"));
+      expect(result.value.trades[0]?.floatingLeg.rate).toBe(
+        portfolio.trades[0]?.floatingLeg.rate
+      );
+    }
+    expect(portfolio.trades[0]?.fixedLeg.dayCountConvention).toBe("30/360");
+  });
+
+  it("skips elements where a Prism does not match", () => {
+    const spreads = composeTraversal(
+      composeTraversal(
+        composeTraversal(trades, lensProp<IRS, "floatingLeg">("floatingLeg")),
+        composeOptional(lensProp<Leg, "rate">("rate"), prismTag("type", "Floating"))
+      ),
+      lensProp<FloatingRate, "spread">("spread")
+    );
+    expect(spreads.toArray(portfolio)).toEqual([0.005, 0.001]);
+    expect(spreads.fold(portfolio, 0, Math.max)).toBe(0.005);
+
+    const result = spreads.modify(portfolio, (spread) => spread * 2);
+    expect(isOk(result)).toBe(true);
+    if (isOk(result)) {
+      expect(spreads.toArray(result.value)).toEqual([0.01, 0.002]);
+      expect(result.value.trades[1]).toEqual(portfolio.trades[1]);
+    }
+  });
+
+  it("returns Err when an underlying set fails", () => {
+    const failing: Lens<Leg, string> = {
+      view: (source) => ok(source.dayCountConvention),
+      set: () => err("read-only"),
+    };
+    expect(composeTraversal(legs, failing).set(portfolio, "Actual/360")).toEqual(
+      err("read-only")
+    );
+  });
+});
@@ -1,20 +1,21 @@
-import { type Result, ok, err, isErr } from "../result-option-types/index.ts";
+import { type Result, ok, err, isOk, isErr } from "../result-option-types/index.ts";
 
 /**
  * The result of a Lens view operation. Aliased to make lens signatures
- * read at a glance; structurally identical to Result<A, string>.
+ * read at a glance; structurally identical to Result<A, E>. Optics built
+ * here fail with a message; configured optics widen E to a typed error.
  */
-export type ViewResult<A> = Result<A, string>;
+export type ViewResult<A, E = string> = Result<A, E>;
 
 /**
  * The result of a Lens set operation. Set can fail on configured lenses
  * when the configured path does not exist in the source.
  */
-export type SetResult<S> = Result<S, string>;
+export type SetResult<S, E = string> = Result<S, E>;
 
-export interface Lens<S, A> {
-  readonly view: (source: S) => ViewResult<A>;
-  readonly set: (source: S, newValue: A) => SetResult<S>;
+export interface Lens<S, A, E = string> {
+  readonly view: (source: S) => ViewResult<A, E>;
+  readonly set: (source: S, newValue: A) => SetResult<S, E>;
 }
 
 /**
@@ -63,3 +64,254 @@ export function composeLens<S, B, A>(
     },
   };
 }
+
+/**
+ * Focuses on one variant of a union. `preview` fails by Err when the
+ * source is a different variant; `review` builds the source from a
+ * variant, which for a tagged union is the variant itself.
+ */
+export interface Prism<S, A> {
+  readonly preview: (source: S) => ViewResult<A>;
+  readonly review: (value: A) => S;
+}
+
+/**
+ * Focuses on a value that may not be there, such as a field of one
+ * variant of a union. Unlike a Lens, set fails by Err when the focus is
+ * missing instead of creating it, so a field is never added to a variant
+ * that does not have it.
+ */
+export interface Optional<S, A, E = string> {
+  readonly preview: (source: S) => ViewResult<A, E>;
+  readonly set: (source: S, newValue: A) => SetResult<S, E>;
+}
+
+/**
+ * Creates a Prism focusing on the variant of a tagged union whose `key`
+ * field is `value`, e.g. `prismTag<Rate, "type", "Floating">("type", "Floating")`
+ * for FloatingRate. Passed straight to a composition, the union type is
+ * inferred: `composeOptional(rateLens, prismTag("type", "Floating"))`.
+ */
+export function prismTag<S, K extends keyof S, const V extends S[K]>(
+  key: K,
+  value: V
+): Prism<S, Extract<S, { readonly [P in K]: V }>> {
+  type A = Extract<S, { readonly [P in K]: V }>;
+  return {
+    preview: (source: S): ViewResult<A> => {
+      if (source?.[key] === value) {
+        return ok(source as A);
+      }
+      return err(
+        `Expected ${String(key)} '${String(value)}' but found '${String(source?.[key])}'.`
+      );
+    },
+    review: (variant: A): S => variant,
+  };
+}
+
+/**
+ * Composes two prisms. The result previews only when both do.
+ */
+export function composePrism<S, B, A>(
+  outer: Prism<S, B>,
+  inner: Prism<B, A>
+): Prism<S, A> {
+  return {
+    preview: (source: S): ViewResult<A> => {
+      const outerView = outer.preview(source);
+      if (isErr(outerView)) {
+        return outerView;
+      }
+      return inner.preview(outerView.value);
+    },
+    review: (value: A): S => outer.review(inner.review(value)),
+  };
+}
+
+type Optic<S, A> = Lens<S, A> | Prism<S, A> | Optional<S, A>;
+
+/**
+ * Views any optic as an Optional: a Lens always has its focus, and a
+ * Prism can only set its focus when the source already is that variant.
+ */
+export function toOptional<S, A>(optic: Optic<S, A>): Optional<S, A> {
+  if ("view" in optic) {
+    return { preview: optic.view, set: optic.set };
+  }
+  if ("review" in optic) {
+    return {
+      preview: optic.preview,
+      set: (source: S, newValue: A): SetResult<S> => {
+        const current = optic.preview(source);
+        if (isErr(current)) {
+          return current;
+        }
+        return ok(optic.review(newValue));
+      },
+    };
+  }
+  return optic;
+}
+
+/**
+ * Composes any two optics into an Optional. Lens∘Lens is a Lens and
+ * Prism∘Prism a Prism (see composeLens and composePrism); every other
+ * combination, Lens∘Prism in particular, may miss its focus and so is an
+ * Optional. A composed set fails by Err when any step of the path is
+ * missing.
+ */
+export function composeOptional<S, B, A>(
+  outer: Optic<S, B>,
+  inner: Optic<B, A>
+): Optional<S, A> {
+  const first = toOptional(outer);
+  const second = toOptional(inner);
+  return {
+    preview: (source: S): ViewResult<A> => {
+      const outerView = first.preview(source);
+      if (isErr(outerView)) {
+        return outerView;
+      }
+      return second.preview(outerView.value);
+    },
+    set: (source: S, newValue: A): SetResult<S> => {
+      const outerView = first.preview(source);
+      if (isErr(outerView)) {
+        return outerView;
+      }
+      const innerSet = second.set(outerView.value, newValue);
+      if (isErr(innerSet)) {
+        return innerSet;
+      }
+      return first.set(source, innerSet.value);
+    },
+  };
+}
+
+/**
+ * Focuses on any number of values at once, such as every element of an
+ * array or both legs of a swap. Sources where an element's focus is
+ * missing, e.g. a Prism on a different variant, contribute no values.
+ * modify and set rebuild the source immutably and fail by Err only when
+ * an underlying set does.
+ */
+export interface Traversal<S, A, E = string> {
+  readonly toArray: (source: S) => readonly A[];
+  readonly modify: (source: S, fn: (value: A) => A) => SetResult<S, E>;
+  readonly set: (source: S, newValue: A) => SetResult<S, E>;
+  readonly fold: <B>(source: S, initial: B, fn: (acc: B, value: A) => B) => B;
+}
+
+function makeTraversal<S, A>(
+  toArray: Traversal<S, A>["toArray"],
+  modify: Traversal<S, A>["modify"]
+): Traversal<S, A> {
+  return {
+    toArray,
+    modify,
+    set: (source, newValue) => modify(source, () => newValue),
+    fold: (source, initial, fn) =>
+      toArray(source).reduce((acc, value) => fn(acc, value), initial),
+  };
+}
+
+type Element<S> = S extends readonly (infer A)[] ? A : S[keyof S];
+
+/**
+ * Creates a Traversal focusing on every element of an array, or every
+ * value of a record. modify returns a new array or record of the same
+ * shape.
+ */
+export function each<
+  S extends readonly unknown[] | Readonly<Record<string, unknown>>,
+>(): Traversal<S, Element<S>> {
+  return makeTraversal(
+    (source: S): readonly Element<S>[] =>
+      (Array.isArray(source) ? source : Object.values(source)) as Element<S>[],
+    (source: S, fn: (value: Element<S>) => Element<S>): SetResult<S> => {
+      if (Array.isArray(source)) {
+        return ok(source.map(fn) as unknown as S);
+      }
+      return ok(
+        Object.fromEntries(
+          Object.entries(source).map(([key, value]) => [key, fn(value as Element<S>)])
+        ) as S
+      );
+    }
+  );
+}
+
+/**
+ * Creates a Traversal focusing on several properties of an object that
+ * share a type, e.g. both legs of an IRS.
+ */
+export function eachProp<S, K extends keyof S>(...props: readonly K[]): Traversal<S, S[K]> {
+  return makeTraversal(
+    (source: S): readonly S[K][] => props.map((prop) => source[prop]),
+    (source: S, fn: (value: S[K]) => S[K]): SetResult<S> => {
+      const updated = { ...source };
+      for (const prop of props) {
+        updated[prop] = fn(source[prop]);
+      }
+      return ok(updated);
+    }
+  );
+}
+
+/**
+ * Views any optic as a Traversal with zero or one focus.
+ */
+export function toTraversal<S, A>(optic: Optic<S, A> | Traversal<S, A>): Traversal<S, A> {
+  if ("toArray" in optic) {
+    return optic;
+  }
+  const optional = toOptional(optic);
+  return makeTraversal(
+    (source: S): readonly A[] => {
+      const current = optional.preview(source);
+      return isOk(current) ? [current.value] : [];
+    },
+    (source: S, fn: (value: A) => A): SetResult<S> => {
+      const current = optional.preview(source);
+      return isOk(current) ? optional.set(source, fn(current.value)) : ok(source);
+    }
+  );
+}
+
+/**
+ * Composes a Traversal with any optic, on either side, into a Traversal
+ * of every focus of the inner optic inside every focus of the outer one.
+ *
+ * ```ts
+ * const trades = composeTraversal(lensProp<Portfolio, "trades">("trades"), each());
+ * const legs = eachProp<IRS, "fixedLeg" | "floatingLeg">("fixedLeg", "floatingLeg");
+ * const dayCounts = composeTraversal(
+ *   composeTraversal(trades, legs),
+ *   lensProp<Leg, "dayCountConvention">("dayCountConvention")
+ * );
+ * dayCounts.set(portfolio, "Actual/360"); // every leg of every trade
+ * ```
+ */
+export function composeTraversal<S, B, A>(
+  outer: Optic<S, B> | Traversal<S, B>,
+  inner: Optic<B, A> | Traversal<B, A>
+): Traversal<S, A> {
+  const first = toTraversal(outer);
+  const second = toTraversal(inner);
+  return makeTraversal(
+    (source: S): readonly A[] => first.toArray(source).flatMap(second.toArray),
+    (source: S, fn: (value: A) => A): SetResult<S> => {
+      let failure: SetResult<S> | undefined;
+      const result = first.modify(source, (value) => {
+        const innerModify = second.modify(value, fn);
+        if (isErr(innerModify)) {
+          failure ??= innerModify;
+          return value;
+        }
+        return innerModify.value;
+      });
+      return failure ?? result;
+    }
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { ok, err } from "../result-option-types/index.ts";
+import { parsePath, formatPathSyntaxError, type PathSyntaxError } from "./lens-path";
+
+const syntaxError = (input: string, column: number, reason: string) =>
+  err<PathSyntaxError>({ kind: "PathSyntaxError", input, column, reason });
+
+describe("parsePath", () => {
+  describe("dotted paths", () => {
+    it("splits property names on dots", () => {
+      expect(parsePath("floatingLeg.rate.spread")).toEqual(
+        ok(["floatingLeg", "rate", "spread"])
+      );
+      expect(parsePath("notionalAmount")).toEqual(ok(["notionalAmount"]));
+    });
+
+    it("reads indices in brackets or after a dot as numbers", () => {
+      expect(parsePath("legs[0].rate")).toEqual(ok(["legs", 0, "rate"]));
+      expect(parsePath("legs.0.rate")).toEqual(ok(["legs", 0, "rate"]));
+      expect(parsePath("legs[-1]")).toEqual(ok(["legs", -1]));
+      expect(parsePath("matrix[1][2]")).toEqual(ok(["matrix", 1, 2]));
+    });
+
+    it("reads wildcards and filters as getterPath grammar", () => {
+      expect(parsePath("legs[*].id")).toEqual(ok(["legs", "*", "id"]));
+      expect(parsePath("legs.*.id")).toEqual(ok(["legs", "*", "id"]));
+      expect(parsePath("legs[rate.type=Floating].rate")).toEqual(
+        ok(["legs", "[rate.type=Floating]", "rate"])
+      );
+    });
+
+    it("accepts a leading $ and quoted names", () => {
+      expect(parsePath("$.legs[0]")).toEqual(ok(["legs", 0]));
+      expect(parsePath("$[0]")).toEqual(ok([0]));
+      expect(parsePath("limits[\"EUR/USD\"]")).toEqual(ok(["limits", "EUR/USD"]));
+      expect(parsePath("limits['a.b'].max")).toEqual(ok(["limits", "a.b", "max"]));
+      expect(parsePath("limits['it\\'s']")).toEqual(ok(["limits", "it's"]));
+    });
+
+    it("reads any path of identifiers and indices it was written from", () => {
+      const arbSegment = fc.oneof(
+        fc.stringMatching(/^[A-Za-z_][A-Za-z0-9_]{0,8}$/),
+        fc.nat({ max: 99 })
+      );
+      fc.assert(
+        fc.property(fc.array(arbSegment, { minLength: 1, maxLength: 6 }), (segments) => {
+          const [first, ...rest] = segments;
+          const text =
+            (typeof first === "number" ? `[${first}]` : String(first)) +
+            rest
+              .map((segment) => (typeof segment === "number" ? `[${segment}]` : `.${segment}`))
+              .join("");
+          expect(parsePath(text)).toEqual(ok(segments));
+        })
+      );
+    });
+  });
+
+  describe("JSON Pointer paths", () => {
+    it("splits on slashes and reads digits as indices", () => {
+      expect(parsePath("/fixedLeg/rate/value")).toEqual(ok(["fixedLeg", "rate", "value"]));
+      expect(parsePath("/legs/0/rate")).toEqual(ok(["legs", 0, "rate"]));
+      expect(parsePath("/legs/10")).toEqual(ok(["legs", 10]));
+    });
+
+    it("reads signed and zero-padded segments as property names", () => {
+      expect(parsePath("/legs/-1")).toEqual(ok(["legs", "-1"]));
+      expect(parsePath("/legs/01")).toEqual(ok(["legs", "01"]));
+    });
+
+    it("unescapes ~1 and ~0", () => {
+      expect(parsePath("/limits/EUR~1USD/a~0b")).toEqual(ok(["limits", "EUR/USD", "a~b"]));
+      expect(parsePath("/~01")).toEqual(ok(["~1"]));
+    });
+  });
+
+  describe("syntax errors", () => {
+    it("reports the column of the missing property name", () => {
+      expect(parsePath("")).toEqual(syntaxError("", 1, "expected a property name"));
+      expect(parsePath("$")).toEqual(syntaxError("$", 2, "expected a property name"));
+      expect(parsePath("a..b")).toEqual(syntaxError("a..b", 3, "expected a property name"));
+      expect(parsePath("a.")).toEqual(syntaxError("a.", 3, "expected a property name"));
+      expect(parsePath("/a//b")).toEqual(syntaxError("/a//b", 4, "expected a property name"));
+    });
+
+    it("reports unclosed and malformed brackets", () => {
+      expect(parsePath("legs[0")).toEqual(syntaxError("legs[0", 7, "expected \"]\""));
+      expect(parsePath("legs['id")).toEqual(syntaxError("legs['id", 6, "unterminated string"));
+      expect(parsePath("legs['id'x]")).toEqual(syntaxError("legs['id'x]", 10, "expected \"]\""));
+      expect(parsePath("legs[type]")).toEqual(
+        syntaxError(
+          "legs[type]",
+          6,
+          "expected an index, \"*\", a quoted name or a filter [key=value]"
+        )
+      );
+    });
+
+    it("reports unexpected characters and bad escapes", () => {
+      expect(parsePath("legs]")).toEqual(syntaxError("legs]", 5, "unexpected \"]\""));
+      expect(parsePath("$legs")).toEqual(syntaxError("$legs", 2, "unexpected \"l\""));
+      expect(parsePath("/a/b~2")).toEqual(syntaxError("/a/b~2", 5, "expected ~0 or ~1 after ~"));
+    });
+
+    it("rejects quoted names and pointer segments that read as grammar", () => {
+      const reason = (name: string) => `property name "${name}" would read as a wildcard or filter`;
+      expect(parsePath("limits[\"*\"]")).toEqual(syntaxError("limits[\"*\"]", 8, reason("*")));
+      expect(parsePath("legs['[a=b]'].id")).toEqual(
+        syntaxError("legs['[a=b]'].id", 6, reason("[a=b]"))
+      );
+      expect(parsePath("/legs/*/id")).toEqual(syntaxError("/legs/*/id", 7, reason("*")));
+      expect(parsePath("/legs/[a=b]")).toEqual(syntaxError("/legs/[a=b]", 7, reason("[a=b]")));
+    });
+
+    it("formats the error with the input and column", () => {
+      expect(
+        formatPathSyntaxError({
+          kind: "PathSyntaxError",
+          input: "legs[0",
+          column: 7,
+          reason: "expected \"]\"",
+        })
+      ).toBe("Invalid path \"legs[0\" at column 7: expected \"]\"");
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { type Result, ok, err } from "../result-option-types/index.ts";
+import type { PathSegment } from "./lens-configurable";
+
+/**
+ * Why a path string could not be parsed. `column` is 1-based and points
+ * at the character where parsing stopped, or one past the end when the
+ * input ended too early.
+ */
+export interface PathSyntaxError {
+  readonly kind: "PathSyntaxError";
+  readonly input: string;
+  readonly column: number;
+  readonly reason: string;
+}
+
+/**
+ * Renders a PathSyntaxError as a one-line message.
+ */
+export function formatPathSyntaxError(error: PathSyntaxError): string {
+  return `Invalid path "${error.input}" at column ${error.column}: ${error.reason}`;
+}
+
+const INDEX = /^-?\d+$/;
+// RFC 6901 array indices: no sign and no leading zeros.
+const POINTER_INDEX = /^(0|[1-9]\d*)$/;
+const FILTER = /^[^=\]]+=[^\]]*$/;
+// Characters that end a name in the dotted syntax.
+const NAME_END = /[.[\]'"\s]/;
+
+type Parsed = Result<ReadonlyArray<PathSegment>, PathSyntaxError>;
+
+/**
+ * Parses a path string into a getterPath. Two syntaxes are accepted:
+ *
+ * - dotted, as in JSONPath: `floatingLeg.rate.spread`, `legs[0].rate`,
+ *   `legs[-1]`, `legs[*].id`, `legs[rate.type=Floating]` or
+ *   `limits["EUR/USD"]`, optionally starting with `$`;
+ * - JSON Pointer: `/fixedLeg/rate/value`, where `~1` stands for `/` and
+ *   `~0` for `~`.
+ *
+ * In the dotted syntax a segment of digits, with an optional minus, is
+ * an index, and the wildcard, filter and negative index segments of
+ * LensConfig are written as shown above. A JSON Pointer segment is a
+ * property name, or an index when it is `0` or digits without a leading
+ * zero, as in RFC 6901, so `/legs/-1` and `/legs/01` name properties. A
+ * quoted name or JSON Pointer segment that would read as a wildcard or
+ * filter, such as `["*"]` or `/legs/*`, is a syntax error rather than
+ * grammar.
+ */
+export function parsePath(input: string): Parsed {
+  if (input.startsWith("/")) {
+    return parsePointer(input);
+  }
+  return parseDotted(input);
+}
+
+const syntaxError = (input: string, column: number, reason: string): Parsed =>
+  err({ kind: "PathSyntaxError", input, column, reason });
+
+const toSegment = (text: string): PathSegment => (INDEX.test(text) ? Number(text) : text);
+
+// LensConfig reads these names as a wildcard or filter, not a property.
+const isGrammar = (name: string): boolean => name === "*" || name.startsWith("[");
+
+const grammarReason = (name: string): string =>
+  `property name "${name}" would read as a wildcard or filter`;
+
+function parsePointer(input: string): Parsed {
+  const segments: PathSegment[] = [];
+  // Index of the "/" that starts the current segment.
+  let start = 0;
+  while (start < input.length) {
+    const end = input.indexOf("/", start + 1);
+    const raw = input.slice(start + 1, end === -1 ? input.length : end);
+    if (raw === "") {
+      return syntaxError(input, start + 2, "expected a property name");
+    }
+    const badEscape = raw.search(/~(?![01])/);
+    if (badEscape !== -1) {
+      return syntaxError(input, start + 2 + badEscape, "expected ~0 or ~1 after ~");
+    }
+    const name = raw.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (isGrammar(name)) {
+      return syntaxError(input, start + 2, grammarReason(name));
+    }
+    segments.push(POINTER_INDEX.test(name) ? Number(name) : name);
+    if (end === -1) {
+      break;
+    }
+    start = end;
+  }
+  return ok(segments);
+}
+
+function parseDotted(input: string): Parsed {
+  const segments: PathSegment[] = [];
+  let position = input.startsWith("$") ? 1 : 0;
+  // A name may start the path without a dot, but not follow "$".
+  let expectName = position === 0;
+
+  if (position >= input.length) {
+    return syntaxError(input, position + 1, "expected a property name");
+  }
+
+  while (position < input.length) {
+    const char = input[position];
+    if (char === "[") {
+      const bracket = parseBracket(input, position);
+      if ("reason" in bracket) {
+        return syntaxError(input, bracket.column, bracket.reason);
+      }
+      segments.push(bracket.segment);
+      position = bracket.next;
+    } else if (char === "." || expectName) {
+      const nameStart = char === "." ? position + 1 : position;
+      let nameEnd = nameStart;
+      while (nameEnd < input.length && !NAME_END.test(input[nameEnd] ?? "")) {
+        nameEnd++;
+      }
+      if (nameEnd === nameStart) {
+        return syntaxError(input, nameStart + 1, "expected a property name");
+      }
+      segments.push(toSegment(input.slice(nameStart, nameEnd)));
+      position = nameEnd;
+    } else {
+      return syntaxError(input, position + 1, `unexpected "${char}"`);
+    }
+    expectName = false;
+  }
+  return ok(segments);
+}
+
+type Bracket =
+  | { readonly segment: PathSegment; readonly next: number }
+  | { readonly column: number; readonly reason: string };
+
+// Parses the bracket starting at `open`, e.g. [0], [*], ["a.b"] or
+// [type=Floating], returning the segment and the position after "]".
+function parseBracket(input: string, open: number): Bracket {
+  const contentStart = open + 1;
+  const quote = input[contentStart];
+  if (quote === "\"" || quote === "'") {
+    let name = "";
+    let position = contentStart + 1;
+    while (position < input.length && input[position] !== quote) {
+      if (input[position] === "\\") {
+        position++;
+      }
+      name += input[position] ?? "";
+      position++;
+    }
+    if (position >= input.length) {
+      return { column: contentStart + 1, reason: "unterminated string" };
+    }
+    if (input[position + 1] !== "]") {
+      return { column: position + 2, reason: "expected \"]\"" };
+    }
+    if (isGrammar(name)) {
+      return { column: contentStart + 1, reason: grammarReason(name) };
+    }
+    return { segment: name, next: position + 2 };
+  }
+
+  const close = input.indexOf("]", contentStart);
+  if (close === -1) {
+    return { column: input.length + 1, reason: "expected \"]\"" };
+  }
+  const content = input.slice(contentStart, close);
+  const next = close + 1;
+  if (content === "*") {
+    return { segment: "*", next };
+  }
+  if (INDEX.test(content)) {
+    return { segment: Number(content), next };
+  }
+  if (FILTER.test(content)) {
+    return { segment: `[${content}]`, next };
+  }
+  return {
+    column: contentStart + 1,
+    reason: "expected an index, \"*\", a quoted name or a filter [key=value]",
+  };
+}
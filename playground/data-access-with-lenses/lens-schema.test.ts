@@ -0,0 +1,286 @@
+import { describe, it, expect } from "vitest";
+import { ok, err, isOk, andThen, mapResult } from "../result-option-types/index.ts";
+import { createLensFromConfig, viewConfigured } from "./lens-configurable";
+import { describeSchemaError, checkValue, array, object, string, union } from "./lens-schema";
+import { modelSchemas } from "./data-model-schemas";
+import { type IRS, type Portfolio } from "./data-models";
+
+const sampleIRS: IRS = {
+  id: "IRS001",
+  notionalAmount: 1_000_000,
+  fixedLeg: {
+    paymentFrequency: "Semi-Annually",
+    dayCountConvention: "30/360",
+    rate: { type: "Fixed", value: 0.025 },
+  },
+  floatingLeg: {
+    paymentFrequency: "Quarterly",
+    dayCountConvention: "Actual/365",
+    rate: { type: "Floating", index: "SOFR", spread: 0.005 },
+  },
+};
+
+const create = (sourceType: string, targetType: string, getterPath: string) =>
+  createLensFromConfig<object, unknown>({ sourceType, targetType, getterPath }, modelSchemas);
+
+describe("createLensFromConfig with a SchemaRegistry", () => {
+  describe("at construction", () => {
+    it("accepts paths that exist on sourceType and lead to targetType", () => {
+      const configs: ReadonlyArray<readonly [string, string, string]> = [
+        ["IRS", "number", "notionalAmount"],
+        ["IRS", "Leg", "fixedLeg"],
+        ["IRS", "Rate", "floatingLeg.rate"],
+        ["IRS", "string", "fixedLeg.rate.type"],
+        ["IRS", "number", "floatingLeg.rate.spread"],
+        ["IRS", "FloatingRate", "floatingLeg.rate[type=Floating]"],
+        ["IRS", "string[]", "*.dayCountConvention"],
+        ["Portfolio", "number[]", "trades[*].notionalAmount"],
+        ["Portfolio", "IRS", "trades[-1]"],
+        ["EuropeanCallOption", "unknown", "style"],
+      ];
+      for (const [sourceType, targetType, getterPath] of configs) {
+        expect(isOk(create(sourceType, targetType, getterPath))).toBe(true);
+      }
+    });
+
+    it("rejects a sourceType or targetType that is not registered", () => {
+      expect(create("Swap", "number", "id")).toEqual(
+        err({ kind: "UnknownType", typeName: "Swap" })
+      );
+      expect(create("IRS", "Money", "notionalAmount")).toEqual(
+        err({ kind: "UnknownType", typeName: "Money" })
+      );
+    });
+
+    it("rejects a path that does not exist on sourceType", () => {
+      expect(create("IRS", "number", "fixedLeg.rate.margin")).toEqual(
+        err({
+          kind: "PathNotInSchema",
+          sourceType: "IRS",
+          path: "fixedLeg.rate.margin",
+          segment: "margin",
+          found: "FixedRate | FloatingRate",
+        })
+      );
+      expect(create("IRS", "number", "fixedLeg.rate[type=Float].spread")).toEqual(
+        err({
+          kind: "PathNotInSchema",
+          sourceType: "IRS",
+          path: "fixedLeg.rate.[type=Float].spread",
+          segment: "[type=Float]",
+          found: "FixedRate | FloatingRate",
+        })
+      );
+    });
+
+    it("rejects a path that leads to another type than targetType", () => {
+      expect(create("IRS", "number", "fixedLeg.rate.type")).toEqual(
+        err({
+          kind: "TargetTypeMismatch",
+          path: "fixedLeg.rate.type",
+          targetType: "number",
+          found: "\"Fixed\" | \"Floating\"",
+        })
+      );
+      expect(create("IRS", "FixedRate", "fixedLeg.rate")).toEqual(
+        err({
+          kind: "TargetTypeMismatch",
+          path: "fixedLeg.rate",
+          targetType: "FixedRate",
+          found: "FixedRate | FloatingRate",
+        })
+      );
+    });
+
+    it("does not read type names or fields from Object.prototype", () => {
+      expect(create("toString", "number", "id")).toEqual(
+        err({ kind: "UnknownType", typeName: "toString" })
+      );
+      expect(create("IRS", "constructor", "id")).toEqual(
+        err({ kind: "UnknownType", typeName: "constructor" })
+      );
+      const schemas = {
+        Named: object({ toString: string }),
+        Holder: object({ item: object({ id: string }) }),
+      };
+      expect(
+        createLensFromConfig({ sourceType: "Holder", targetType: "Named", getterPath: "item" }, schemas)
+      ).toEqual(
+        err({ kind: "TargetTypeMismatch", path: "item", targetType: "Named", found: "object" })
+      );
+    });
+
+    it("rejects types that are defined in terms of themselves", () => {
+      const schemas = {
+        Loop: union("Loop", "string"),
+        Node: object({ next: "Node" }),
+        Link: object({ next: "Link" }),
+        Holder: object({ loop: "Loop", node: "Node" }),
+      };
+      const createIn = (targetType: string, getterPath: string) =>
+        createLensFromConfig({ sourceType: "Holder", targetType, getterPath }, schemas);
+      expect(createIn("string", "loop")).toEqual(err({ kind: "CircularType", typeName: "Loop" }));
+      expect(isOk(createIn("Node", "node.next.next"))).toBe(true);
+      expect(checkValue(schemas, "Loop", "", 1)).toEqual(
+        err({ kind: "CircularType", typeName: "Loop" })
+      );
+    });
+
+    it("compares two recursive types by their fields", () => {
+      const schemas = {
+        Node: object({ next: "Node" }),
+        Link: object({ next: "Link" }),
+        Tree: object({ next: "Tree", label: "string" }),
+        Holder: object({ node: "Node", tree: "Tree" }),
+      };
+      const createIn = (targetType: string, getterPath: string) =>
+        createLensFromConfig({ sourceType: "Holder", targetType, getterPath }, schemas);
+      expect(isOk(createIn("Link", "node"))).toBe(true);
+      expect(isOk(createIn("Node", "tree.next"))).toBe(true);
+      expect(createIn("Tree", "node")).toEqual(
+        err({ kind: "TargetTypeMismatch", path: "node", targetType: "Tree", found: "Node" })
+      );
+    });
+
+    it("expects a list type for a path with a wildcard", () => {
+      expect(create("IRS", "string", "*.dayCountConvention")).toEqual(
+        err({
+          kind: "TargetTypeMismatch",
+          path: "*.dayCountConvention",
+          targetType: "string",
+          found: "string[]",
+        })
+      );
+    });
+  });
+
+  describe("at view", () => {
+    it("returns the value when it is a targetType", () => {
+      const spread = create("IRS", "number", "floatingLeg.rate.spread");
+      expect(andThen(spread, (optic) => viewConfigured(optic, sampleIRS))).toEqual(ok(0.005));
+    });
+
+    it("returns Err when the value found is not a targetType", () => {
+      const notional = create("IRS", "number", "notionalAmount");
+      const malformed = { ...sampleIRS, notionalAmount: "1m" };
+      expect(andThen(notional, (optic) => viewConfigured(optic, malformed))).toEqual(
+        err({
+          kind: "ValueTypeMismatch",
+          path: "notionalAmount",
+          targetType: "number",
+          found: "string",
+        })
+      );
+    });
+
+    it("checks each value a Traversal views against the element type", () => {
+      const dayCounts = create("IRS", "string[]", "*.dayCountConvention");
+      const malformed = {
+        ...sampleIRS,
+        floatingLeg: { ...sampleIRS.floatingLeg, dayCountConvention: 365 },
+      };
+      expect(andThen(dayCounts, (optic) => viewConfigured(optic, sampleIRS))).toEqual(
+        ok(["30/360", "Actual/365"])
+      );
+      expect(andThen(dayCounts, (optic) => viewConfigured(optic, malformed))).toEqual(
+        err({
+          kind: "ValueTypeMismatch",
+          path: "*.dayCountConvention",
+          targetType: "string",
+          found: "number",
+        })
+      );
+    });
+
+    it("gives no values to toArray and fold where viewAll fails", () => {
+      const dayCounts = create("IRS", "string[]", "*.dayCountConvention");
+      const malformed = {
+        ...sampleIRS,
+        floatingLeg: { ...sampleIRS.floatingLeg, dayCountConvention: 365 },
+      };
+      const traversal = mapResult(dayCounts, (optic) => ("toArray" in optic ? optic : undefined));
+      expect(mapResult(traversal, (optic) => optic?.toArray(sampleIRS))).toEqual(
+        ok(["30/360", "Actual/365"])
+      );
+      expect(mapResult(traversal, (optic) => optic?.toArray(malformed))).toEqual(ok([]));
+      expect(
+        mapResult(traversal, (optic) => optic?.fold(malformed, 0, (count) => count + 1))
+      ).toEqual(ok(0));
+    });
+
+    it("checks an Optional's preview the same way", () => {
+      const lastTrade = create("Portfolio", "IRS", "trades[-1]");
+      const portfolio: Portfolio = { id: "P1", trades: [sampleIRS] };
+      const malformed = { id: "P1", trades: [{ id: "IRS002" }] };
+      expect(andThen(lastTrade, (optic) => viewConfigured(optic, portfolio))).toEqual(
+        ok(sampleIRS)
+      );
+      expect(andThen(lastTrade, (optic) => viewConfigured(optic, malformed))).toEqual(
+        err({ kind: "ValueTypeMismatch", path: "trades.-1", targetType: "IRS", found: "object" })
+      );
+    });
+  });
+});
+
+describe("checkValue", () => {
+  it("checks nested objects, unions and arrays", () => {
+    expect(checkValue(modelSchemas, "IRS", "", sampleIRS)).toEqual(ok(sampleIRS));
+    expect(checkValue(modelSchemas, "Rate[]", "", [{ type: "Fixed", value: 1 }])._tag).toBe("Ok");
+    expect(checkValue(modelSchemas, "Rate", "rate", { type: "Fixed", spread: 1 })).toEqual(
+      err({ kind: "ValueTypeMismatch", path: "rate", targetType: "Rate", found: "object" })
+    );
+    expect(checkValue(modelSchemas, "string[]", "ids", ["a", 1])._tag).toBe("Err");
+  });
+
+  it("checks a value that contains itself", () => {
+    const schemas = {
+      Node: object({ next: "Node" }),
+      Tree: object({ children: array("Tree"), label: "string" }),
+    };
+    const node: Record<string, unknown> = {};
+    node.next = node;
+    const tree: Record<string, unknown> = { label: "root" };
+    tree.children = [tree, { children: [tree] }];
+    expect(checkValue(schemas, "Node", "", node)).toEqual(ok(node));
+    expect(checkValue(schemas, "Tree", "tree", tree)).toEqual(
+      err({ kind: "ValueTypeMismatch", path: "tree", targetType: "Tree", found: "object" })
+    );
+    expect(checkValue(schemas, "Tree", "", { label: "leaf", children: [] })._tag).toBe("Ok");
+  });
+});
+
+describe("describeSchemaError", () => {
+  it("describes every kind of SchemaError in one line", () => {
+    expect(describeSchemaError({ kind: "UnknownType", typeName: "Swap" })).toBe(
+      "Unknown type \"Swap\""
+    );
+    expect(describeSchemaError({ kind: "CircularType", typeName: "Node" })).toBe(
+      "Type \"Node\" is defined in terms of itself"
+    );
+    expect(
+      describeSchemaError({
+        kind: "PathNotInSchema",
+        sourceType: "IRS",
+        path: "fixedLeg.margin",
+        segment: "margin",
+        found: "Leg",
+      })
+    ).toBe("Path fixedLeg.margin does not exist on IRS: no 'margin' on Leg");
+    expect(
+      describeSchemaError({
+        kind: "TargetTypeMismatch",
+        path: "id",
+        targetType: "number",
+        found: "string",
+      })
+    ).toBe("Path id leads to string, not number");
+    expect(
+      describeSchemaError({
+        kind: "ValueTypeMismatch",
+        path: "id",
+        targetType: "number",
+        found: "string",
+      })
+    ).toBe("Value at id is string, not number");
+  });
+});
@@ -0,0 +1,565 @@
+import { type Result, ok, err, isErr, mapResult, matchTag } from "../result-option-types/index.ts";
+import type { ParsedSegment } from "./lens-configurable";
+
+/**
+ * A runtime description of a type, so that a LensConfig's sourceType,
+ * getterPath and targetType can be checked against each other.
+ */
+export type TypeSchema =
+  | { readonly kind: "string" }
+  | { readonly kind: "number" }
+  | { readonly kind: "boolean" }
+  | { readonly kind: "unknown" }
+  | { readonly kind: "literal"; readonly value: string | number | boolean }
+  | { readonly kind: "object"; readonly fields: Readonly<Record<string, TypeRef>> }
+  | { readonly kind: "array"; readonly element: TypeRef }
+  | { readonly kind: "union"; readonly variants: readonly TypeRef[] };
+
+/**
+ * A schema, or the name of one: a name in the registry, one of "string",
+ * "number", "boolean" and "unknown", or any of these followed by "[]" for
+ * an array of it.
+ */
+export type TypeRef = string | TypeSchema;
+
+/**
+ * Named schemas, looked up by the sourceType and targetType of a
+ * LensConfig.
+ */
+export type SchemaRegistry = Readonly<Record<string, TypeSchema>>;
+
+export const string: TypeSchema = { kind: "string" };
+export const number: TypeSchema = { kind: "number" };
+export const boolean: TypeSchema = { kind: "boolean" };
+export const unknown: TypeSchema = { kind: "unknown" };
+
+export const literal = (value: string | number | boolean): TypeSchema => ({
+  kind: "literal",
+  value,
+});
+
+export const object = (fields: Readonly<Record<string, TypeRef>>): TypeSchema => ({
+  kind: "object",
+  fields,
+});
+
+export const array = (element: TypeRef): TypeSchema => ({ kind: "array", element });
+
+export const union = (...variants: readonly TypeRef[]): TypeSchema => ({
+  kind: "union",
+  variants,
+});
+
+/**
+ * Typed errors from checking a LensConfig against a SchemaRegistry. The
+ * first three are found when the optic is created; ValueTypeMismatch when
+ * a viewed value does not match the targetType. CircularType is found
+ * wherever a check follows a type back to itself, such as a union that is
+ * one of its own variants.
+ */
+export type SchemaError =
+  | { readonly kind: "UnknownType"; readonly typeName: string }
+  | { readonly kind: "CircularType"; readonly typeName: string }
+  | {
+      readonly kind: "PathNotInSchema";
+      readonly sourceType: string;
+      readonly path: string;
+      readonly segment: string;
+      readonly found: string;
+    }
+  | {
+      readonly kind: "TargetTypeMismatch";
+      readonly path: string;
+      readonly targetType: string;
+      readonly found: string;
+    }
+  | {
+      readonly kind: "ValueTypeMismatch";
+      readonly path: string;
+      readonly targetType: string;
+      readonly found: string;
+    };
+
+/**
+ * Renders a SchemaError as a one-line message.
+ */
+export function describeSchemaError(error: SchemaError): string {
+  return matchTag(error, "kind", {
+    UnknownType: ({ typeName }) => `Unknown type "${typeName}"`,
+    CircularType: ({ typeName }) => `Type "${typeName}" is defined in terms of itself`,
+    PathNotInSchema: ({ sourceType, path, segment, found }) =>
+      `Path ${path} does not exist on ${sourceType}: no '${segment}' on ${found}`,
+    TargetTypeMismatch: ({ path, targetType, found }) =>
+      `Path ${path} leads to ${found}, not ${targetType}`,
+    ValueTypeMismatch: ({ path, targetType, found }) =>
+      `Value at ${path} is ${found}, not ${targetType}`,
+  });
+}
+
+export const describeType = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+// A schema together with the name it is reported by.
+interface Resolved {
+  readonly name: string;
+  readonly schema: TypeSchema;
+}
+
+const BUILT_IN: SchemaRegistry = { string, number, boolean, unknown };
+
+const describeSchema = (schema: TypeSchema): string =>
+  schema.kind === "literal" ? JSON.stringify(schema.value) : schema.kind;
+
+const refName = (ref: TypeRef): string => (typeof ref === "string" ? ref : describeSchema(ref));
+
+const circularType = (ref: TypeRef): SchemaError => ({
+  kind: "CircularType",
+  typeName: refName(ref),
+});
+
+function resolve(schemas: SchemaRegistry, ref: TypeRef): Result<Resolved, SchemaError> {
+  if (typeof ref !== "string") {
+    return ok({ name: describeSchema(ref), schema: ref });
+  }
+  if (ref.endsWith("[]")) {
+    const element = resolve(schemas, ref.slice(0, -2));
+    return isErr(element) ? element : ok({ name: ref, schema: array(element.value.schema) });
+  }
+  const schema = Object.hasOwn(schemas, ref)
+    ? schemas[ref]
+    : Object.hasOwn(BUILT_IN, ref)
+      ? BUILT_IN[ref]
+      : undefined;
+  return schema === undefined
+    ? err({ kind: "UnknownType", typeName: ref })
+    : ok({ name: ref, schema });
+}
+
+// Replaces unions by their variants, so each step of a path looks at
+// objects, arrays and primitives only. `visiting` holds the variants being
+// expanded, so a union that is its own variant fails instead of looping.
+function expand(
+  schemas: SchemaRegistry,
+  types: readonly Resolved[],
+  visiting: ReadonlySet<TypeRef> = new Set()
+): Result<readonly Resolved[], SchemaError> {
+  const expanded: Resolved[] = [];
+  for (const type of types) {
+    if (type.schema.kind !== "union") {
+      expanded.push(type);
+      continue;
+    }
+    for (const variant of type.schema.variants) {
+      if (visiting.has(variant)) {
+        return err(circularType(variant));
+      }
+      const resolved = resolve(schemas, variant);
+      if (isErr(resolved)) {
+        return resolved;
+      }
+      const nested = expand(schemas, [resolved.value], new Set(visiting).add(variant));
+      if (isErr(nested)) {
+        return nested;
+      }
+      expanded.push(...nested.value);
+    }
+  }
+  return ok(expanded);
+}
+
+// The types a key leads to from `type`, none if it has no such key.
+function keyTypes(type: Resolved, key: string | number): readonly TypeRef[] {
+  const { schema } = type;
+  if (schema.kind === "unknown") {
+    return [unknown];
+  }
+  if (schema.kind === "object") {
+    const name = String(key);
+    const field = Object.hasOwn(schema.fields, name) ? schema.fields[name] : undefined;
+    return field === undefined ? [] : [field];
+  }
+  if (schema.kind === "array") {
+    return typeof key === "number" ? [schema.element] : [];
+  }
+  return [];
+}
+
+function resolveAll(
+  schemas: SchemaRegistry,
+  refs: readonly TypeRef[]
+): Result<readonly Resolved[], SchemaError> {
+  const resolved: Resolved[] = [];
+  for (const ref of refs) {
+    const type = resolve(schemas, ref);
+    if (isErr(type)) {
+      return type;
+    }
+    resolved.push(type.value);
+  }
+  return expand(schemas, resolved);
+}
+
+function walkKeys(
+  schemas: SchemaRegistry,
+  types: readonly Resolved[],
+  keys: ReadonlyArray<string | number>
+): Result<readonly Resolved[], SchemaError> {
+  let current = types;
+  for (const key of keys) {
+    const next = resolveAll(
+      schemas,
+      current.flatMap((type) => keyTypes(type, key))
+    );
+    if (isErr(next)) {
+      return next;
+    }
+    current = next.value;
+  }
+  return ok(current);
+}
+
+// The types a segment leads to from `type`. A filter keeps the type when
+// the filtered key can hold the value, which narrows a union to the
+// variants whose discriminant matches.
+function segmentTypes(
+  schemas: SchemaRegistry,
+  type: Resolved,
+  segment: ParsedSegment
+): Result<readonly Resolved[], SchemaError> {
+  const { schema } = type;
+  switch (segment.kind) {
+    case "key":
+      return resolveAll(schemas, keyTypes(type, segment.key));
+    case "fromEnd":
+      return resolveAll(schemas, schema.kind === "object" ? [] : keyTypes(type, 0));
+    case "wildcard":
+      return resolveAll(
+        schemas,
+        schema.kind === "object" ? Object.values(schema.fields) : keyTypes(type, 0)
+      );
+    case "filter": {
+      const filtered = walkKeys(schemas, [type], segment.keyPath);
+      if (isErr(filtered)) {
+        return filtered;
+      }
+      const canMatch = filtered.value.some(
+        ({ schema: key }) => key.kind !== "literal" || String(key.value) === segment.value
+      );
+      return ok(canMatch ? [type] : []);
+    }
+  }
+}
+
+const segmentText = (segment: ParsedSegment): string => {
+  switch (segment.kind) {
+    case "key":
+      return String(segment.key);
+    case "fromEnd":
+      return String(segment.offset);
+    case "filter":
+      return segment.segment;
+    case "wildcard":
+      return "*";
+  }
+};
+
+const describeTypes = (types: readonly Resolved[]): string =>
+  [...new Set(types.map((type) => type.name))].join(" | ");
+
+// `compared` holds the pairs of refs being compared further up. A pair that
+// comes round again is taken as assignable, so two recursive types are
+// compared by their fields instead of forever: they fit unless some field
+// on the way does not.
+function isAssignable(
+  schemas: SchemaRegistry,
+  fromRef: TypeRef,
+  toRef: TypeRef,
+  compared: ReadonlyArray<readonly [TypeRef, TypeRef]> = []
+): Result<boolean, SchemaError> {
+  if (compared.some(([seenFrom, seenTo]) => seenFrom === fromRef && seenTo === toRef)) {
+    return ok(true);
+  }
+  const fromType = resolve(schemas, fromRef);
+  const toType = resolve(schemas, toRef);
+  if (isErr(fromType)) {
+    return fromType;
+  }
+  if (isErr(toType)) {
+    return toType;
+  }
+  const from = fromType.value.schema;
+  const to = toType.value.schema;
+  const inner = [...compared, [fromRef, toRef] as const];
+  if (from === to || to.kind === "unknown") {
+    return ok(true);
+  }
+  if (from.kind === "union" || to.kind === "union") {
+    const sources = expand(schemas, [fromType.value]);
+    const targets = expand(schemas, [toType.value]);
+    if (isErr(sources)) {
+      return sources;
+    }
+    if (isErr(targets)) {
+      return targets;
+    }
+    // Every variant of `from` must fit some variant of `to`.
+    for (const source of sources.value) {
+      let fits = false;
+      for (const target of targets.value) {
+        const assignable = isAssignable(schemas, source.schema, target.schema, inner);
+        if (isErr(assignable)) {
+          return assignable;
+        }
+        fits = fits || assignable.value;
+      }
+      if (!fits) {
+        return ok(false);
+      }
+    }
+    return ok(true);
+  }
+  switch (to.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+      return ok(
+        from.kind === to.kind || (from.kind === "literal" && typeof from.value === to.kind)
+      );
+    case "literal":
+      return ok(from.kind === "literal" && from.value === to.value);
+    case "array":
+      return from.kind === "array"
+        ? isAssignable(schemas, from.element, to.element, inner)
+        : ok(false);
+    case "object": {
+      if (from.kind !== "object") {
+        return ok(false);
+      }
+      for (const [key, ref] of Object.entries(to.fields)) {
+        const fromField = Object.hasOwn(from.fields, key) ? from.fields[key] : undefined;
+        if (fromField === undefined) {
+          return ok(false);
+        }
+        const assignable = isAssignable(schemas, fromField, ref, inner);
+        if (isErr(assignable) || !assignable.value) {
+          return assignable;
+        }
+      }
+      return ok(true);
+    }
+    default:
+      return err({ kind: "UnknownType", typeName: refName(toRef) });
+  }
+}
+
+/**
+ * Checks that a getterPath exists on sourceType and leads to values of
+ * targetType. Where the path passes a union, it is enough for one variant
+ * to have the next key: `floatingLeg.rate.spread` is accepted because a
+ * FloatingRate has a spread, and fails on a fixed rate at view time. For a
+ * path with a wildcard, targetType is the type of the list of values, so
+ * `*.dayCountConvention` on an IRS is a `string[]`.
+ */
+export function checkPath(
+  schemas: SchemaRegistry,
+  config: {
+    readonly sourceType: string;
+    readonly targetType: string;
+    readonly segments: readonly ParsedSegment[];
+  }
+): Result<true, SchemaError> {
+  const path = config.segments.map(segmentText).join(".");
+  const source = resolveAll(schemas, [config.sourceType]);
+  if (isErr(source)) {
+    return source;
+  }
+
+  let types = source.value;
+  for (const segment of config.segments) {
+    const next: Resolved[] = [];
+    for (const type of types) {
+      const reached = segmentTypes(schemas, type, segment);
+      if (isErr(reached)) {
+        return reached;
+      }
+      next.push(...reached.value);
+    }
+    if (next.length === 0) {
+      return err({
+        kind: "PathNotInSchema",
+        sourceType: config.sourceType,
+        path,
+        segment: segmentText(segment),
+        found: describeTypes(types),
+      });
+    }
+    types = next;
+  }
+
+  const target = resolve(schemas, config.targetType);
+  if (isErr(target)) {
+    return target;
+  }
+  let expected: TypeRef = target.value.schema;
+  const isTraversal = config.segments.some((segment) => segment.kind === "wildcard");
+  if (isTraversal && expected.kind !== "unknown") {
+    if (expected.kind !== "array") {
+      return err({
+        kind: "TargetTypeMismatch",
+        path,
+        targetType: config.targetType,
+        found: `${describeTypes(types)}[]`,
+      });
+    }
+    expected = expected.element;
+  }
+
+  for (const type of types) {
+    const assignable = isAssignable(schemas, type.schema, expected);
+    if (isErr(assignable)) {
+      return assignable;
+    }
+    if (!assignable.value) {
+      return err({
+        kind: "TargetTypeMismatch",
+        path,
+        targetType: config.targetType,
+        found: isTraversal ? `${describeTypes(types)}[]` : describeTypes(types),
+      });
+    }
+  }
+  return ok(true);
+}
+
+const every = <T>(
+  items: readonly T[],
+  test: (item: T) => Result<boolean, SchemaError>
+): Result<boolean, SchemaError> => {
+  for (const item of items) {
+    const passed = test(item);
+    if (isErr(passed) || !passed.value) {
+      return passed;
+    }
+  }
+  return ok(true);
+};
+
+// `visiting` holds the unions tried on this value, so a union that is its
+// own variant fails instead of looping. `seen` holds the arrays and objects
+// being matched further up, each with its type; a value that contains
+// itself matches where the same pair comes round again, as in isAssignable.
+function matches(
+  schemas: SchemaRegistry,
+  ref: TypeRef,
+  value: unknown,
+  visiting: ReadonlySet<TypeRef> = new Set(),
+  seen: ReadonlyArray<readonly [TypeRef, unknown]> = []
+): Result<boolean, SchemaError> {
+  if (visiting.has(ref)) {
+    return err(circularType(ref));
+  }
+  if (seen.some(([seenRef, seenValue]) => seenRef === ref && seenValue === value)) {
+    return ok(true);
+  }
+  const resolved = resolve(schemas, ref);
+  if (isErr(resolved)) {
+    return resolved;
+  }
+  const { schema } = resolved.value;
+  const inner = [...seen, [ref, value] as const];
+  switch (schema.kind) {
+    case "string":
+    case "number":
+    case "boolean":
+      return ok(typeof value === schema.kind);
+    case "unknown":
+      return ok(true);
+    case "literal":
+      return ok(value === schema.value);
+    case "array":
+      return Array.isArray(value)
+        ? every(value, (element) => matches(schemas, schema.element, element, new Set(), inner))
+        : ok(false);
+    case "object":
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return ok(false);
+      }
+      return every(Object.entries(schema.fields), ([key, field]) =>
+        matches(
+          schemas,
+          field,
+          Object.hasOwn(value, key) ? (value as Record<string, unknown>)[key] : undefined,
+          new Set(),
+          inner
+        )
+      );
+    case "union": {
+      const variants = new Set(visiting).add(ref);
+      for (const variant of schema.variants) {
+        const matched = matches(schemas, variant, value, variants, seen);
+        if (isErr(matched) || matched.value) {
+          return matched;
+        }
+      }
+      return ok(false);
+    }
+    default:
+      return err({ kind: "UnknownType", typeName: refName(ref) });
+  }
+}
+
+const valueTypeMismatch = (path: string, targetType: TypeRef, value: unknown): SchemaError => ({
+  kind: "ValueTypeMismatch",
+  path,
+  targetType: refName(targetType),
+  found: describeType(value),
+});
+
+/**
+ * Checks a viewed value against targetType, returning it unchanged or a
+ * ValueTypeMismatch naming what was found instead.
+ */
+export function checkValue(
+  schemas: SchemaRegistry,
+  targetType: string,
+  path: string,
+  value: unknown
+): Result<unknown, SchemaError> {
+  const matched = matches(schemas, targetType, value);
+  if (isErr(matched)) {
+    return matched;
+  }
+  return matched.value ? ok(value) : err(valueTypeMismatch(path, targetType, value));
+}
+
+/**
+ * Checks the values a Traversal viewed against targetType, which is the
+ * type of the list of them (see checkPath). For a list type such as
+ * `string[]` each value is checked against the element type, so a
+ * ValueTypeMismatch names the value that is not one.
+ */
+export function checkValues(
+  schemas: SchemaRegistry,
+  targetType: string,
+  path: string,
+  values: readonly unknown[]
+): Result<readonly unknown[], SchemaError> {
+  const target = resolve(schemas, targetType);
+  if (isErr(target)) {
+    return target;
+  }
+  const { schema } = target.value;
+  if (schema.kind !== "array") {
+    return mapResult(checkValue(schemas, targetType, path, values), () => values);
+  }
+  for (const value of values) {
+    const matched = matches(schemas, schema.element, value);
+    if (isErr(matched)) {
+      return matched;
+    }
+    if (!matched.value) {
+      return err(valueTypeMismatch(path, schema.element, value));
+    }
+  }
+  return ok(values);
+}
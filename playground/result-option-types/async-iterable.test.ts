@@ -0,0 +1,135 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { some, none } from "./option";
+import { ok, err, type Result } from "./result";
+import { okAsync } from "./async-result";
+import { pipe } from "./function";
+import { safeParseInt } from "./examples";
+import { collectResults as collectResultsSync } from "./iterable";
+import {
+  filterMap,
+  mapResult,
+  takeWhileOk,
+  collectResults,
+  chunk,
+  type AnyIterable,
+} from "./async-iterable";
+
+// Stands in for a line reader over a file: yields lines one at a time and
+// records how many were read and whether the file was closed.
+const lineReader = (
+  lines: readonly string[]
+): AsyncIterable<string> & { reads: number; closed: boolean } => {
+  const reader = {
+    reads: 0,
+    closed: false,
+    async *[Symbol.asyncIterator]() {
+      try {
+        for (const line of lines) {
+          await Promise.resolve();
+          reader.reads += 1;
+          yield line;
+        }
+      } finally {
+        reader.closed = true;
+      }
+    },
+  };
+  return reader;
+};
+
+const toArray = async <T>(iterable: AnyIterable<T>): Promise<T[]> => {
+  const values: T[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+};
+
+describe("AsyncIterable", () => {
+  describe("filterMap", () => {
+    it("should keep the values of the Somes, with sync or async callbacks", async () => {
+      const lines = lineReader(["a", "", "b"]);
+      expect(await toArray(filterMap(lines, (line) => (line ? some(line) : none())))).toEqual([
+        "a",
+        "b",
+      ]);
+      expect(await toArray(filterMap([1, 2], async (n) => some(n + 1)))).toEqual([2, 3]);
+    });
+  });
+
+  describe("mapResult", () => {
+    it("should validate rows one at a time and stop reading at the first Err", async () => {
+      const lines = lineReader(["1", "2", "three", "4"]);
+      const results = await toArray(mapResult(lines, safeParseInt));
+      expect(results).toEqual([ok(1), ok(2), err("Failed to parse \"three\" as integer")]);
+      expect(lines.reads).toBe(3);
+      expect(lines.closed).toBe(true);
+    });
+
+    it("should await async callbacks", async () => {
+      const results = await toArray(mapResult(["a"], (line) => okAsync(line.toUpperCase())));
+      expect(results).toEqual([ok("A")]);
+    });
+
+    it("should not read anything until iterated", async () => {
+      const lines = lineReader(["1"]);
+      const results = mapResult(lines, safeParseInt);
+      await Promise.resolve();
+      expect(lines.reads).toBe(0);
+      expect(await toArray(results)).toEqual([ok(1)]);
+    });
+  });
+
+  describe("takeWhileOk", () => {
+    it("should yield the leading Ok values", async () => {
+      const values = await toArray(takeWhileOk(mapResult(lineReader(["1", "x", "2"]), safeParseInt)));
+      expect(values).toEqual([1]);
+    });
+  });
+
+  describe("collectResults", () => {
+    it("should collect a file of valid rows", async () => {
+      const result = await pipe(lineReader(["10", "20"]), mapResult(safeParseInt), collectResults);
+      expectTypeOf(result).toEqualTypeOf<Result<number[], string>>();
+      expect(result).toEqual(ok([10, 20]));
+    });
+
+    it("should return the first Err and close the source", async () => {
+      const lines = lineReader(["1", "x", "y"]);
+      expect(await collectResults(mapResult(lines, safeParseInt))).toEqual(
+        err("Failed to parse \"x\" as integer")
+      );
+      expect(lines.closed).toBe(true);
+    });
+  });
+
+  describe("chunk", () => {
+    it("should batch rows, with a shorter last batch", async () => {
+      const batches = await toArray(chunk(lineReader(["a", "b", "c"]), 2));
+      expect(batches).toEqual([["a", "b"], ["c"]]);
+    });
+
+    it("should reject sizes that are not positive integers", () => {
+      expect(() => chunk(0)(["a"])).toThrow(RangeError);
+    });
+  });
+
+  describe("Agreement with the sync helpers (Property-Based)", () => {
+    it("collectResults agrees with its sync counterpart", async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.array(
+            fc.oneof(
+              fc.integer().map((n) => ok<number, string>(n)),
+              fc.string().map((s) => err<string, number>(s))
+            )
+          ),
+          async (results) => {
+            expect(await collectResults(results)).toEqual(collectResultsSync(results));
+          }
+        )
+      );
+    });
+  });
+});
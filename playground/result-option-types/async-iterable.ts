@@ -0,0 +1,159 @@
+import { type Option, isSome } from "./option";
+import { type Result, ok, isErr } from "./result";
+import { type AsyncResult, type MaybeAsyncResult } from "./async-result";
+import { type NonEmptyArray } from "./non-empty-array";
+import { dual } from "./function";
+
+// The async counterparts of iterable.ts, for sources such as a file read
+// line by line:
+//
+//   const lines = readline.createInterface({ input: fs.createReadStream(path) });
+//   const rows = await collectResults(mapResult(lines, safeParseInt));
+//
+// Each helper accepts a sync or async iterable and returns an async one.
+// Callbacks may return a value or a promise of one. As with AsyncResult,
+// they should not throw; a throw rejects the iteration.
+
+/**
+ * Anything the helpers accept as a source.
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * An Option that may not be available yet.
+ */
+export type MaybeAsyncOption<T> = Option<T> | PromiseLike<Option<T>>;
+
+// Wraps an async generator function so each iteration starts a fresh pass.
+function lazy<T>(generate: () => AsyncGenerator<T>): AsyncIterable<T> {
+  return { [Symbol.asyncIterator]: generate };
+}
+
+/**
+ * Applies an Option-returning function to every element, keeping the
+ * values of the Somes and skipping the Nones.
+ */
+export function filterMap<A, B>(
+  iterable: AnyIterable<A>,
+  fn: (value: A, index: number) => MaybeAsyncOption<B>
+): AsyncIterable<B>;
+export function filterMap<A, B>(
+  fn: (value: A, index: number) => MaybeAsyncOption<B>
+): (iterable: AnyIterable<A>) => AsyncIterable<B>;
+export function filterMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, B>(
+      iterable: AnyIterable<A>,
+      fn: (value: A, index: number) => MaybeAsyncOption<B>
+    ): AsyncIterable<B> =>
+      lazy(async function* () {
+        let index = 0;
+        for await (const value of iterable) {
+          const option = await fn(value, index++);
+          if (isSome(option)) {
+            yield option.value;
+          }
+        }
+      })
+  );
+}
+
+/**
+ * Applies a Result-returning function to every element and yields the
+ * Results. The first Err is yielded last: no further elements are read.
+ */
+export function mapResult<A, B, E>(
+  iterable: AnyIterable<A>,
+  fn: (value: A, index: number) => MaybeAsyncResult<B, E>
+): AsyncIterable<Result<B, E>>;
+export function mapResult<A, B, E>(
+  fn: (value: A, index: number) => MaybeAsyncResult<B, E>
+): (iterable: AnyIterable<A>) => AsyncIterable<Result<B, E>>;
+export function mapResult(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, B, E>(
+      iterable: AnyIterable<A>,
+      fn: (value: A, index: number) => MaybeAsyncResult<B, E>
+    ): AsyncIterable<Result<B, E>> =>
+      lazy(async function* () {
+        let index = 0;
+        for await (const value of iterable) {
+          const result = await fn(value, index++);
+          yield result;
+          if (isErr(result)) {
+            return;
+          }
+        }
+      })
+  );
+}
+
+/**
+ * Yields the values of the leading Oks and stops at the first Err, which
+ * is dropped. Use collectResults to keep it.
+ */
+export function takeWhileOk<T, E>(iterable: AnyIterable<Result<T, E>>): AsyncIterable<T> {
+  return lazy(async function* () {
+    for await (const result of iterable) {
+      if (isErr(result)) {
+        return;
+      }
+      yield result.value;
+    }
+  });
+}
+
+/**
+ * Reads the Results into an array of values, or returns the first Err
+ * without reading further.
+ */
+export async function collectResults<T, E>(
+  iterable: AnyIterable<Result<T, E>>
+): AsyncResult<T[], E> {
+  const values: T[] = [];
+  for await (const result of iterable) {
+    if (isErr(result)) {
+      return result;
+    }
+    values.push(result.value);
+  }
+  return ok(values);
+}
+
+/**
+ * Groups consecutive elements into arrays of `size` elements. The last
+ * chunk holds whatever is left, so it may be shorter, but never empty.
+ * Useful for writing rows in batches.
+ */
+export function chunk<T>(iterable: AnyIterable<T>, size: number): AsyncIterable<NonEmptyArray<T>>;
+export function chunk(
+  size: number
+): <T>(iterable: AnyIterable<T>) => AsyncIterable<NonEmptyArray<T>>;
+export function chunk(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T>(iterable: AnyIterable<T>, size: number): AsyncIterable<NonEmptyArray<T>> => {
+      if (!Number.isInteger(size) || size < 1) {
+        throw new RangeError(`Chunk size must be a positive integer, got ${size}`);
+      }
+      return lazy(async function* () {
+        let current: T[] = [];
+        for await (const value of iterable) {
+          current.push(value);
+          if (current.length === size) {
+            yield current as unknown as NonEmptyArray<T>;
+            current = [];
+          }
+        }
+        if (current.length > 0) {
+          yield current as unknown as NonEmptyArray<T>;
+        }
+      });
+    }
+  );
+}
@@ -0,0 +1,275 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, type Result } from "./result";
+import {
+  okAsync,
+  errAsync,
+  fromResult,
+  fromPromise,
+  fromSafePromise,
+  toPromise,
+  map,
+  mapErr,
+  flatMap,
+  orElse,
+  match,
+  tap,
+  tapErr,
+  bind,
+  gen,
+  type AsyncResult,
+} from "./async-result";
+import { bind as bindSync } from "./result";
+import { tryCatchAsync } from "./conversions";
+
+describe("AsyncResult", () => {
+  describe("Constructors", () => {
+    it("okAsync should resolve to Ok", async () => {
+      expect(await okAsync(42)).toEqual(ok(42));
+    });
+
+    it("errAsync should resolve to Err", async () => {
+      expect(await errAsync("failure")).toEqual(err("failure"));
+    });
+
+    it("fromResult should lift a settled Result", async () => {
+      expect(await fromResult(ok(1))).toEqual(ok(1));
+      expect(await fromResult(err("e"))).toEqual(err("e"));
+    });
+
+    it("fromResult should accept a thenable", async () => {
+      expect(await fromResult(Promise.resolve(ok(1)))).toEqual(ok(1));
+    });
+  });
+
+  describe("Promise interop", () => {
+    it("fromPromise should map a resolved promise to Ok", async () => {
+      const result = await fromPromise(Promise.resolve(42), String);
+      expect(result).toEqual(ok(42));
+    });
+
+    it("fromPromise should map a rejection through onRejected", async () => {
+      const result = await fromPromise(
+        Promise.reject(new Error("boom")),
+        (error) => `wrapped: ${(error as Error).message}`
+      );
+      expect(result).toEqual(err("wrapped: boom"));
+    });
+
+    it("fromSafePromise should resolve to Ok", async () => {
+      expect(await fromSafePromise(Promise.resolve("a"))).toEqual(ok("a"));
+    });
+
+    it("toPromise should resolve with the Ok value", async () => {
+      await expect(toPromise(okAsync(42))).resolves.toBe(42);
+    });
+
+    it("toPromise should reject with the Err value", async () => {
+      await expect(toPromise(errAsync("failure"))).rejects.toBe("failure");
+    });
+  });
+
+  describe("map", () => {
+    it("should transform Ok value with a sync function", async () => {
+      expect(await map(okAsync(5), (x) => x * 2)).toEqual(ok(10));
+    });
+
+    it("should transform Ok value with an async function", async () => {
+      expect(await map(okAsync(5), async (x) => x * 2)).toEqual(ok(10));
+    });
+
+    it("should leave Err untouched", async () => {
+      const result = await map(errAsync<string, number>("error"), (x) => x * 2);
+      expect(result).toEqual(err("error"));
+    });
+
+    it("should accept a sync Result", async () => {
+      expect(await map(ok(5), (x) => x + 1)).toEqual(ok(6));
+    });
+  });
+
+  describe("mapErr", () => {
+    it("should leave Ok untouched", async () => {
+      const result = await mapErr(okAsync<number, string>(42), (e) => `E: ${e}`);
+      expect(result).toEqual(ok(42));
+    });
+
+    it("should transform Err value", async () => {
+      const result = await mapErr(errAsync("failure"), async (e) => `E: ${e}`);
+      expect(result).toEqual(err("E: failure"));
+    });
+  });
+
+  describe("flatMap", () => {
+    it("should chain a sync Result", async () => {
+      const result = await flatMap(okAsync(5), (x) =>
+        x > 0 ? ok(x * 2) : err("negative")
+      );
+      expect(result).toEqual(ok(10));
+    });
+
+    it("should chain an AsyncResult", async () => {
+      const result = await flatMap(okAsync(-5), (x) =>
+        x > 0 ? okAsync(x * 2) : errAsync("negative")
+      );
+      expect(result).toEqual(err("negative"));
+    });
+
+    it("should propagate the original Err without calling fn", async () => {
+      let called = false;
+      const result = await flatMap(errAsync<string, number>("original"), (x) => {
+        called = true;
+        return okAsync(x);
+      });
+      expect(result).toEqual(err("original"));
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("orElse", () => {
+    it("should leave Ok untouched", async () => {
+      const result = await orElse(okAsync<number, string>(1), () => okAsync(0));
+      expect(result).toEqual(ok(1));
+    });
+
+    it("should recover from Err", async () => {
+      const result = await orElse(errAsync<string, number>("missing"), (e) =>
+        okAsync(e.length)
+      );
+      expect(result).toEqual(ok(7));
+    });
+
+    it("should replace the error when the fallback fails", async () => {
+      const result = await orElse(errAsync("first"), (e) =>
+        err(`${e}, then second`)
+      );
+      expect(result).toEqual(err("first, then second"));
+    });
+  });
+
+  describe("match", () => {
+    it("should call ok handler for Ok", async () => {
+      const output = await match(okAsync(42), {
+        ok: (x) => `Value: ${x}`,
+        err: (e) => `Error: ${e}`,
+      });
+      expect(output).toBe("Value: 42");
+    });
+
+    it("should call err handler for Err", async () => {
+      const output = await match(errAsync("failure"), {
+        ok: (x) => `Value: ${x}`,
+        err: async (e) => `Error: ${e}`,
+      });
+      expect(output).toBe("Error: failure");
+    });
+  });
+
+  describe("tap", () => {
+    it("should run the effect on Ok and keep the value", async () => {
+      const seen: number[] = [];
+      const result = await tap(okAsync(3), async (x) => {
+        seen.push(x);
+      });
+      expect(result).toEqual(ok(3));
+      expect(seen).toEqual([3]);
+    });
+
+    it("should skip the effect on Err", async () => {
+      const seen: number[] = [];
+      await tap(errAsync<string, number>("e"), (x) => {
+        seen.push(x);
+      });
+      expect(seen).toEqual([]);
+    });
+  });
+
+  describe("tapErr", () => {
+    it("should run the effect on Err and keep the error", async () => {
+      const seen: string[] = [];
+      const result = await tapErr(errAsync("e"), (e) => {
+        seen.push(e);
+      });
+      expect(result).toEqual(err("e"));
+      expect(seen).toEqual(["e"]);
+    });
+  });
+
+  describe("gen", () => {
+    it("should bind AsyncResults and sync Results in sequence", async () => {
+      const result = await gen(async function* () {
+        const a = yield* bind(okAsync(2));
+        const b = yield* bindSync(ok(3));
+        const c = yield* bind(tryCatchAsync(async () => a * b));
+        return c + 1;
+      });
+      expect(result).toEqual(ok(7));
+    });
+
+    it("should short-circuit on the first Err", async () => {
+      let reached = false;
+      const result = await gen(async function* () {
+        const value = yield* bind(
+          tryCatchAsync(async (): Promise<number> => {
+            throw new Error("network down");
+          })
+        );
+        reached = true;
+        return value;
+      });
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error.message).toBe("network down");
+      }
+      expect(reached).toBe(false);
+    });
+
+    it("should infer the union of bound error types", async () => {
+      const result = await gen(async function* () {
+        const a = yield* bind(errAsync<string, number>("first"));
+        const b = yield* bindSync(err<number, number>(2));
+        return a + b;
+      });
+      expectTypeOf(result).toEqualTypeOf<Result<number, string | number>>();
+      expect(result).toEqual(err("first"));
+    });
+  });
+
+  describe("Monad Laws (Property-Based)", () => {
+    const arbResult = fc.oneof(
+      fc.integer().map((n) => ok<number, string>(n)),
+      fc.string().map((s) => err<string, number>(s))
+    );
+
+    const f = (x: number): AsyncResult<number, string> =>
+      x > 0 ? okAsync(x + 1) : errAsync("non-positive");
+    const g = (x: number): Result<number, string> =>
+      x % 2 === 0 ? ok(x * 2) : err("odd");
+
+    it("Left Identity: flatMap(okAsync(a), f) === f(a)", async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.integer(), async (a) => {
+          expect(await flatMap(okAsync(a), f)).toEqual(await f(a));
+        })
+      );
+    });
+
+    it("Right Identity: flatMap(m, okAsync) === m", async () => {
+      await fc.assert(
+        fc.asyncProperty(arbResult, async (m) => {
+          expect(await flatMap(m, okAsync)).toEqual(m);
+        })
+      );
+    });
+
+    it("Associativity: flatMap(flatMap(m, f), g) === flatMap(m, x => flatMap(f(x), g))", async () => {
+      await fc.assert(
+        fc.asyncProperty(arbResult, async (m) => {
+          const left = await flatMap(flatMap(m, f), g);
+          const right = await flatMap(m, (x) => flatMap(f(x), g));
+          expect(left).toEqual(right);
+        })
+      );
+    });
+  });
+});
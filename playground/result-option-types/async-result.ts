@@ -0,0 +1,330 @@
+import { type Result, type Err, type ErrorOf, ok, err, isOk, isErr } from "./result";
+import { dual } from "./function";
+
+/**
+ * A Result that is not available yet. Awaiting an AsyncResult yields a
+ * plain Result, so once resolved it works with every combinator in
+ * result.ts.
+ *
+ * An AsyncResult should never reject: failures travel in the Err variant.
+ * Callbacks passed to the combinators below must not throw; wrap throwing
+ * code with tryCatchAsync first. Like their synchronous counterparts, the
+ * combinators can be called data-first or data-last.
+ */
+export type AsyncResult<T, E> = Promise<Result<T, E>>;
+
+/**
+ * Anything the async combinators accept as input: a Result that is
+ * already settled, or a thenable that resolves to one.
+ */
+export type MaybeAsyncResult<T, E> = Result<T, E> | PromiseLike<Result<T, E>>;
+
+/**
+ * Creates an AsyncResult that resolves to Ok(value).
+ */
+export function okAsync<T, E = never>(value: T): AsyncResult<T, E> {
+  return Promise.resolve(ok(value));
+}
+
+/**
+ * Creates an AsyncResult that resolves to Err(error).
+ */
+export function errAsync<E, T = never>(error: E): AsyncResult<T, E> {
+  return Promise.resolve(err(error));
+}
+
+/**
+ * Lifts a Result, or a thenable resolving to one, into an AsyncResult.
+ */
+export function fromResult<T, E>(
+  result: MaybeAsyncResult<T, E>
+): AsyncResult<T, E> {
+  return Promise.resolve(result);
+}
+
+/**
+ * Converts a plain promise into an AsyncResult. A rejection is passed to
+ * onRejected and becomes the Err value.
+ */
+export async function fromPromise<T, E>(
+  promise: PromiseLike<T>,
+  onRejected: (error: unknown) => E
+): AsyncResult<T, E> {
+  try {
+    return ok(await promise);
+  } catch (error) {
+    return err(onRejected(error));
+  }
+}
+
+/**
+ * Converts a promise that is known not to reject into an AsyncResult.
+ */
+export async function fromSafePromise<T>(
+  promise: PromiseLike<T>
+): AsyncResult<T, never> {
+  return ok(await promise);
+}
+
+/**
+ * Converts an AsyncResult back into a plain promise for APIs that expect
+ * one. Resolves with the Ok value and rejects with the Err value.
+ */
+export async function toPromise<T, E>(
+  result: MaybeAsyncResult<T, E>
+): Promise<T> {
+  const settled = await result;
+  if (isOk(settled)) {
+    return settled.value;
+  }
+  throw settled.error;
+}
+
+/**
+ * Maps the Ok value of an AsyncResult. The function may be synchronous or
+ * return a promise. Leaves Err values untouched.
+ */
+export function map<T, U, E>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (value: T) => U | PromiseLike<U>
+): AsyncResult<U, E>;
+export function map<T, U>(
+  fn: (value: T) => U | PromiseLike<U>
+): <E>(result: MaybeAsyncResult<T, E>) => AsyncResult<U, E>;
+export function map(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, U, E>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (value: T) => U | PromiseLike<U>
+    ): AsyncResult<U, E> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        return ok(await fn(settled.value));
+      }
+      return settled;
+    }
+  );
+}
+
+/**
+ * Maps the Err value of an AsyncResult. The function may be synchronous or
+ * return a promise. Leaves Ok values untouched.
+ */
+export function mapErr<T, E, F>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (error: E) => F | PromiseLike<F>
+): AsyncResult<T, F>;
+export function mapErr<E, F>(
+  fn: (error: E) => F | PromiseLike<F>
+): <T>(result: MaybeAsyncResult<T, E>) => AsyncResult<T, F>;
+export function mapErr(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, E, F>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (error: E) => F | PromiseLike<F>
+    ): AsyncResult<T, F> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        return settled;
+      }
+      return err(await fn(settled.error));
+    }
+  );
+}
+
+/**
+ * Chains a computation that returns a Result or an AsyncResult onto the Ok
+ * value. The error types of both steps are joined in the output.
+ */
+export function flatMap<T, U, E, F>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (value: T) => MaybeAsyncResult<U, F>
+): AsyncResult<U, E | F>;
+export function flatMap<T, U, F>(
+  fn: (value: T) => MaybeAsyncResult<U, F>
+): <E>(result: MaybeAsyncResult<T, E>) => AsyncResult<U, E | F>;
+export function flatMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, U, E, F>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (value: T) => MaybeAsyncResult<U, F>
+    ): AsyncResult<U, E | F> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        return fn(settled.value);
+      }
+      return settled;
+    }
+  );
+}
+
+/**
+ * Recovers from an Err by running a fallback computation on the error.
+ * Ok values pass through untouched.
+ */
+export function orElse<T, E, U, F>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (error: E) => MaybeAsyncResult<U, F>
+): AsyncResult<T | U, F>;
+export function orElse<E, U, F>(
+  fn: (error: E) => MaybeAsyncResult<U, F>
+): <T>(result: MaybeAsyncResult<T, E>) => AsyncResult<T | U, F>;
+export function orElse(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, E, U, F>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (error: E) => MaybeAsyncResult<U, F>
+    ): AsyncResult<T | U, F> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        return settled;
+      }
+      return fn(settled.error);
+    }
+  );
+}
+
+/**
+ * The pair of handlers accepted by match. Either may return a promise.
+ */
+export interface AsyncResultHandlers<T, E, U> {
+  readonly ok: (value: T) => U | PromiseLike<U>;
+  readonly err: (error: E) => U | PromiseLike<U>;
+}
+
+/**
+ * Matches on an AsyncResult once it settles.
+ */
+export function match<T, E, U>(
+  result: MaybeAsyncResult<T, E>,
+  handlers: AsyncResultHandlers<T, E, U>
+): Promise<U>;
+export function match<T, E, U>(
+  handlers: AsyncResultHandlers<T, E, U>
+): (result: MaybeAsyncResult<T, E>) => Promise<U>;
+export function match(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, E, U>(
+      result: MaybeAsyncResult<T, E>,
+      handlers: AsyncResultHandlers<T, E, U>
+    ): Promise<U> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        return handlers.ok(settled.value);
+      }
+      return handlers.err(settled.error);
+    }
+  );
+}
+
+/**
+ * Runs a side effect on the Ok value and resolves to the original Result.
+ * The effect is awaited before the AsyncResult settles.
+ */
+export function tap<T, E>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (value: T) => void | PromiseLike<void>
+): AsyncResult<T, E>;
+export function tap<T>(
+  fn: (value: T) => void | PromiseLike<void>
+): <E>(result: MaybeAsyncResult<T, E>) => AsyncResult<T, E>;
+export function tap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, E>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (value: T) => void | PromiseLike<void>
+    ): AsyncResult<T, E> => {
+      const settled = await result;
+      if (isOk(settled)) {
+        await fn(settled.value);
+      }
+      return settled;
+    }
+  );
+}
+
+/**
+ * Runs a side effect on the Err value and resolves to the original Result.
+ * The effect is awaited before the AsyncResult settles.
+ */
+export function tapErr<T, E>(
+  result: MaybeAsyncResult<T, E>,
+  fn: (error: E) => void | PromiseLike<void>
+): AsyncResult<T, E>;
+export function tapErr<E>(
+  fn: (error: E) => void | PromiseLike<void>
+): <T>(result: MaybeAsyncResult<T, E>) => AsyncResult<T, E>;
+export function tapErr(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    async <T, E>(
+      result: MaybeAsyncResult<T, E>,
+      fn: (error: E) => void | PromiseLike<void>
+    ): AsyncResult<T, E> => {
+      const settled = await result;
+      if (isErr(settled)) {
+        await fn(settled.error);
+      }
+      return settled;
+    }
+  );
+}
+
+/**
+ * Unwraps a Result or AsyncResult inside an async gen block:
+ * `const x = yield* bind(asyncResult)` awaits it and evaluates to the Ok
+ * value, or stops the block with the Err. Synchronous Results can also be
+ * bound with the bind from result.ts.
+ */
+export async function* bind<T, E>(
+  result: MaybeAsyncResult<T, E>
+): AsyncGenerator<Err<E>, T, unknown> {
+  const settled = await result;
+  if (isOk(settled)) {
+    return settled.value;
+  }
+  yield settled;
+  // gen never resumes a block after an Err, so this is only reachable
+  // when the generator is driven by hand.
+  throw new Error("bind resumed after Err; run it inside gen");
+}
+
+/**
+ * Async counterpart of gen from result.ts: runs an async generator whose
+ * `yield* bind(...)` steps may await AsyncResults such as the ones
+ * tryCatchAsync returns. Resolves to Ok with the generator's return value,
+ * or to the first Err bound.
+ *
+ * ```ts
+ * const profile = await gen(async function* () {
+ *   const user = yield* bind(tryCatchAsync(() => fetchUser(id)));
+ *   const avatar = yield* bind(tryCatchAsync(() => fetchAvatar(user)));
+ *   return { user, avatar };
+ * });
+ * ```
+ */
+export async function gen<Y extends Err<unknown>, T>(
+  body: () => AsyncGenerator<Y, T, unknown>
+): AsyncResult<T, ErrorOf<Y>> {
+  const iterator = body();
+  const step = await iterator.next();
+  if (step.done) {
+    return ok(step.value);
+  }
+  // Close the generator so any finally blocks in the body run.
+  await iterator.return(undefined as never);
+  return step.value as Err<ErrorOf<Y>>;
+}
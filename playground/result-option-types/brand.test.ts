@@ -0,0 +1,75 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, type Result } from "./result";
+import { type Brand, type Unbranded, refine } from "./brand";
+
+type Even = Brand<number, "Even">;
+type Positive = Brand<number, "Positive">;
+type Lowercase = Brand<string, "Lowercase">;
+
+const toEven = refine<Even, string>(
+  (n) => n % 2 === 0,
+  (n) => `${n} is odd`
+);
+
+describe("Brand", () => {
+  describe("refine", () => {
+    it("should return the value as Ok when the predicate holds", () => {
+      expect(toEven(4)).toEqual(ok(4));
+    });
+
+    it("should return the error from onError when it does not", () => {
+      expect(toEven(3)).toEqual(err("3 is odd"));
+    });
+
+    it("should agree with the predicate for every input", () => {
+      fc.assert(
+        fc.property(fc.integer(), (n) => {
+          expect(toEven(n)._tag).toBe(n % 2 === 0 ? "Ok" : "Err");
+        })
+      );
+    });
+
+    it("should infer the branded type from a type guard", () => {
+      const toLowercase = refine(
+        (s: string): s is Lowercase => s === s.toLowerCase(),
+        (s) => ({ notLowercase: s })
+      );
+      expect(toLowercase("abc")).toEqual(ok("abc"));
+      expect(toLowercase("Abc")).toEqual(err({ notLowercase: "Abc" }));
+      expectTypeOf(toLowercase).parameters.toEqualTypeOf<[string]>();
+      expectTypeOf(toLowercase).returns.toEqualTypeOf<
+        Result<Lowercase, { notLowercase: string }>
+      >();
+    });
+
+    it("should take the unbranded type when the brand is given explicitly", () => {
+      expectTypeOf(toEven).parameters.toEqualTypeOf<[number]>();
+      expectTypeOf(toEven).returns.toEqualTypeOf<Result<Even, string>>();
+    });
+  });
+
+  describe("types", () => {
+    it("should accept a branded value where the base type is expected", () => {
+      expectTypeOf<Even>().toMatchTypeOf<number>();
+    });
+
+    it("should not accept the base type or another brand", () => {
+      expectTypeOf<number>().not.toMatchTypeOf<Even>();
+      expectTypeOf<Positive>().not.toMatchTypeOf<Even>();
+    });
+
+    it("should stack brands", () => {
+      type PositiveEven = Brand<Even, "Positive">;
+      expectTypeOf<PositiveEven>().toMatchTypeOf<Even>();
+      expectTypeOf<PositiveEven>().toMatchTypeOf<Positive>();
+      expectTypeOf<Even>().not.toMatchTypeOf<PositiveEven>();
+    });
+
+    it("should remove every brand with Unbranded", () => {
+      expectTypeOf<Unbranded<Even>>().toEqualTypeOf<number>();
+      expectTypeOf<Unbranded<Brand<Even, "Positive">>>().toEqualTypeOf<number>();
+      expectTypeOf<Unbranded<string>>().toEqualTypeOf<string>();
+    });
+  });
+});
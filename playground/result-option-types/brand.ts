@@ -0,0 +1,55 @@
+import { type Result, ok, err } from "./result";
+
+declare const brand: unique symbol;
+
+/**
+ * A T that has passed the check named B. A branded value can be used
+ * wherever a T is expected, but a plain T is not accepted where the brand
+ * is required, so the only way to get one is through the validator that
+ * checks it.
+ *
+ * ```ts
+ * type Email = Brand<string, "Email">;
+ * ```
+ *
+ * Brands stack: a `Brand<Email, "Lowercase">` is still an Email.
+ */
+export type Brand<T, B extends string> = T & {
+  readonly [brand]: { readonly [K in B]: T };
+};
+
+/**
+ * The type a brand was put on, with every brand removed.
+ */
+export type Unbranded<T> = T extends { readonly [brand]: infer Tags }
+  ? Unbranded<Tags[keyof Tags]>
+  : T;
+
+/**
+ * Builds a validator that checks a value and returns it branded, or the
+ * error from onError if the check fails.
+ *
+ * With a type guard the branded type is inferred. With a plain predicate
+ * it is given explicitly, together with the error type:
+ *
+ * ```ts
+ * const validateEmail = refine<Email, string>(
+ *   (value) => value.includes("@"),
+ *   (value) => `Invalid email: "${value}"`
+ * );
+ * ```
+ */
+export function refine<T, B extends T, E>(
+  predicate: (value: T) => value is B,
+  onError: (value: T) => E
+): (value: T) => Result<B, E>;
+export function refine<B extends Brand<unknown, string>, E>(
+  predicate: (value: Unbranded<B>) => boolean,
+  onError: (value: Unbranded<B>) => E
+): (value: Unbranded<B>) => Result<B, E>;
+export function refine<T, E>(
+  predicate: (value: T) => boolean,
+  onError: (value: T) => E
+): (value: T) => Result<T, E> {
+  return (value) => (predicate(value) ? ok(value) : err(onError(value)));
+}
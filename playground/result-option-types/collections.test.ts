@@ -0,0 +1,179 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { some, none, type Option } from "./option";
+import { ok, err, type Result } from "./result";
+import {
+  sequence,
+  traverse,
+  sequenceAll,
+  traverseAll,
+  sequenceRecord,
+  sequenceRecordAll,
+  partition,
+  firstOk,
+  sequenceOption,
+  traverseOption,
+  filterMap,
+  compact,
+} from "./collections";
+import { pipe } from "./function";
+
+const parsePositive = (s: string): Result<number, string> => {
+  const n = Number(s);
+  return Number.isFinite(n) && n > 0 ? ok(n) : err(`bad: ${s}`);
+};
+
+describe("Collections", () => {
+  describe("sequence", () => {
+    it("should collect Ok values in order", () => {
+      expect(sequence([ok(1), ok(2), ok(3)])).toEqual(ok([1, 2, 3]));
+    });
+
+    it("should return the first Err", () => {
+      expect(sequence([ok(1), err("a"), err("b")])).toEqual(err("a"));
+    });
+
+    it("should return Ok of an empty array for no input", () => {
+      expect(sequence([])).toEqual(ok([]));
+    });
+  });
+
+  describe("traverse", () => {
+    it("should map and collect", () => {
+      expect(traverse(["1", "2"], parsePositive)).toEqual(ok([1, 2]));
+    });
+
+    it("should stop at the first Err without visiting later elements", () => {
+      const visited: string[] = [];
+      const result = traverse(["1", "x", "y"], (s) => {
+        visited.push(s);
+        return parsePositive(s);
+      });
+      expect(result).toEqual(err("bad: x"));
+      expect(visited).toEqual(["1", "x"]);
+    });
+
+    it("should support the data-last form", () => {
+      expect(pipe(["3"], traverse(parsePositive))).toEqual(ok([3]));
+    });
+  });
+
+  describe("sequenceAll / traverseAll", () => {
+    it("should collect every error", () => {
+      expect(sequenceAll([ok(1), err("a"), err("b")])).toEqual(err(["a", "b"]));
+      expect(traverseAll(["1", "x", "y"], parsePositive)).toEqual(
+        err(["bad: x", "bad: y"])
+      );
+    });
+
+    it("should collect the values when all succeed", () => {
+      expect(traverseAll(["1", "2"], parsePositive)).toEqual(ok([1, 2]));
+    });
+  });
+
+  describe("sequenceRecord", () => {
+    it("should collect a record of Ok values", () => {
+      const port: Result<number, string> = ok(8080);
+      const host: Result<string, string> = ok("localhost");
+      const result = sequenceRecord({ port, host });
+      expectTypeOf(result).toEqualTypeOf<
+        Result<{ port: number; host: string }, string>
+      >();
+      expect(result).toEqual(ok({ port: 8080, host: "localhost" }));
+    });
+
+    it("should return the first Err in key order", () => {
+      expect(sequenceRecord({ a: err("a"), b: ok(1), c: err("c") })).toEqual(
+        err("a")
+      );
+    });
+
+    it("sequenceRecordAll should collect every error", () => {
+      expect(sequenceRecordAll({ a: err("a"), b: ok(1), c: err("c") })).toEqual(
+        err(["a", "c"])
+      );
+      expect(sequenceRecordAll({ b: ok(1) })).toEqual(ok({ b: 1 }));
+    });
+  });
+
+  describe("partition", () => {
+    it("should split Ok and Err values", () => {
+      expect(partition([ok(1), err("a"), ok(2), err("b")])).toEqual({
+        oks: [1, 2],
+        errs: ["a", "b"],
+      });
+    });
+  });
+
+  describe("firstOk", () => {
+    it("should return the first Ok", () => {
+      expect(firstOk([err("a"), ok(1), ok(2)])).toEqual(ok(1));
+    });
+
+    it("should return every error when nothing succeeds", () => {
+      expect(firstOk([err("a"), err("b")])).toEqual(err(["a", "b"]));
+      expect(firstOk([])).toEqual(err([]));
+    });
+  });
+
+  describe("Option helpers", () => {
+    const lookup = (table: Record<string, number>) => (key: string): Option<number> =>
+      key in table ? some(table[key] as number) : none();
+    const table = { a: 1, b: 2 };
+
+    it("sequenceOption should require every element", () => {
+      expect(sequenceOption([some(1), some(2)])).toEqual(some([1, 2]));
+      expect(sequenceOption([some(1), none()])).toEqual(none());
+    });
+
+    it("traverseOption should map and require every element", () => {
+      expect(traverseOption(["a", "b"], lookup(table))).toEqual(some([1, 2]));
+      expect(traverseOption(["a", "z"], lookup(table))).toEqual(none());
+    });
+
+    it("filterMap should keep only Some values", () => {
+      expect(filterMap(["a", "z", "b"], lookup(table))).toEqual([1, 2]);
+      expect(pipe(["z"], filterMap(lookup(table)))).toEqual([]);
+    });
+
+    it("compact should drop None values", () => {
+      expect(compact([some(1), none(), some(3)])).toEqual([1, 3]);
+    });
+  });
+
+  describe("Properties", () => {
+    const arbResult = fc.oneof(
+      fc.integer().map((n) => ok<number, string>(n)),
+      fc.string().map((s) => err<string, number>(s))
+    );
+
+    it("sequence is Ok exactly when sequenceAll is Ok", () => {
+      fc.assert(
+        fc.property(fc.array(arbResult), (results) => {
+          expect(sequence(results)._tag).toBe(sequenceAll(results)._tag);
+        })
+      );
+    });
+
+    it("partition keeps every element", () => {
+      fc.assert(
+        fc.property(fc.array(arbResult), (results) => {
+          const { oks, errs } = partition(results);
+          expect(oks.length + errs.length).toBe(results.length);
+        })
+      );
+    });
+
+    it("sequence returns the first error of sequenceAll", () => {
+      fc.assert(
+        fc.property(fc.array(arbResult), (results) => {
+          const failFast = sequence(results);
+          const collected = sequenceAll(results);
+          if (failFast._tag === "Err" && collected._tag === "Err") {
+            expect(collected.error[0]).toBe(failFast.error);
+          }
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,241 @@
+import { type Option, some, none, isSome, isNone } from "./option";
+import {
+  type Result,
+  type ErrorOf,
+  type ValueOf,
+  ok,
+  err,
+  isOk,
+  isErr,
+  map,
+} from "./result";
+import { all, struct, toResult } from "./validation";
+import { type NonEmptyArray } from "./non-empty-array";
+import { dual } from "./function";
+
+// Fail-fast helpers stop at the first Err, like flatMap. The *All variants
+// run every element and collect the errors, like Validation.
+
+/**
+ * Turns an array of Results into a Result of an array.
+ * Returns the first Err encountered, without looking at later elements.
+ */
+export function sequence<T, E>(results: readonly Result<T, E>[]): Result<T[], E> {
+  const values: T[] = [];
+  for (const result of results) {
+    if (isErr(result)) {
+      return result;
+    }
+    values.push(result.value);
+  }
+  return ok(values);
+}
+
+/**
+ * Applies a Result-returning function to each element and collects the
+ * values. Stops at the first Err; later elements are not visited.
+ */
+export function traverse<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Result<T, E>
+): Result<T[], E>;
+export function traverse<A, T, E>(
+  fn: (item: A, index: number) => Result<T, E>
+): (items: readonly A[]) => Result<T[], E>;
+export function traverse(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, T, E>(
+      items: readonly A[],
+      fn: (item: A, index: number) => Result<T, E>
+    ): Result<T[], E> => {
+      const values: T[] = [];
+      for (const [index, item] of items.entries()) {
+        const result = fn(item, index);
+        if (isErr(result)) {
+          return result;
+        }
+        values.push(result.value);
+      }
+      return ok(values);
+    }
+  );
+}
+
+/**
+ * Turns an array of Results into a Result of an array, collecting every
+ * error instead of stopping at the first.
+ */
+export function sequenceAll<T, E>(
+  results: readonly Result<T, E>[]
+): Result<T[], NonEmptyArray<E>> {
+  return toResult(all(results));
+}
+
+/**
+ * Applies a Result-returning function to every element, collecting either
+ * all the values or all the errors.
+ */
+export function traverseAll<A, T, E>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Result<T, E>
+): Result<T[], NonEmptyArray<E>>;
+export function traverseAll<A, T, E>(
+  fn: (item: A, index: number) => Result<T, E>
+): (items: readonly A[]) => Result<T[], NonEmptyArray<E>>;
+export function traverseAll(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, T, E>(
+      items: readonly A[],
+      fn: (item: A, index: number) => Result<T, E>
+    ): Result<T[], NonEmptyArray<E>> => sequenceAll(items.map(fn))
+  );
+}
+
+type ResultRecord = Readonly<Record<string, Result<unknown, unknown>>>;
+type RecordValues<R extends ResultRecord> = {
+  -readonly [K in keyof R]: ValueOf<R[K]>;
+};
+
+/**
+ * Turns a record of Results into a Result of a record with the same keys.
+ * Returns the first Err in key order.
+ */
+export function sequenceRecord<R extends ResultRecord>(
+  results: R
+): Result<RecordValues<R>, ErrorOf<R[keyof R]>> {
+  const keys = Object.keys(results);
+  const values = sequence(keys.map((key) => results[key] as Result<unknown, unknown>));
+  return map(values, (list) =>
+    Object.fromEntries(keys.map((key, index) => [key, list[index]]))
+  ) as Result<RecordValues<R>, ErrorOf<R[keyof R]>>;
+}
+
+/**
+ * Turns a record of Results into a Result of a record with the same keys,
+ * collecting the errors of every failing key.
+ */
+export function sequenceRecordAll<R extends ResultRecord>(
+  results: R
+): Result<RecordValues<R>, NonEmptyArray<ErrorOf<R[keyof R]>>> {
+  return toResult(struct(results)) as Result<
+    RecordValues<R>,
+    NonEmptyArray<ErrorOf<R[keyof R]>>
+  >;
+}
+
+/**
+ * Splits an array of Results into the Ok values and the Err values,
+ * preserving the relative order of each.
+ */
+export function partition<T, E>(
+  results: readonly Result<T, E>[]
+): { readonly oks: T[]; readonly errs: E[] } {
+  const oks: T[] = [];
+  const errs: E[] = [];
+  for (const result of results) {
+    if (isOk(result)) {
+      oks.push(result.value);
+    } else {
+      errs.push(result.error);
+    }
+  }
+  return { oks, errs };
+}
+
+/**
+ * Returns the first Ok in the array. If there is none, returns an Err
+ * listing every error in order (empty when the array is empty).
+ */
+export function firstOk<T, E>(results: readonly Result<T, E>[]): Result<T, E[]> {
+  const errors: E[] = [];
+  for (const result of results) {
+    if (isOk(result)) {
+      return result;
+    }
+    errors.push(result.error);
+  }
+  return err(errors);
+}
+
+/**
+ * Turns an array of Options into an Option of an array.
+ * Returns None if any element is None.
+ */
+export function sequenceOption<T>(options: readonly Option<T>[]): Option<T[]> {
+  const values: T[] = [];
+  for (const option of options) {
+    if (isNone(option)) {
+      return none();
+    }
+    values.push(option.value);
+  }
+  return some(values);
+}
+
+/**
+ * Applies an Option-returning function to each element and collects the
+ * values. Returns None as soon as the function returns None.
+ */
+export function traverseOption<A, T>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Option<T>
+): Option<T[]>;
+export function traverseOption<A, T>(
+  fn: (item: A, index: number) => Option<T>
+): (items: readonly A[]) => Option<T[]>;
+export function traverseOption(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, T>(
+      items: readonly A[],
+      fn: (item: A, index: number) => Option<T>
+    ): Option<T[]> => {
+      const values: T[] = [];
+      for (const [index, item] of items.entries()) {
+        const option = fn(item, index);
+        if (isNone(option)) {
+          return none();
+        }
+        values.push(option.value);
+      }
+      return some(values);
+    }
+  );
+}
+
+/**
+ * Maps each element to an Option and keeps only the Some values.
+ */
+export function filterMap<A, T>(
+  items: readonly A[],
+  fn: (item: A, index: number) => Option<T>
+): T[];
+export function filterMap<A, T>(
+  fn: (item: A, index: number) => Option<T>
+): (items: readonly A[]) => T[];
+export function filterMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, T>(
+      items: readonly A[],
+      fn: (item: A, index: number) => Option<T>
+    ): T[] =>
+      items.flatMap((item, index) => {
+        const option = fn(item, index);
+        return isSome(option) ? [option.value] : [];
+      })
+  );
+}
+
+/**
+ * Keeps the values of the Some elements, dropping every None.
+ */
+export function compact<T>(options: readonly Option<T>[]): T[] {
+  return options.flatMap((option) => (isSome(option) ? [option.value] : []));
+}
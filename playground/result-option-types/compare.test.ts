@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import {
+  ordNumber,
+  ordString,
+  ordBoolean,
+  hashNumber,
+  hashString,
+  hashBoolean,
+  reverse,
+  contramap,
+  type Ord,
+  type Hash,
+} from "./compare";
+
+// Checks the Eq and Ord laws, and that compare agrees with equals.
+const checkOrdLaws = <A>(ord: Ord<A>, arb: fc.Arbitrary<A>): void => {
+  fc.assert(
+    fc.property(arb, arb, arb, (x, y, z) => {
+      expect(ord.equals(x, x)).toBe(true);
+      expect(ord.equals(x, y)).toBe(ord.equals(y, x));
+      if (ord.equals(x, y) && ord.equals(y, z)) {
+        expect(ord.equals(x, z)).toBe(true);
+      }
+      expect(ord.compare(x, y) === 0).toBe(ord.equals(x, y));
+      expect(ord.compare(x, y)).toBe(-ord.compare(y, x) || 0);
+      if (ord.compare(x, y) <= 0 && ord.compare(y, z) <= 0) {
+        expect(ord.compare(x, z)).toBeLessThanOrEqual(0);
+      }
+    })
+  );
+};
+
+// Checks that equal values hash alike. Arbitraries should produce
+// duplicates often enough for the implication to be exercised.
+const checkHashLaw = <A>(hash: Hash<A>, arb: fc.Arbitrary<A>): void => {
+  fc.assert(
+    fc.property(arb, arb, (x, y) => {
+      if (hash.equals(x, y)) {
+        expect(hash.hash(x)).toBe(hash.hash(y));
+      }
+    })
+  );
+};
+
+describe("Compare", () => {
+  describe("Primitive Ord laws (Property-Based)", () => {
+    it("ordNumber", () => {
+      checkOrdLaws(ordNumber, fc.oneof(fc.double(), fc.constantFrom(0, -0, NaN)));
+    });
+
+    it("ordString", () => {
+      checkOrdLaws(ordString, fc.string({ maxLength: 3 }));
+    });
+
+    it("ordBoolean", () => {
+      checkOrdLaws(ordBoolean, fc.boolean());
+    });
+
+    it("reverse and contramap", () => {
+      checkOrdLaws(reverse(ordNumber), fc.integer({ min: -5, max: 5 }));
+      checkOrdLaws(
+        contramap(ordString, (value: { readonly name: string }) => value.name),
+        fc.record({ name: fc.string({ maxLength: 2 }) })
+      );
+    });
+  });
+
+  describe("Primitive Hash laws (Property-Based)", () => {
+    it("hashNumber", () => {
+      checkHashLaw(hashNumber, fc.oneof(fc.double(), fc.constantFrom(0, -0, NaN)));
+    });
+
+    it("hashString", () => {
+      checkHashLaw(hashString, fc.string({ maxLength: 2 }));
+    });
+
+    it("hashBoolean", () => {
+      checkHashLaw(hashBoolean, fc.boolean());
+    });
+  });
+
+  describe("Edge cases", () => {
+    it("ordNumber treats NaN as equal to itself and first", () => {
+      expect(ordNumber.equals(NaN, NaN)).toBe(true);
+      expect(ordNumber.compare(NaN, -Infinity)).toBe(-1);
+      expect([3, NaN, 1].sort(ordNumber.compare)).toEqual([NaN, 1, 3]);
+    });
+
+    it("hashNumber hashes 0 and -0 alike", () => {
+      expect(hashNumber.hash(-0)).toBe(hashNumber.hash(0));
+    });
+
+    it("reverse sorts descending", () => {
+      expect([1, 3, 2].sort(reverse(ordNumber).compare)).toEqual([3, 2, 1]);
+    });
+  });
+});
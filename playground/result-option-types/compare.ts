@@ -0,0 +1,132 @@
+/**
+ * Decides whether two values are the same. Instances must be reflexive,
+ * symmetric and transitive.
+ */
+export interface Eq<A> {
+  readonly equals: (x: A, y: A) => boolean;
+}
+
+/**
+ * The outcome of a comparison: x comes before, is equal to, or comes after y.
+ */
+export type Ordering = -1 | 0 | 1;
+
+/**
+ * A total order. `compare` returns 0 exactly when `equals` returns true,
+ * so every Ord is also an Eq. Pass `compare` to Array.prototype.sort.
+ */
+export interface Ord<A> extends Eq<A> {
+  readonly compare: (x: A, y: A) => Ordering;
+}
+
+/**
+ * An Eq that can also hash. Equal values must have equal hashes, which
+ * lets values be grouped or deduplicated by hash before equals is called.
+ */
+export interface Hash<A> extends Eq<A> {
+  readonly hash: (value: A) => number;
+}
+
+/**
+ * Mixes a value's hash into a running hash. Used to hash structured values
+ * from the hashes of their parts.
+ */
+export function combineHash(seed: number, value: number): number {
+  return (Math.imul(seed, 31) + value) | 0;
+}
+
+// --- Primitives ---
+
+const compareNumbers = (x: number, y: number): Ordering => {
+  if (x < y) {
+    return -1;
+  }
+  if (x > y) {
+    return 1;
+  }
+  if (x === y || (Number.isNaN(x) && Number.isNaN(y))) {
+    return 0;
+  }
+  // Exactly one side is NaN; NaN sorts before every number.
+  return Number.isNaN(x) ? -1 : 1;
+};
+
+const hashText = (text: string): number => {
+  let hash = 0;
+  for (let index = 0; index < text.length; index++) {
+    hash = combineHash(hash, text.charCodeAt(index));
+  }
+  return hash;
+};
+
+/**
+ * Orders strings by UTF-16 code units, like the default sort.
+ */
+export const ordString: Ord<string> = {
+  equals: (x, y) => x === y,
+  compare: (x, y) => (x < y ? -1 : x > y ? 1 : 0),
+};
+
+/**
+ * Orders numbers numerically. Unlike `===`, NaN equals itself, so the
+ * laws hold for every number; NaN sorts first. 0 and -0 are equal.
+ */
+export const ordNumber: Ord<number> = {
+  equals: (x, y) => compareNumbers(x, y) === 0,
+  compare: compareNumbers,
+};
+
+/**
+ * Orders booleans with false before true.
+ */
+export const ordBoolean: Ord<boolean> = {
+  equals: (x, y) => x === y,
+  compare: (x, y) => (x === y ? 0 : x ? 1 : -1),
+};
+
+export const hashString: Hash<string> = {
+  equals: ordString.equals,
+  hash: hashText,
+};
+
+export const hashNumber: Hash<number> = {
+  equals: ordNumber.equals,
+  // -0 is an integer, so it hashes like 0, to which it is equal.
+  hash: (value) => (Number.isInteger(value) ? value | 0 : hashText(String(value))),
+};
+
+export const hashBoolean: Hash<boolean> = {
+  equals: ordBoolean.equals,
+  hash: (value) => (value ? 1231 : 1237),
+};
+
+// --- Combinators ---
+
+/**
+ * Compares with `===`. Suitable for references and primitives other than
+ * numbers, where NaN would break reflexivity.
+ */
+export function eqStrict<A>(): Eq<A> {
+  return { equals: (x, y) => x === y };
+}
+
+/**
+ * Reverses an order, e.g. to sort descending.
+ */
+export function reverse<A>(ord: Ord<A>): Ord<A> {
+  return { equals: ord.equals, compare: (x, y) => ord.compare(y, x) };
+}
+
+/**
+ * Orders values by a key extracted from them.
+ *
+ * ```ts
+ * const byStrike = contramap(ordNumber, (option: EuropeanCallOption) => option.strike);
+ * ```
+ */
+export function contramap<A, B>(ord: Ord<A>, fn: (value: B) => A): Ord<B> {
+  return {
+    equals: (x, y) => ord.equals(fn(x), fn(y)),
+    compare: (x, y) => ord.compare(fn(x), fn(y)),
+  };
+}
@@ -0,0 +1,230 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { type Option, some, none } from "./option";
+import { type Result, ok, err, unwrap } from "./result";
+import { type NonEmptyArray } from "./non-empty-array";
+import { type Decoder, object, number } from "./decoder";
+import {
+  string,
+  boolean,
+  int,
+  port,
+  url,
+  oneOf,
+  duration,
+  required,
+  withDefault,
+  optional,
+  fromEnv,
+  fromJson,
+  fromArgs,
+  loadConfig,
+  MissingConfig,
+  InvalidConfig,
+  type Port,
+  type ConfigError,
+} from "./config";
+
+const schema = {
+  database: {
+    host: required(string),
+    port: withDefault(port, unwrap(port.decode(5432))),
+  },
+  logLevel: withDefault(oneOf("debug", "info", "warn"), "info"),
+  requestTimeout: optional(duration),
+};
+
+describe("Config", () => {
+  describe("parsers", () => {
+    it("should read integers from numbers and strings", () => {
+      expect(int.decode("42")).toEqual(ok(42));
+      expect(int.decode(-7)).toEqual(ok(-7));
+      expect(int.decode("4.5")._tag).toBe("Err");
+      expect(int.decode(4.5)._tag).toBe("Err");
+      expect(int.decode("")._tag).toBe("Err");
+    });
+
+    it("should only read integers written in decimal digits", () => {
+      expect(int.decode("0x10")._tag).toBe("Err");
+      expect(int.decode("1e3")._tag).toBe("Err");
+      expect(int.decode(" 8 ")._tag).toBe("Err");
+      expect(int.decode("+8")._tag).toBe("Err");
+      expect(port.decode("0x50")._tag).toBe("Err");
+    });
+
+    it("should read any safe integer written as a string", () => {
+      fc.assert(
+        fc.property(fc.integer(), (n) => {
+          expect(int.decode(String(n))).toEqual(ok(n));
+        })
+      );
+    });
+
+    it("should accept ports from 1 to 65535", () => {
+      expect(port.decode("8080")).toEqual(ok(8080));
+      expect(port.decode(0)._tag).toBe("Err");
+      expect(port.decode("65536")).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "port", actual: "\"65536\"" })
+      );
+    });
+
+    it("should read booleans and the strings true and false", () => {
+      expect(boolean.decode("true")).toEqual(ok(true));
+      expect(boolean.decode(false)).toEqual(ok(false));
+      expect(boolean.decode("yes")._tag).toBe("Err");
+    });
+
+    it("should parse absolute URLs", () => {
+      expect(url.decode("https://example.com/api")).toEqual(
+        ok(new URL("https://example.com/api"))
+      );
+      expect(url.decode("/relative")._tag).toBe("Err");
+    });
+
+    it("should accept only the listed values with oneOf", () => {
+      const level = oneOf("debug", "info");
+      expect(level.decode("info")).toEqual(ok("info"));
+      expect(level.decode("trace")).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "\"debug\" | \"info\"", actual: "\"trace\"" })
+      );
+      expectTypeOf(level).toEqualTypeOf<Decoder<"debug" | "info">>();
+    });
+
+    it("should convert durations to milliseconds", () => {
+      expect(duration.decode("250ms")).toEqual(ok(250));
+      expect(duration.decode("2s")).toEqual(ok(2000));
+      expect(duration.decode("1.5h")).toEqual(ok(5_400_000));
+      expect(duration.decode("1d")).toEqual(ok(86_400_000));
+      expect(duration.decode("300")).toEqual(ok(300));
+      expect(duration.decode(300)).toEqual(ok(300));
+      expect(duration.decode("5 minutes")._tag).toBe("Err");
+      expect(duration.decode(-1)._tag).toBe("Err");
+    });
+  });
+
+  describe("sources", () => {
+    it("should read env variables in constant case, after the prefix", () => {
+      const env = fromEnv({ APP_DATABASE_MAX_CONNECTIONS: "10" }, { prefix: "APP_" });
+      expect(env.lookup(["database", "maxConnections"])).toEqual(some("10"));
+      expect(env.lookup(["database", "host"])).toEqual(none());
+      expect(env.locate(["database", "host"])).toBe("APP_DATABASE_HOST");
+    });
+
+    it("should follow the path through nested JSON objects", () => {
+      const json = fromJson({ database: { port: 5432, host: null } });
+      expect(json.lookup(["database", "port"])).toEqual(some(5432));
+      expect(json.lookup(["database", "host"])).toEqual(some(null));
+      expect(json.lookup(["database", "port", "value"])).toEqual(none());
+      expect(json.lookup(["toString"])).toEqual(none());
+    });
+
+    it("should read flags with = or a separate value, in kebab case", () => {
+      const args = fromArgs([
+        "serve",
+        "--database.max-connections=10",
+        "--log-level",
+        "debug",
+        "--verbose",
+        "--log-level",
+        "warn",
+      ]);
+      expect(args.lookup(["database", "maxConnections"])).toEqual(some("10"));
+      expect(args.lookup(["logLevel"])).toEqual(some("warn"));
+      expect(args.lookup(["verbose"])).toEqual(some("true"));
+      expect(args.lookup(["serve"])).toEqual(none());
+      expect(args.locate(["logLevel"])).toBe("--log-level");
+    });
+  });
+
+  describe("loadConfig", () => {
+    it("should take each setting from the first source that sets it", () => {
+      const result = loadConfig(schema, [
+        fromArgs(["--log-level=debug"]),
+        fromEnv({ DATABASE_HOST: "env-host", LOG_LEVEL: "warn" }),
+        fromJson({ database: { host: "json-host", port: 6543 } }),
+      ]);
+      expect(result).toEqual(
+        ok({
+          database: { host: "env-host", port: 6543 },
+          logLevel: "debug",
+          requestTimeout: none(),
+        })
+      );
+    });
+
+    it("should use defaults and optional settings when no source sets them", () => {
+      const result = loadConfig(schema, [
+        fromEnv({ DATABASE_HOST: "localhost", REQUEST_TIMEOUT: "30s" }),
+      ]);
+      expect(result).toEqual(
+        ok({
+          database: { host: "localhost", port: 5432 },
+          logLevel: "info",
+          requestTimeout: some(30_000),
+        })
+      );
+    });
+
+    it("should report every missing and invalid setting with its source", () => {
+      const result = loadConfig(schema, [
+        fromArgs(["--log-level=trace"]),
+        fromEnv({ DATABASE_PORT: "http" }, { prefix: "" }),
+        fromJson({}, "config.json"),
+      ]);
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        const [missing, invalidPort, invalidLevel] = result.error;
+        expect(result.error).toHaveLength(3);
+        expect(MissingConfig.is(missing)).toBe(true);
+        expect(missing).toMatchObject({
+          key: "database.host",
+          locations: ["args --database.host", "env DATABASE_HOST", "config.json database.host"],
+        });
+        expect(InvalidConfig.is(invalidPort)).toBe(true);
+        expect(invalidPort).toMatchObject({
+          key: "database.port",
+          source: "env",
+          location: "DATABASE_PORT",
+        });
+        expect(invalidPort?.message).toBe(
+          "Invalid config database.port from env DATABASE_PORT: expected integer, got \"http\""
+        );
+        expect(invalidLevel).toMatchObject({ key: "logLevel", source: "args" });
+      }
+    });
+
+    it("should not fall through to a lower source when a value is invalid", () => {
+      const result = loadConfig({ retries: required(int) }, [
+        fromEnv({ RETRIES: "many" }),
+        fromJson({ retries: 3 }),
+      ]);
+      expect(result._tag).toBe("Err");
+    });
+
+    it("should accept any decoder, and report where inside the value it failed", () => {
+      const result = loadConfig({ origin: required(object({ x: number, y: number })) }, [
+        fromJson({ origin: { x: 1, y: "2" } }),
+      ]);
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error[0].message).toBe(
+          "Invalid config origin from json origin: expected number, got string at $.y"
+        );
+      }
+    });
+
+    it("should infer the config type from the schema", () => {
+      const result = loadConfig(schema, []);
+      expectTypeOf(result).toEqualTypeOf<
+        Result<
+          {
+            readonly database: { readonly host: string; readonly port: Port };
+            readonly logLevel: "debug" | "info" | "warn";
+            readonly requestTimeout: Option<number>;
+          },
+          NonEmptyArray<ConfigError>
+        >
+      >();
+    });
+  });
+});
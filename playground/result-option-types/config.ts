@@ -0,0 +1,408 @@
+import { type Option, some, none, isSome } from "./option";
+import { type Result, ok, err, isOk, isErr } from "./result";
+import { type NonEmptyArray, isNonEmpty } from "./non-empty-array";
+import {
+  type Decoder,
+  type DecodeError,
+  decodeError,
+  describeLiteral,
+  formatPath,
+  refine,
+  map as mapDecoder,
+} from "./decoder";
+import { type TaggedError, taggedError } from "./errors";
+import { type Brand } from "./brand";
+import { parseInteger, parseNumber, parseUrl } from "./safe";
+
+// A config is described by a schema of settings, read from a list of
+// sources such as environment variables, a parsed JSON file and command
+// line flags, and decoded with the parsers below. Every setting is looked
+// up by its path in the schema; each source maps that path to its own
+// naming convention, so `database.port` is read from `DATABASE_PORT` in the
+// environment and `--database.port` on the command line.
+
+// --- Errors ---
+
+export type MissingConfigError = TaggedError<
+  "MissingConfig",
+  { readonly key: string; readonly locations: readonly string[] }
+>;
+export type InvalidConfigError = TaggedError<
+  "InvalidConfig",
+  {
+    readonly key: string;
+    readonly source: string;
+    readonly location: string;
+    readonly reason: DecodeError;
+  }
+>;
+export type ConfigError = MissingConfigError | InvalidConfigError;
+
+export const MissingConfig = taggedError(
+  "MissingConfig",
+  (fields: { readonly key: string; readonly locations: readonly string[] }) =>
+    `Missing config ${fields.key}: set one of ${fields.locations.join(", ")}`
+);
+export const InvalidConfig = taggedError(
+  "InvalidConfig",
+  (fields: {
+    readonly key: string;
+    readonly source: string;
+    readonly location: string;
+    readonly reason: DecodeError;
+  }) =>
+    `Invalid config ${fields.key} from ${fields.source} ${fields.location}: ` +
+    `expected ${fields.reason.expected}, got ${fields.reason.actual}` +
+    (fields.reason.path.length > 0 ? ` at ${formatPath(fields.reason.path)}` : "")
+);
+
+// --- Parsers ---
+//
+// Parsers are Decoders, so any decoder can read a setting. Those below
+// also accept the strings that environment variables and flags provide.
+
+/**
+ * An integer that is a valid TCP port, 1 to 65535.
+ */
+export type Port = Brand<number, "Port">;
+
+/**
+ * Builds a decoder from a function that returns None for rejected input.
+ */
+function parser<T>(expected: string, parse: (input: unknown) => Option<T>): Decoder<T> {
+  return {
+    expected,
+    decode: (input, path = []) => {
+      const parsed = parse(input);
+      return isSome(parsed)
+        ? ok(parsed.value)
+        : err(decodeError(path, expected, input, describeLiteral(input)));
+    },
+  };
+}
+
+/**
+ * Accepts strings.
+ */
+export const string: Decoder<string> = parser("string", (input) =>
+  typeof input === "string" ? some(input) : none()
+);
+
+/**
+ * Accepts true and false, and the strings "true" and "false". A flag given
+ * without a value reads as "true".
+ */
+export const boolean: Decoder<boolean> = parser("boolean", (input) => {
+  if (typeof input === "boolean") {
+    return some(input);
+  }
+  return input === "true" || input === "false" ? some(input === "true") : none();
+});
+
+const INTEGER = /^-?\d+$/;
+
+/**
+ * Accepts safe integers, as numbers or strings of decimal digits.
+ */
+export const int: Decoder<number> = parser("integer", (input) => {
+  if (typeof input === "number") {
+    return Number.isSafeInteger(input) ? some(input) : none();
+  }
+  if (typeof input === "string" && INTEGER.test(input)) {
+    const parsed = parseInteger(input);
+    return isOk(parsed) ? some(parsed.value) : none();
+  }
+  return none();
+});
+
+/**
+ * Accepts integers from 1 to 65535, as numbers or strings.
+ */
+export const port: Decoder<Port> = refine(
+  int,
+  (value): value is Port => value >= 1 && value <= 65535,
+  "port"
+);
+
+/**
+ * Accepts absolute URLs, as strings or URL objects.
+ */
+export const url: Decoder<URL> = parser("URL", (input) => {
+  if (input instanceof URL) {
+    return some(input);
+  }
+  if (typeof input === "string") {
+    const parsed = parseUrl(input);
+    return isOk(parsed) ? some(parsed.value) : none();
+  }
+  return none();
+});
+
+/**
+ * Accepts exactly one of the given strings. This is the `enum` parser;
+ * `enum` itself is a reserved word.
+ */
+export function oneOf<const L extends readonly [string, ...string[]]>(
+  ...values: L
+): Decoder<L[number]> {
+  return parser(
+    values.map((value) => JSON.stringify(value)).join(" | "),
+    (input) => (values.some((value) => value === input) ? some(input as L[number]) : none())
+  );
+}
+
+const DURATION = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)?$/;
+const MILLISECONDS_PER_UNIT: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Accepts a duration and returns it in milliseconds. Strings take a
+ * number and a unit, one of ms, s, m, h or d, as in "500ms" or "1.5h";
+ * without a unit, and as a number, the duration is in milliseconds.
+ */
+export const duration: Decoder<number> = parser("duration", (input) => {
+  if (typeof input === "number") {
+    return Number.isFinite(input) && input >= 0 ? some(input) : none();
+  }
+  if (typeof input !== "string") {
+    return none();
+  }
+  const match = DURATION.exec(input.trim());
+  if (match === null) {
+    return none();
+  }
+  const amount = parseNumber(match[1] ?? "");
+  return isOk(amount)
+    ? some(amount.value * (MILLISECONDS_PER_UNIT[match[2] ?? "ms"] ?? 1))
+    : none();
+});
+
+// --- Schema ---
+
+/**
+ * One value of a config: how to decode it, and what it is when no source
+ * sets it. A setting with no fallback is required.
+ */
+export interface Setting<T> {
+  readonly _tag: "Setting";
+  readonly decoder: Decoder<T>;
+  readonly fallback: Option<T>;
+}
+
+/**
+ * The shape of a config: settings, nested in objects as deep as needed.
+ */
+export interface ConfigSchema {
+  readonly [key: string]: Setting<unknown> | ConfigSchema;
+}
+
+/**
+ * The config a schema describes.
+ */
+export type InferConfig<S extends ConfigSchema> = {
+  readonly [K in keyof S]: S[K] extends Setting<infer T>
+    ? T
+    : S[K] extends ConfigSchema
+      ? InferConfig<S[K]>
+      : never;
+};
+
+/**
+ * A setting that every config must provide.
+ */
+export function required<T>(decoder: Decoder<T>): Setting<T> {
+  return { _tag: "Setting", decoder, fallback: none() };
+}
+
+/**
+ * A setting that is the given value when no source sets it.
+ */
+export function withDefault<T>(decoder: Decoder<T>, value: T): Setting<T> {
+  return { _tag: "Setting", decoder, fallback: some(value) };
+}
+
+/**
+ * A setting that is None when no source sets it.
+ */
+export function optional<T>(decoder: Decoder<T>): Setting<Option<T>> {
+  return { _tag: "Setting", decoder: mapDecoder(decoder, some), fallback: some(none()) };
+}
+
+function isSetting(entry: Setting<unknown> | ConfigSchema): entry is Setting<unknown> {
+  return entry._tag === "Setting";
+}
+
+// --- Sources ---
+
+/**
+ * Where config values come from. `locate` names the place a source reads a
+ * setting from, e.g. `DATABASE_PORT`, for error messages; `lookup` reads
+ * it, returning None if the source does not set it.
+ */
+export interface ConfigSource {
+  readonly name: string;
+  readonly locate: (path: readonly string[]) => string;
+  readonly lookup: (path: readonly string[]) => Option<unknown>;
+}
+
+const toConstantCase = (key: string): string =>
+  key.replace(/([a-z0-9])([A-Z])/g, "$1_$2").replace(/-/g, "_").toUpperCase();
+
+const toKebabCase = (key: string): string =>
+  key.replace(/([a-z0-9])([A-Z])/g, "$1-$2").replace(/_/g, "-").toLowerCase();
+
+/**
+ * Reads environment variables: `database.maxConnections` is read from
+ * `DATABASE_MAX_CONNECTIONS`, after the prefix if one is given. Pass
+ * process.env, or a plain object in tests.
+ */
+export function fromEnv(
+  env: Readonly<Record<string, string | undefined>>,
+  options: { readonly prefix?: string } = {}
+): ConfigSource {
+  const locate = (path: readonly string[]) =>
+    `${options.prefix ?? ""}${path.map(toConstantCase).join("_")}`;
+  return {
+    name: "env",
+    locate,
+    lookup: (path) => {
+      const value = env[locate(path)];
+      return value === undefined ? none() : some(value);
+    },
+  };
+}
+
+/**
+ * Reads a parsed JSON value, such as the contents of a config file, by
+ * following the path through nested objects. `name` identifies the file in
+ * error messages.
+ */
+export function fromJson(json: unknown, name = "json"): ConfigSource {
+  return {
+    name,
+    locate: (path) => path.join("."),
+    lookup: (path) => {
+      let current: unknown = json;
+      for (const key of path) {
+        if (typeof current !== "object" || current === null || !Object.hasOwn(current, key)) {
+          return none();
+        }
+        current = (current as Record<string, unknown>)[key];
+      }
+      return current === undefined ? none() : some(current);
+    },
+  };
+}
+
+/**
+ * Reads command line flags: `database.maxConnections` is read from
+ * `--database.max-connections=10` or `--database.max-connections 10`. A
+ * flag without a value is "true". When a flag is repeated, the last one
+ * wins; arguments that are not flags are ignored.
+ */
+export function fromArgs(argv: readonly string[]): ConfigSource {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i] ?? "";
+    if (!arg.startsWith("--")) {
+      continue;
+    }
+    const separator = arg.indexOf("=");
+    if (separator !== -1) {
+      flags.set(arg.slice(2, separator), arg.slice(separator + 1));
+      continue;
+    }
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) {
+      flags.set(arg.slice(2), "true");
+    } else {
+      flags.set(arg.slice(2), next);
+      i++;
+    }
+  }
+  const flagName = (path: readonly string[]) => path.map(toKebabCase).join(".");
+  return {
+    name: "args",
+    locate: (path) => `--${flagName(path)}`,
+    lookup: (path) => {
+      const value = flags.get(flagName(path));
+      return value === undefined ? none() : some(value);
+    },
+  };
+}
+
+// --- Loading ---
+
+/**
+ * Reads every setting of the schema from the sources, which are given in
+ * priority order: a setting comes from the first source that sets it,
+ * falling back to its default. Every missing or invalid setting is
+ * reported, not just the first, each with the places it was read from.
+ *
+ * ```ts
+ * const schema = {
+ *   database: { host: required(string), port: required(port), poolSize: withDefault(int, 10) },
+ *   logLevel: withDefault(oneOf("debug", "info", "warn"), "info"),
+ * };
+ * const config = loadConfig(schema, [
+ *   fromArgs(process.argv.slice(2)),
+ *   fromEnv(process.env, { prefix: "APP_" }),
+ *   fromJson(fileContents, "config.json"),
+ * ]);
+ * ```
+ */
+export function loadConfig<const S extends ConfigSchema>(
+  schema: S,
+  sources: readonly ConfigSource[]
+): Result<InferConfig<S>, NonEmptyArray<ConfigError>> {
+  const errors: ConfigError[] = [];
+
+  const loadSetting = (setting: Setting<unknown>, path: readonly string[]): unknown => {
+    const key = path.join(".");
+    for (const source of sources) {
+      const found = source.lookup(path);
+      if (!isSome(found)) {
+        continue;
+      }
+      const decoded = setting.decoder.decode(found.value, []);
+      if (isErr(decoded)) {
+        errors.push(
+          InvalidConfig({
+            key,
+            source: source.name,
+            location: source.locate(path),
+            reason: decoded.error,
+          })
+        );
+        return undefined;
+      }
+      return decoded.value;
+    }
+    if (isSome(setting.fallback)) {
+      return setting.fallback.value;
+    }
+    errors.push(
+      MissingConfig({
+        key,
+        locations: sources.map((source) => `${source.name} ${source.locate(path)}`),
+      })
+    );
+    return undefined;
+  };
+
+  const loadSchema = (entries: ConfigSchema, path: readonly string[]): object =>
+    Object.fromEntries(
+      Object.entries(entries).map(([key, entry]) => [
+        key,
+        isSetting(entry) ? loadSetting(entry, [...path, key]) : loadSchema(entry, [...path, key]),
+      ])
+    );
+
+  const config = loadSchema(schema, []);
+  return isNonEmpty(errors) ? err(errors) : ok(config as InferConfig<S>);
+}
@@ -11,6 +11,12 @@ import {
   arrayAt,
   objectGet,
 } from "./conversions";
+import { taggedError } from "./errors";
+
+const ParseFailed = taggedError(
+  "ParseFailed",
+  (fields: { input: string }) => `Could not parse ${fields.input}`
+);
 
 describe("Conversions", () => {
   describe("fromNullable", () => {
@@ -53,8 +59,20 @@ describe("Conversions", () => {
       expect(result._tag).toBe("Err");
       if (result._tag === "Err") {
         expect(result.error instanceof Error).toBe(true);
+        expect(result.error.cause).toBe("string error");
       }
     });
+
+    it("should map the thrown value with onThrow", () => {
+      const thrown = new SyntaxError("bad input");
+      const result = tryCatch(
+        () => {
+          throw thrown;
+        },
+        (cause) => ({ kind: "ParseFailed" as const, cause })
+      );
+      expect(result).toEqual(err({ kind: "ParseFailed", cause: thrown }));
+    });
   });
 
   describe("tryCatchAsync", () => {
@@ -74,6 +92,18 @@ describe("Conversions", () => {
         expect(result.error.message).toBe("async error");
       }
     });
+
+    it("should map the rejection with onThrow", async () => {
+      const result = await tryCatchAsync(
+        () => Promise.reject(new Error("timeout")),
+        (cause) => ParseFailed({ input: "x" }, { cause })
+      );
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error._tag).toBe("ParseFailed");
+        expect((result.error.cause as Error).message).toBe("timeout");
+      }
+    });
   });
 
   describe("optionToResult", () => {
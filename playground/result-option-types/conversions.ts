@@ -1,5 +1,8 @@
-import { type Option, some, none } from "./option";
-import { type Result, ok, err } from "./result";
+import { type Option, some, none, isSome } from "./option";
+import { type Result, ok, err, isOk } from "./result";
+import { type AsyncResult } from "./async-result";
+import { dual } from "./function";
+import { toError } from "./errors";
 
 /**
  * Converts a nullable value to an Option.
@@ -15,60 +18,90 @@ export function fromNullable<T>(value: T | null | undefined): Option<T> {
 /**
  * Wraps a function that might throw an exception in a Result.
  * Returns Ok(result) if the function succeeds, Err(error) if it throws.
+ *
+ * By default the thrown value becomes an Error (see toError). Pass
+ * onThrow to map it to a domain error instead; keep the thrown value as
+ * its `cause` so the original failure is not lost.
  */
-export function tryCatch<T>(fn: () => T): Result<T, Error> {
+export function tryCatch<T>(fn: () => T): Result<T, Error>;
+export function tryCatch<T, E>(
+  fn: () => T,
+  onThrow: (thrown: unknown) => E
+): Result<T, E>;
+export function tryCatch<T>(
+  fn: () => T,
+  onThrow: (thrown: unknown) => unknown = toError
+): Result<T, unknown> {
   try {
     return ok(fn());
-  } catch (error) {
-    if (error instanceof Error) {
-      return err(error);
-    }
-    return err(new Error(String(error)));
+  } catch (thrown) {
+    return err(onThrow(thrown));
   }
 }
 
 /**
  * Asynchronous version of tryCatch for async functions.
- * Returns a Promise of Result<T, Error>.
+ * Returns an AsyncResult<T, Error>, or AsyncResult<T, E> with onThrow.
  */
+export function tryCatchAsync<T>(fn: () => Promise<T>): AsyncResult<T, Error>;
+export function tryCatchAsync<T, E>(
+  fn: () => Promise<T>,
+  onThrow: (thrown: unknown) => E
+): AsyncResult<T, E>;
 export async function tryCatchAsync<T>(
-  fn: () => Promise<T>
-): Promise<Result<T, Error>> {
+  fn: () => Promise<T>,
+  onThrow: (thrown: unknown) => unknown = toError
+): AsyncResult<T, unknown> {
   try {
     const value = await fn();
     return ok(value);
-  } catch (error) {
-    if (error instanceof Error) {
-      return err(error);
-    }
-    return err(new Error(String(error)));
+  } catch (thrown) {
+    return err(onThrow(thrown));
   }
 }
 
 /**
  * Converts an Option<T> to Result<T, E> by providing an error value for the None case.
+ * Data-last form: optionToResult(error)(option).
  */
 export function optionToResult<T, E>(
   option: Option<T>,
   error: E
-): Result<T, E> {
-  if (option._tag === "Some") {
-    return ok(option.value);
-  }
-  return err(error);
+): Result<T, E>;
+export function optionToResult<E>(
+  error: E
+): <T>(option: Option<T>) => Result<T, E>;
+export function optionToResult(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, E>(option: Option<T>, error: E): Result<T, E> => {
+    if (isSome(option)) {
+      return ok(option.value);
+    }
+    return err(error);
+  });
 }
 
 /**
  * Converts an Option<T> to Result<T, E> by computing an error from a function for the None case.
+ * Data-last form: optionToResultLazy(errorFn)(option).
  */
 export function optionToResultLazy<T, E>(
   option: Option<T>,
   errorFn: () => E
-): Result<T, E> {
-  if (option._tag === "Some") {
-    return ok(option.value);
-  }
-  return err(errorFn());
+): Result<T, E>;
+export function optionToResultLazy<E>(
+  errorFn: () => E
+): <T>(option: Option<T>) => Result<T, E>;
+export function optionToResultLazy(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E>(option: Option<T>, errorFn: () => E): Result<T, E> => {
+      if (isSome(option)) {
+        return ok(option.value);
+      }
+      return err(errorFn());
+    }
+  );
 }
 
 /**
@@ -76,7 +109,7 @@ export function optionToResultLazy<T, E>(
  * Returns Some(value) for Ok, None for Err.
  */
 export function resultToOption<T, E>(result: Result<T, E>): Option<T> {
-  if (result._tag === "Ok") {
+  if (isOk(result)) {
     return some(result.value);
   }
   return none();
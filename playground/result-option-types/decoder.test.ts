@@ -0,0 +1,268 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, isOk } from "./result";
+import {
+  string,
+  number,
+  boolean,
+  unknown,
+  literal,
+  array,
+  record,
+  object,
+  optional,
+  nullable,
+  union,
+  discriminatedUnion,
+  refine,
+  map,
+  decode,
+  formatPath,
+  formatDecodeError,
+  type Infer,
+} from "./decoder";
+
+describe("Decoder", () => {
+  describe("Primitives", () => {
+    it("should accept values of the right type", () => {
+      expect(decode(string, "a")).toEqual(ok("a"));
+      expect(decode(number, 1.5)).toEqual(ok(1.5));
+      expect(decode(boolean, false)).toEqual(ok(false));
+      expect(decode(unknown, { any: "thing" })).toEqual(ok({ any: "thing" }));
+    });
+
+    it("should reject values of the wrong type at the root path", () => {
+      expect(decode(string, 1)).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "string", actual: "number" })
+      );
+      expect(decode(boolean, null)).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "boolean", actual: "null" })
+      );
+    });
+
+    it("number should reject NaN and Infinity", () => {
+      expect(isOk(decode(number, NaN))).toBe(false);
+      expect(isOk(decode(number, Infinity))).toBe(false);
+    });
+
+    it("literal should accept only the listed values", () => {
+      const direction = literal("Pay", "Receive");
+      expect(decode(direction, "Pay")).toEqual(ok("Pay"));
+      expect(decode(direction, "pay")).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: [],
+          expected: "\"Pay\" | \"Receive\"",
+          actual: "\"pay\"",
+        })
+      );
+      expectTypeOf<Infer<typeof direction>>().toEqualTypeOf<"Pay" | "Receive">();
+    });
+  });
+
+  describe("array and record", () => {
+    it("array should decode every element", () => {
+      expect(decode(array(number), [1, 2, 3])).toEqual(ok([1, 2, 3]));
+      expect(decode(array(number), "1,2")._tag).toBe("Err");
+    });
+
+    it("array should report the index of the first bad element", () => {
+      expect(decode(array(number), [1, "2", "3"])).toEqual(
+        err({ _tag: "DecodeError", path: [1], expected: "number", actual: "string" })
+      );
+    });
+
+    it("record should decode every value and report the failing key", () => {
+      expect(decode(record(number), { a: 1, b: 2 })).toEqual(ok({ a: 1, b: 2 }));
+      expect(decode(record(number), { a: 1, b: true })).toEqual(
+        err({ _tag: "DecodeError", path: ["b"], expected: "number", actual: "boolean" })
+      );
+      expect(decode(record(number), [1])._tag).toBe("Err");
+    });
+  });
+
+  describe("object", () => {
+    const user = object({
+      name: string,
+      age: number,
+      email: optional(string),
+    });
+
+    it("should decode the fields of the shape", () => {
+      expect(decode(user, { name: "Ada", age: 36, email: "ada@example.com" })).toEqual(
+        ok({ name: "Ada", age: 36, email: "ada@example.com" })
+      );
+    });
+
+    it("should allow optional fields to be missing", () => {
+      expect(decode(user, { name: "Ada", age: 36 })).toEqual(ok({ name: "Ada", age: 36 }));
+    });
+
+    it("should drop keys that are not in the shape", () => {
+      expect(decode(user, { name: "Ada", age: 36, admin: true })).toEqual(
+        ok({ name: "Ada", age: 36 })
+      );
+    });
+
+    it("should report a missing required field at its key", () => {
+      expect(decode(user, { name: "Ada" })).toEqual(
+        err({ _tag: "DecodeError", path: ["age"], expected: "number", actual: "undefined" })
+      );
+    });
+
+    it("should report the full path of nested errors", () => {
+      const team = object({ members: array(user) });
+      const result = decode(team, { members: [{ name: "Ada", age: 36 }, { name: 7, age: 1 }] });
+      expect(result).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: ["members", 1, "name"],
+          expected: "string",
+          actual: "number",
+        })
+      );
+    });
+
+    it("should reject non-objects", () => {
+      expect(decode(user, [])).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "object", actual: "array" })
+      );
+    });
+
+    it("should infer required and optional fields", () => {
+      expectTypeOf<Infer<typeof user>>().toEqualTypeOf<{
+        readonly name: string;
+        readonly age: number;
+        readonly email?: string | undefined;
+      }>();
+    });
+  });
+
+  describe("nullable and union", () => {
+    it("nullable should accept null as well", () => {
+      expect(decode(nullable(number), null)).toEqual(ok(null));
+      expect(decode(nullable(number), 1)).toEqual(ok(1));
+      expect(decode(nullable(number), "1")._tag).toBe("Err");
+    });
+
+    it("union should return the first alternative that decodes", () => {
+      const id = union(string, number);
+      expect(decode(id, "a1")).toEqual(ok("a1"));
+      expect(decode(id, 7)).toEqual(ok(7));
+      expectTypeOf<Infer<typeof id>>().toEqualTypeOf<string | number>();
+    });
+
+    it("union should list every alternative when none matches", () => {
+      expect(decode(union(string, number), true)).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: [],
+          expected: "string | number",
+          actual: "boolean",
+        })
+      );
+    });
+  });
+
+  describe("discriminatedUnion", () => {
+    const shape = discriminatedUnion("kind", {
+      circle: object({ kind: literal("circle"), radius: number }),
+      square: object({ kind: literal("square"), side: number }),
+    });
+
+    it("should decode with the variant selected by the key", () => {
+      expect(decode(shape, { kind: "square", side: 2 })).toEqual(
+        ok({ kind: "square", side: 2 })
+      );
+    });
+
+    it("should report errors from the selected variant", () => {
+      expect(decode(shape, { kind: "circle", side: 2 })).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: ["radius"],
+          expected: "number",
+          actual: "undefined",
+        })
+      );
+    });
+
+    it("should report an unknown tag at the key", () => {
+      expect(decode(shape, { kind: "triangle" })).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: ["kind"],
+          expected: "\"circle\" | \"square\"",
+          actual: "\"triangle\"",
+        })
+      );
+    });
+
+    it("should infer the union of variants", () => {
+      expectTypeOf<Infer<typeof shape>>().toEqualTypeOf<
+        | { readonly kind: "circle"; readonly radius: number }
+        | { readonly kind: "square"; readonly side: number }
+      >();
+    });
+  });
+
+  describe("refine and map", () => {
+    const positive = refine(number, (n) => n > 0, "positive number");
+
+    it("refine should apply the check after decoding", () => {
+      expect(decode(positive, 3)).toEqual(ok(3));
+      expect(decode(positive, -3)).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "positive number", actual: "-3" })
+      );
+    });
+
+    it("refine should keep the underlying error when decoding fails", () => {
+      expect(decode(positive, "3")).toEqual(
+        err({ _tag: "DecodeError", path: [], expected: "number", actual: "string" })
+      );
+    });
+
+    it("map should transform the decoded value", () => {
+      const date = map(string, (s) => s.slice(0, 4));
+      expect(decode(date, "2024-01-15")).toEqual(ok("2024"));
+    });
+  });
+
+  describe("Error formatting", () => {
+    it("formatPath should render keys and indices", () => {
+      expect(formatPath([])).toBe("$");
+      expect(formatPath(["legs", 0, "rate"])).toBe("$.legs[0].rate");
+    });
+
+    it("formatDecodeError should render a single line", () => {
+      const result = decode(object({ legs: array(object({ rate: number })) }), {
+        legs: [{ rate: "5%" }],
+      });
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(formatDecodeError(result.error)).toBe(
+          "$.legs[0].rate: expected number, got string"
+        );
+      }
+    });
+  });
+
+  describe("Properties", () => {
+    it("array(number) should accept exactly the arrays of finite numbers", () => {
+      fc.assert(
+        fc.property(fc.array(fc.double({ noNaN: true, noDefaultInfinity: true })), (xs) => {
+          expect(decode(array(number), xs)).toEqual(ok(xs));
+        })
+      );
+    });
+
+    it("object should round-trip values of its own shape", () => {
+      const point = object({ x: number, label: string });
+      fc.assert(
+        fc.property(fc.integer(), fc.string(), (x, label) => {
+          expect(decode(point, { x, label })).toEqual(ok({ x, label }));
+        })
+      );
+    });
+  });
+});
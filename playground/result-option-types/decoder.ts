@@ -0,0 +1,414 @@
+import { type Result, ok, err, isOk, isErr } from "./result";
+
+/**
+ * A location inside a decoded value: object keys and array indices from
+ * the root.
+ */
+export type DecodePath = ReadonlyArray<string | number>;
+
+/**
+ * Describes why a value failed to decode: where in the input, what the
+ * decoder expected there, and what it found instead.
+ */
+export interface DecodeError {
+  readonly _tag: "DecodeError";
+  readonly path: DecodePath;
+  readonly expected: string;
+  readonly actual: string;
+}
+
+/**
+ * Checks an unknown value at runtime and returns it as a T. Unlike a type
+ * assertion, the Ok value is only produced after every part of the input
+ * has been checked.
+ *
+ * `expected` names what the decoder accepts; it is used in error messages
+ * and when decoders are combined with union.
+ */
+export interface Decoder<T> {
+  readonly expected: string;
+  readonly decode: (input: unknown, path?: DecodePath) => Result<T, DecodeError>;
+}
+
+/**
+ * A decoder for an object field that may be missing. Only produced by
+ * optional, so that object can make the field optional in its type.
+ */
+export interface OptionalDecoder<T> extends Decoder<T | undefined> {
+  readonly optional: true;
+}
+
+/**
+ * The static type a decoder produces.
+ *
+ * ```ts
+ * const point = object({ x: number, y: number });
+ * type Point = Infer<typeof point>; // { readonly x: number; readonly y: number }
+ * ```
+ */
+export type Infer<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * Describes a runtime value for the `actual` field of a DecodeError.
+ */
+export function describeValue(input: unknown): string {
+  if (input === null) {
+    return "null";
+  }
+  if (Array.isArray(input)) {
+    return "array";
+  }
+  return typeof input;
+}
+
+/**
+ * Describes a runtime value by its literal form when it is a primitive,
+ * e.g. `"Fixd"` or `-3`. Used by checks on values rather than types.
+ */
+export function describeLiteral(input: unknown): string {
+  if (
+    typeof input === "string" ||
+    typeof input === "number" ||
+    typeof input === "boolean"
+  ) {
+    return JSON.stringify(input);
+  }
+  return describeValue(input);
+}
+
+/**
+ * Renders a path as `$.legs[0].rate`, where `$` is the root value.
+ */
+export function formatPath(path: DecodePath): string {
+  return path.reduce<string>(
+    (acc, segment) =>
+      typeof segment === "number" ? `${acc}[${segment}]` : `${acc}.${segment}`,
+    "$"
+  );
+}
+
+/**
+ * Renders a DecodeError as a single readable line.
+ */
+export function formatDecodeError(error: DecodeError): string {
+  return `${formatPath(error.path)}: expected ${error.expected}, got ${error.actual}`;
+}
+
+/**
+ * Creates a DecodeError for the given input at the given path. `actual`
+ * defaults to the input's type.
+ */
+export function decodeError(
+  path: DecodePath,
+  expected: string,
+  input: unknown,
+  actual: string = describeValue(input)
+): DecodeError {
+  return { _tag: "DecodeError", path, expected, actual };
+}
+
+/**
+ * Runs a decoder on an input from the root path.
+ */
+export function decode<T>(decoder: Decoder<T>, input: unknown): Result<T, DecodeError> {
+  return decoder.decode(input, []);
+}
+
+function fromGuard<T>(
+  expected: string,
+  guard: (input: unknown) => input is T,
+  describe: (input: unknown) => string = describeValue
+): Decoder<T> {
+  return {
+    expected,
+    decode: (input, path = []) =>
+      guard(input)
+        ? ok(input)
+        : err(decodeError(path, expected, input, describe(input))),
+  };
+}
+
+// --- Primitives ---
+
+/**
+ * Accepts strings.
+ */
+export const string: Decoder<string> = fromGuard(
+  "string",
+  (input): input is string => typeof input === "string"
+);
+
+/**
+ * Accepts finite numbers only; NaN and Infinity cannot come from JSON and
+ * usually signal a bug upstream.
+ */
+export const number: Decoder<number> = fromGuard(
+  "number",
+  (input): input is number => typeof input === "number" && Number.isFinite(input)
+);
+
+/**
+ * Accepts true and false.
+ */
+export const boolean: Decoder<boolean> = fromGuard(
+  "boolean",
+  (input): input is boolean => typeof input === "boolean"
+);
+
+/**
+ * Accepts any value without checking it.
+ */
+export const unknown: Decoder<unknown> = {
+  expected: "unknown",
+  decode: (input) => ok(input),
+};
+
+/**
+ * Accepts exactly one of the given primitive values.
+ */
+export function literal<const L extends readonly (string | number | boolean | null)[]>(
+  ...values: L
+): Decoder<L[number]> {
+  const expected = values.map((value) => JSON.stringify(value)).join(" | ");
+  return fromGuard(
+    expected,
+    (input): input is L[number] => values.some((value) => value === input),
+    describeLiteral
+  );
+}
+
+// --- Combinators ---
+
+/**
+ * Accepts an array whose elements all decode with the item decoder.
+ * The error path points at the first element that fails.
+ */
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  const expected = `array of ${item.expected}`;
+  return {
+    expected,
+    decode: (input, path = []) => {
+      if (!Array.isArray(input)) {
+        return err(decodeError(path, expected, input));
+      }
+      const values: T[] = [];
+      for (const [index, element] of input.entries()) {
+        const result = item.decode(element, [...path, index]);
+        if (isErr(result)) {
+          return result;
+        }
+        values.push(result.value);
+      }
+      return ok(values);
+    },
+  };
+}
+
+/**
+ * Accepts an object whose own values all decode with the value decoder.
+ */
+export function record<T>(value: Decoder<T>): Decoder<Record<string, T>> {
+  const expected = `record of ${value.expected}`;
+  return {
+    expected,
+    decode: (input, path = []) => {
+      if (!isPlainObject(input)) {
+        return err(decodeError(path, expected, input));
+      }
+      const entries: [string, T][] = [];
+      for (const [key, element] of Object.entries(input)) {
+        const result = value.decode(element, [...path, key]);
+        if (isErr(result)) {
+          return result;
+        }
+        entries.push([key, result.value]);
+      }
+      return ok(Object.fromEntries(entries));
+    },
+  };
+}
+
+type Shape = Readonly<Record<string, Decoder<unknown>>>;
+
+type OptionalKeys<S extends Shape> = {
+  [K in keyof S]: S[K] extends OptionalDecoder<unknown> ? K : never;
+}[keyof S];
+
+type RequiredKeys<S extends Shape> = Exclude<keyof S, OptionalKeys<S>>;
+
+// Flattens an intersection so hovers and errors show a single object type.
+type Simplify<T> = { [K in keyof T]: T[K] };
+
+/**
+ * The object type an object decoder produces for a given shape.
+ */
+export type ObjectOf<S extends Shape> = Simplify<
+  { readonly [K in RequiredKeys<S>]: Infer<S[K]> } & {
+    readonly [K in OptionalKeys<S>]?: Infer<S[K]>;
+  }
+>;
+
+function isPlainObject(input: unknown): input is Record<string, unknown> {
+  return typeof input === "object" && input !== null && !Array.isArray(input);
+}
+
+/**
+ * Accepts an object with the given fields. Each field is decoded with its
+ * own decoder; fields wrapped in optional may be missing. Keys not in the
+ * shape are dropped from the output.
+ */
+export function object<const S extends Shape>(shape: S): Decoder<ObjectOf<S>> {
+  const expected = `{ ${Object.entries(shape)
+    .map(([key, field]) => `${key}: ${field.expected}`)
+    .join("; ")} }`;
+  return {
+    expected,
+    decode: (input, path = []) => {
+      if (!isPlainObject(input)) {
+        return err(decodeError(path, "object", input));
+      }
+      const entries: [string, unknown][] = [];
+      for (const [key, field] of Object.entries(shape)) {
+        const present = Object.hasOwn(input, key);
+        if (!present && "optional" in field) {
+          continue;
+        }
+        if (!present) {
+          return err(decodeError([...path, key], field.expected, undefined));
+        }
+        const result = field.decode(input[key], [...path, key]);
+        if (isErr(result)) {
+          return result;
+        }
+        entries.push([key, result.value]);
+      }
+      return ok(Object.fromEntries(entries) as ObjectOf<S>);
+    },
+  };
+}
+
+/**
+ * Marks an object field as optional: the key may be missing or undefined.
+ */
+export function optional<T>(decoder: Decoder<T>): OptionalDecoder<T> {
+  return {
+    expected: `${decoder.expected} | undefined`,
+    optional: true,
+    decode: (input, path = []) =>
+      input === undefined ? ok(undefined) : decoder.decode(input, path),
+  };
+}
+
+/**
+ * Accepts null in addition to what the decoder accepts.
+ */
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return {
+    expected: `${decoder.expected} | null`,
+    decode: (input, path = []) =>
+      input === null ? ok(null) : decoder.decode(input, path),
+  };
+}
+
+/**
+ * Accepts the first alternative that decodes. When none does, the error
+ * lists every alternative as expected.
+ */
+export function union<const D extends readonly Decoder<unknown>[]>(
+  ...decoders: D
+): Decoder<Infer<D[number]>> {
+  const expected = decoders.map((decoder) => decoder.expected).join(" | ");
+  return {
+    expected,
+    decode: (input, path = []) => {
+      for (const decoder of decoders) {
+        const result = decoder.decode(input, path);
+        if (isOk(result)) {
+          return ok(result.value as Infer<D[number]>);
+        }
+      }
+      return err(decodeError(path, expected, input));
+    },
+  };
+}
+
+/**
+ * Accepts an object whose `key` field selects which decoder to apply.
+ * Unlike union, errors come from the selected variant, so they point at
+ * the field that is actually wrong.
+ *
+ * ```ts
+ * const rate = discriminatedUnion("type", {
+ *   Fixed: object({ type: literal("Fixed"), value: number }),
+ *   Floating: object({ type: literal("Floating"), index: string, spread: number }),
+ * });
+ * ```
+ */
+export function discriminatedUnion<
+  const K extends string,
+  const M extends Readonly<Record<string, Decoder<unknown>>>,
+>(key: K, variants: M): Decoder<Infer<M[keyof M]>> {
+  const tags = Object.keys(variants);
+  const expected = tags.map((tag) => variants[tag]?.expected).join(" | ");
+  const expectedTag = tags.map((tag) => JSON.stringify(tag)).join(" | ");
+  return {
+    expected,
+    decode: (input, path = []) => {
+      if (!isPlainObject(input)) {
+        return err(decodeError(path, "object", input));
+      }
+      const tag = input[key];
+      const variant =
+        typeof tag === "string" && Object.hasOwn(variants, tag)
+          ? variants[tag]
+          : undefined;
+      if (variant === undefined) {
+        return err(
+          decodeError([...path, key], expectedTag, tag, describeLiteral(tag))
+        );
+      }
+      return variant.decode(input, path) as Result<Infer<M[keyof M]>, DecodeError>;
+    },
+  };
+}
+
+/**
+ * Adds a check on top of a decoder. `expected` describes the constraint
+ * for error messages, e.g. "positive number".
+ */
+export function refine<T, U extends T = T>(
+  decoder: Decoder<T>,
+  predicate: ((value: T) => value is U) | ((value: T) => boolean),
+  expected: string
+): Decoder<U> {
+  return {
+    expected,
+    decode: (input, path = []) => {
+      const result = decoder.decode(input, path);
+      if (isErr(result)) {
+        return result;
+      }
+      if (!predicate(result.value)) {
+        return err(decodeError(path, expected, input, describeLiteral(input)));
+      }
+      return ok(result.value as U);
+    },
+  };
+}
+
+/**
+ * Transforms the decoded value. The function must not throw; use refine
+ * for checks that can fail.
+ */
+export function map<T, U>(decoder: Decoder<T>, fn: (value: T) => U): Decoder<U> {
+  return {
+    expected: decoder.expected,
+    decode: (input, path = []) => {
+      const result = decoder.decode(input, path);
+      if (isErr(result)) {
+        return result;
+      }
+      return ok(fn(result.value));
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { ok, err, type Result } from "./result";
+import { tryCatch } from "./conversions";
+import { pipe } from "./function";
+import {
+  taggedError,
+  contextError,
+  withContext,
+  toError,
+  causes,
+  rootCause,
+  formatErrorChain,
+  matchError,
+  type ContextError,
+} from "./errors";
+
+const NotFound = taggedError("NotFound", (fields: { id: string }) => `No record ${fields.id}`);
+const Forbidden = taggedError("Forbidden");
+
+type LookupError = ReturnType<typeof NotFound> | ReturnType<typeof Forbidden>;
+
+describe("Errors", () => {
+  describe("taggedError", () => {
+    it("should create an Error carrying the tag and fields", () => {
+      const error = NotFound({ id: "42" });
+      expect(error).toBeInstanceOf(Error);
+      expect(error._tag).toBe("NotFound");
+      expect(error.name).toBe("NotFound");
+      expect(error.id).toBe("42");
+      expect(error.message).toBe("No record 42");
+      expect(error.stack).toBeDefined();
+    });
+
+    it("should default the message to the tag for errors without fields", () => {
+      const error = Forbidden();
+      expect(error._tag).toBe("Forbidden");
+      expect(error.message).toBe("Forbidden");
+    });
+
+    it("should keep the cause", () => {
+      const cause = new Error("connection reset");
+      expect(NotFound({ id: "1" }, { cause }).cause).toBe(cause);
+    });
+
+    it("is should recognize only errors of its own tag", () => {
+      expect(NotFound.is(NotFound({ id: "1" }))).toBe(true);
+      expect(NotFound.is(Forbidden())).toBe(false);
+      expect(NotFound.is({ _tag: "NotFound", id: "1" })).toBe(false);
+      expect(NotFound.tag).toBe("NotFound");
+    });
+
+    it("should type the fields", () => {
+      expectTypeOf(NotFound({ id: "1" })).toHaveProperty("id").toEqualTypeOf<string>();
+      expectTypeOf(NotFound({ id: "1" })._tag).toEqualTypeOf<"NotFound">();
+    });
+  });
+
+  describe("withContext", () => {
+    it("should wrap the error and keep it as cause", () => {
+      const result: Result<number, string> = err("disk full");
+      const wrapped = withContext(result, "Saving report");
+      expect(wrapped._tag).toBe("Err");
+      if (wrapped._tag === "Err") {
+        expect(wrapped.error._tag).toBe("ContextError");
+        expect(wrapped.error.message).toBe("Saving report");
+        expect(wrapped.error.cause).toBe("disk full");
+      }
+    });
+
+    it("should build the message from the error in the data-last form", () => {
+      const wrapped = pipe(
+        err<string, number>("disk full"),
+        withContext((error: string) => `Saving report (${error})`)
+      );
+      expectTypeOf(wrapped).toEqualTypeOf<Result<number, ContextError<string>>>();
+      if (wrapped._tag === "Err") {
+        expect(wrapped.error.message).toBe("Saving report (disk full)");
+      }
+    });
+
+    it("should leave Ok untouched", () => {
+      expect(withContext(ok(1), "unused")).toEqual(ok(1));
+    });
+  });
+
+  describe("Cause chains", () => {
+    const root = new Error("ECONNRESET");
+    const middle = NotFound({ id: "7" }, { cause: root });
+    const outer = contextError("Loading user 7", middle);
+
+    it("causes should list the chain nearest first", () => {
+      expect(causes(outer)).toEqual([middle, root]);
+      expect(causes(root)).toEqual([]);
+    });
+
+    it("rootCause should return the innermost cause", () => {
+      expect(rootCause(outer)).toBe(root);
+      expect(rootCause(root)).toBe(root);
+    });
+
+    it("causes should stop on a cycle", () => {
+      const a = new Error("a");
+      const b = new Error("b", { cause: a });
+      a.cause = b;
+      expect(causes(a)).toEqual([b]);
+    });
+
+    it("formatErrorChain should render one line per error", () => {
+      expect(formatErrorChain(outer)).toBe(
+        "Loading user 7\n  caused by: No record 7\n  caused by: ECONNRESET"
+      );
+    });
+
+    it("toError should keep the thrown value as cause", () => {
+      const error = toError({ code: 42 });
+      expect(error.message).toBe("[object Object]");
+      expect(error.cause).toEqual({ code: 42 });
+      expect(toError(root)).toBe(root);
+    });
+
+    it("tryCatch with a mapper should produce a domain error with the cause", () => {
+      const result = tryCatch(
+        () => JSON.parse("{") as unknown,
+        (cause) => NotFound({ id: "config" }, { cause })
+      );
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error._tag).toBe("NotFound");
+        expect(rootCause(result.error)).toBeInstanceOf(SyntaxError);
+      }
+    });
+  });
+
+  describe("matchError", () => {
+    const toStatus = (error: LookupError): number =>
+      matchError(error, {
+        NotFound: (e) => (e.id === "" ? 400 : 404),
+        Forbidden: () => 403,
+      });
+
+    it("should call the handler for the error's tag", () => {
+      expect(toStatus(NotFound({ id: "1" }))).toBe(404);
+      expect(toStatus(NotFound({ id: "" }))).toBe(400);
+      expect(toStatus(Forbidden())).toBe(403);
+    });
+
+    it("should support the data-last form", () => {
+      const summarize = matchError<LookupError, string>({
+        NotFound: (e) => `missing ${e.id}`,
+        Forbidden: () => "forbidden",
+      });
+      expect(summarize(NotFound({ id: "9" }))).toBe("missing 9");
+    });
+
+    it("should require a handler for every tag", () => {
+      const incomplete = (error: LookupError): number =>
+        // @ts-expect-error missing the Forbidden handler
+        matchError(error, {
+          NotFound: () => 0,
+        });
+      expect(() => incomplete(Forbidden())).toThrow(TypeError);
+    });
+
+    it("should not take a handler from Object.prototype", () => {
+      type Inherited = { readonly _tag: "toString" } | { readonly _tag: "constructor" };
+      const name = (error: Inherited): string =>
+        // @ts-expect-error missing both handlers
+        matchError(error, {});
+      expect(() => name({ _tag: "toString" })).toThrow("No handler for _tag \"toString\"");
+      expect(() => name({ _tag: "constructor" })).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { type Result, mapErr } from "./result";
+import { dual } from "./function";
+
+type NoFields = Record<never, never>;
+
+/**
+ * An Error whose kind is identified by `_tag`, carrying the fields a caller
+ * needs to handle it. Being a real Error, it keeps a stack trace and an
+ * optional `cause`, so wrapping one error in another loses nothing.
+ *
+ * A union of tagged errors can be handled exhaustively with matchError.
+ */
+export type TaggedError<Tag extends string, Fields extends object = NoFields> = Error &
+  Readonly<Fields> & { readonly _tag: Tag };
+
+// Errors without fields can be created with no arguments at all.
+type TaggedErrorArgs<Fields extends object> = keyof Fields extends never
+  ? [fields?: Fields, options?: ErrorOptions]
+  : [fields: Fields, options?: ErrorOptions];
+
+/**
+ * Creates TaggedErrors of one kind. `is` recognizes them among unknown
+ * values, e.g. in a catch block.
+ */
+export interface TaggedErrorConstructor<Tag extends string, Fields extends object> {
+  (...args: TaggedErrorArgs<Fields>): TaggedError<Tag, Fields>;
+  readonly tag: Tag;
+  readonly is: (value: unknown) => value is TaggedError<Tag, Fields>;
+}
+
+/**
+ * Defines a kind of TaggedError. The fields are taken from the parameter
+ * of `message`, which builds the error message from them.
+ *
+ * ```ts
+ * const NotFound = taggedError("NotFound", (f: { id: string }) => `No record ${f.id}`);
+ * const error = NotFound({ id: "42" }, { cause: dbError });
+ * error._tag; // "NotFound"
+ * error.id;   // "42"
+ * ```
+ */
+export function taggedError<const Tag extends string, Fields extends object = NoFields>(
+  tag: Tag,
+  message: (fields: Fields) => string = () => tag
+): TaggedErrorConstructor<Tag, Fields> {
+  const construct = (...args: TaggedErrorArgs<Fields>): TaggedError<Tag, Fields> => {
+    const [fields = {} as Fields, options] = args;
+    const error = new Error(message(fields), options);
+    error.name = tag;
+    return Object.assign(error, fields, { _tag: tag });
+  };
+  const is = (value: unknown): value is TaggedError<Tag, Fields> =>
+    value instanceof Error && "_tag" in value && value._tag === tag;
+  return Object.assign(construct, { tag, is });
+}
+
+/**
+ * Wraps an error with a message describing what was being attempted. The
+ * original error is kept as `cause`.
+ */
+export interface ContextError<E> extends Error {
+  readonly _tag: "ContextError";
+  readonly cause: E;
+}
+
+/**
+ * Creates a ContextError wrapping the given cause.
+ */
+export function contextError<E>(message: string, cause: E): ContextError<E> {
+  const error = new Error(message, { cause });
+  error.name = "ContextError";
+  return Object.assign(error, { _tag: "ContextError" as const, cause });
+}
+
+/**
+ * Wraps the error of an Err in a ContextError, so a low-level failure
+ * reads as part of the operation that hit it. Leaves Ok values untouched.
+ *
+ * ```ts
+ * withContext(readConfig(path), (e) => `Loading config from ${path}`);
+ * ```
+ */
+export function withContext<T, E>(
+  result: Result<T, E>,
+  message: string | ((error: E) => string)
+): Result<T, ContextError<E>>;
+export function withContext<E>(
+  message: string | ((error: E) => string)
+): <T>(result: Result<T, E>) => Result<T, ContextError<E>>;
+export function withContext(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E>(
+      result: Result<T, E>,
+      message: string | ((error: E) => string)
+    ): Result<T, ContextError<E>> =>
+      mapErr(result, (error) =>
+        contextError(typeof message === "string" ? message : message(error), error)
+      )
+  );
+}
+
+/**
+ * Converts a thrown value to an Error. Errors are returned as-is; anything
+ * else is wrapped, with the original kept as `cause`.
+ */
+export function toError(thrown: unknown): Error {
+  if (thrown instanceof Error) {
+    return thrown;
+  }
+  return new Error(String(thrown), { cause: thrown });
+}
+
+/**
+ * Lists the causes of an error, nearest first, by following `cause`.
+ * The error itself is not included. Stops if the chain loops.
+ */
+export function causes(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>([error]);
+  let current = error;
+  while (current instanceof Error && current.cause !== undefined) {
+    current = current.cause;
+    if (seen.has(current)) {
+      break;
+    }
+    seen.add(current);
+    chain.push(current);
+  }
+  return chain;
+}
+
+/**
+ * Returns the innermost cause of an error, or the error itself when it has
+ * no cause.
+ */
+export function rootCause(error: unknown): unknown {
+  return causes(error).at(-1) ?? error;
+}
+
+/**
+ * Renders an error and its causes, one per line:
+ *
+ * ```text
+ * Loading config from app.json
+ *   caused by: Unexpected token } in JSON at position 12
+ * ```
+ */
+export function formatErrorChain(error: unknown): string {
+  const describe = (value: unknown): string =>
+    value instanceof Error ? value.message : String(value);
+  return [error, ...causes(error)]
+    .map((value, index) => (index === 0 ? describe(value) : `  caused by: ${describe(value)}`))
+    .join("\n");
+}
+
+/**
+ * One handler per `_tag` of the error union E. Each handler receives the
+ * variant with that tag.
+ */
+export type ErrorHandlers<E extends { readonly _tag: string }, U> = {
+  readonly [K in E["_tag"]]: (error: Extract<E, { readonly _tag: K }>) => U;
+};
+
+/**
+ * Matches on the `_tag` of an error. Every tag in the union must have a
+ * handler, so adding a new error kind is a compile error until it is
+ * handled.
+ *
+ * ```ts
+ * matchError(error, {
+ *   NotFound: (e) => 404,
+ *   Forbidden: (e) => 403,
+ * });
+ * ```
+ */
+export function matchError<E extends { readonly _tag: string }, U>(
+  error: E,
+  handlers: ErrorHandlers<E, U>
+): U;
+export function matchError<E extends { readonly _tag: string }, U>(
+  handlers: ErrorHandlers<E, U>
+): (error: E) => U;
+export function matchError(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <E extends { readonly _tag: string }, U>(
+      error: E,
+      handlers: ErrorHandlers<E, U>
+    ): U => {
+      // Only the handlers' own keys count, so a tag such as "toString"
+      // does not pick up a method from Object.prototype.
+      const handler = Object.hasOwn(handlers, error._tag)
+        ? (handlers[error._tag as E["_tag"]] as (error: E) => U)
+        : undefined;
+      if (handler === undefined) {
+        throw new TypeError(`No handler for _tag ${JSON.stringify(error._tag)}`);
+      }
+      return handler(error);
+    }
+  );
+}
@@ -0,0 +1,38 @@
+import mustUseResult from "./rules/must-use-result.js";
+import noUnwrap from "./rules/no-unwrap.js";
+import noTagComparison from "./rules/no-tag-comparison.js";
+
+/**
+ * Lint rules for code using Option and Result. All three rules need type
+ * information, so enable them together with parserOptions.projectService:
+ *
+ * ```js
+ * import resultPlugin from "./playground/result-option-types/eslint-plugin/index.js";
+ *
+ * {
+ *   files: ["**\/*.ts"],
+ *   languageOptions: { parserOptions: { projectService: true } },
+ *   plugins: { result: resultPlugin },
+ *   rules: resultPlugin.configs.recommended.rules,
+ * }
+ * ```
+ */
+const plugin = {
+  meta: { name: "result-option-types" },
+  rules: {
+    "must-use-result": mustUseResult,
+    "no-unwrap": noUnwrap,
+    "no-tag-comparison": noTagComparison,
+  },
+  configs: {
+    recommended: {
+      rules: {
+        "result/must-use-result": "error",
+        "result/no-unwrap": "error",
+        "result/no-tag-comparison": "error",
+      },
+    },
+  },
+};
+
+export default plugin;
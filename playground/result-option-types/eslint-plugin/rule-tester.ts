@@ -0,0 +1,29 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, it } from "vitest";
+import { RuleTester } from "eslint";
+import tsParser from "@typescript-eslint/parser";
+
+// The first case in each file builds a TypeScript program, which can take
+// longer than vitest's default 5 seconds on a slow machine.
+const TYPE_AWARE_TIMEOUT = 30_000;
+
+RuleTester.describe = describe;
+RuleTester.it = (name: string, test: () => void) => it(name, test, TYPE_AWARE_TIMEOUT);
+RuleTester.itOnly = (name: string, test: () => void) => it.only(name, test, TYPE_AWARE_TIMEOUT);
+
+// Test code is linted as if it were a file next to result.ts, so it can
+// import the real Option and Result and be type-checked against them.
+const packageDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+
+export const fixture = (name: string): string => path.join(packageDir, name);
+
+export const ruleTester = new RuleTester({
+  languageOptions: {
+    parser: tsParser,
+    parserOptions: {
+      projectService: { allowDefaultProject: ["*.ts"] },
+      tsconfigRootDir: packageDir,
+    },
+  },
+});
@@ -0,0 +1,47 @@
+import { RESULT_TAGS, getTypeServices, hasTags } from "../types.js";
+
+/**
+ * Reports statements that compute a Result, or a promise of one, and
+ * drop it. A dropped Err is an error nobody handled. Prefix the call with
+ * `void` to discard a Result on purpose.
+ *
+ * @type {import("eslint").Rule.RuleModule}
+ */
+export default {
+  meta: {
+    type: "problem",
+    docs: {
+      description: "Require Result values to be used",
+    },
+    messages: {
+      mustUse:
+        "This Result is discarded, so an Err would go unnoticed. Handle it, return it, " +
+        "or write `void` to discard it on purpose.",
+    },
+    schema: [],
+  },
+  create(context) {
+    const { checker, typeOf } = getTypeServices(context);
+
+    const isResult = (node) => {
+      const type = typeOf(node);
+      // Optional calls add undefined to the type of the Result they return.
+      const awaited = checker.getNonNullableType(checker.getAwaitedType(type) ?? type);
+      return hasTags(checker, awaited, RESULT_TAGS);
+    };
+
+    return {
+      ExpressionStatement(statement) {
+        const { expression } = statement;
+        const checked =
+          expression.type === "CallExpression" ||
+          expression.type === "NewExpression" ||
+          expression.type === "AwaitExpression" ||
+          expression.type === "ChainExpression";
+        if (checked && isResult(expression)) {
+          context.report({ node: expression, messageId: "mustUse" });
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,53 @@
+import { fixture, ruleTester } from "../rule-tester";
+import rule from "./must-use-result.js";
+
+const filename = fixture("must-use-result.fixture.ts");
+const imports = `import { ok, err, map, type Result } from "./result";
+import { okAsync } from "./async-result";
+declare function save(value: number): Result<number, string>;
+`;
+
+ruleTester.run("must-use-result", rule, {
+  valid: [
+    { filename, code: `${imports}const saved = save(1);` },
+    { filename, code: `${imports}function f() { return save(1); }` },
+    { filename, code: `${imports}void save(1);` },
+    { filename, code: `${imports}async function f() { const r = await okAsync(1); return r; }` },
+    { filename, code: `${imports}[1, 2].forEach((n) => console.log(n));` },
+    { filename, code: "declare function tag(): { _tag: string }; tag();" },
+  ],
+  invalid: [
+    { filename, code: `${imports}save(1);`, errors: [{ messageId: "mustUse" }] },
+    { filename, code: `${imports}map(ok(1), (n) => n + 1);`, errors: [{ messageId: "mustUse" }] },
+    { filename, code: `${imports}err("boom");`, errors: [{ messageId: "mustUse" }] },
+    {
+      filename,
+      code: `${imports}async function f() { await okAsync(1); }`,
+      errors: [{ messageId: "mustUse" }],
+    },
+    {
+      filename,
+      code: `${imports}okAsync(1);`,
+      errors: [{ messageId: "mustUse" }],
+    },
+    {
+      name: "an awaited call whose Result is dropped",
+      filename,
+      code: `${imports}declare function retry(): () => Promise<Result<number, string>>;
+async function f() { await retry()(); }`,
+      errors: [{ messageId: "mustUse" }],
+    },
+    {
+      name: "a generator block whose Result is dropped",
+      filename,
+      code: `import { gen, bind, err } from "./result";
+gen(function* () { return yield* bind(err("e")); });`,
+      errors: [{ messageId: "mustUse" }],
+    },
+    {
+      filename,
+      code: `${imports}declare const api: { save?: typeof save }; api.save?.(1);`,
+      errors: [{ messageId: "mustUse" }],
+    },
+  ],
+});
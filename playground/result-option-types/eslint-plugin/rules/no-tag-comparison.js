@@ -0,0 +1,61 @@
+import { OPTION_TAGS, RESULT_TAGS, getTypeServices, hasTags } from "../types.js";
+
+const GUARDS = { Ok: "isOk", Err: "isErr", Some: "isSome", None: "isNone" };
+const EQUALITY = ["===", "!==", "==", "!="];
+
+/**
+ * Reports comparisons such as `result._tag === "Ok"` on Options and
+ * Results. The type guards say the same thing, narrow the same way, and
+ * keep the representation private to the modules that define it.
+ *
+ * @type {import("eslint").Rule.RuleModule}
+ */
+export default {
+  meta: {
+    type: "suggestion",
+    docs: {
+      description: "Require isOk, isErr, isSome and isNone instead of comparing _tag",
+    },
+    messages: {
+      useGuard: "Use {{guard}}({{value}}) instead of comparing _tag with \"{{tag}}\".",
+    },
+    schema: [],
+  },
+  create(context) {
+    const { checker, typeOf } = getTypeServices(context);
+
+    const tagAccess = (node) =>
+      node.type === "MemberExpression" &&
+      !node.computed &&
+      node.property.type === "Identifier" &&
+      node.property.name === "_tag"
+        ? node
+        : undefined;
+
+    return {
+      BinaryExpression(node) {
+        if (!EQUALITY.includes(node.operator)) {
+          return;
+        }
+        const access = tagAccess(node.left) ?? tagAccess(node.right);
+        const literal = access === node.left ? node.right : node.left;
+        if (access === undefined || literal.type !== "Literal" || !Object.hasOwn(GUARDS, literal.value)) {
+          return;
+        }
+        const type = typeOf(access.object);
+        if (hasTags(checker, type, RESULT_TAGS) || hasTags(checker, type, OPTION_TAGS)) {
+          const negated = node.operator.startsWith("!");
+          context.report({
+            node,
+            messageId: "useGuard",
+            data: {
+              guard: `${negated ? "!" : ""}${GUARDS[literal.value]}`,
+              value: context.sourceCode.getText(access.object),
+              tag: literal.value,
+            },
+          });
+        }
+      },
+    };
+  },
+};
@@ -0,0 +1,54 @@
+import { fixture, ruleTester } from "../rule-tester";
+import rule from "./no-tag-comparison.js";
+
+const filename = fixture("no-tag-comparison.fixture.ts");
+const imports = `import { type Result, isOk } from "./result";
+import { type Option } from "./option";
+declare const result: Result<number, string>;
+declare const option: Option<number>;
+`;
+
+ruleTester.run("no-tag-comparison", rule, {
+  valid: [
+    { filename, code: `${imports}if (isOk(result)) {}` },
+    {
+      name: "a tagged union that is not Option or Result",
+      filename,
+      code: "declare const event: { _tag: \"Ok\" } | { _tag: \"Failed\" }; event._tag === \"Ok\";",
+    },
+    {
+      name: "a tag that is not a variant",
+      filename,
+      code: `${imports}(result._tag as string) === "Pending";`,
+    },
+    { filename, code: `${imports}switch (option._tag) { case "Some": break; }` },
+    {
+      name: "a tag named like an Object.prototype key",
+      filename,
+      code: `${imports}(result._tag as string) === "toString" || option._tag === "constructor";`,
+    },
+  ],
+  invalid: [
+    {
+      filename,
+      code: `${imports}if (result._tag === "Ok") {}`,
+      errors: [{ messageId: "useGuard", data: { guard: "isOk", value: "result", tag: "Ok" } }],
+    },
+    {
+      filename,
+      code: `${imports}if ("Err" == result._tag) {}`,
+      errors: [{ messageId: "useGuard", data: { guard: "isErr", value: "result", tag: "Err" } }],
+    },
+    {
+      filename,
+      code: `${imports}const missing = option._tag !== "Some";`,
+      errors: [{ messageId: "useGuard", data: { guard: "!isSome", value: "option", tag: "Some" } }],
+    },
+    {
+      name: "a narrowed variant",
+      filename,
+      code: `${imports}if (isOk(result) && result._tag === "Ok") {}`,
+      errors: [{ messageId: "useGuard" }],
+    },
+  ],
+});
@@ -0,0 +1,57 @@
+import ts from "typescript";
+import { getTypeServices } from "../types.js";
+
+const TEST_FILE = /\.(test|spec)\.[cm]?[jt]sx?$/;
+const RESULT_MODULE = /[\\/]result\.ts$/;
+
+/**
+ * Reports calls to Result's `unwrap`, which throws on Err. Tests may call
+ * it, since a throw there is a failing test; elsewhere, unwrapOr,
+ * unwrapOrElse or match handle the Err instead. The function is found
+ * through the type checker, so renamed imports and namespace imports are
+ * reported too.
+ *
+ * @type {import("eslint").Rule.RuleModule}
+ */
+export default {
+  meta: {
+    type: "problem",
+    docs: {
+      description: "Disallow Result's unwrap outside test files",
+    },
+    messages: {
+      noUnwrap:
+        "unwrap throws on Err. Use unwrapOr, unwrapOrElse or match, or expect with a " +
+        "message if an Err is truly impossible here.",
+    },
+    schema: [],
+  },
+  create(context) {
+    if (TEST_FILE.test(context.filename)) {
+      return {};
+    }
+    const { checker, tsNodeOf } = getTypeServices(context);
+
+    const isUnwrap = (callee) => {
+      let symbol = checker.getSymbolAtLocation(tsNodeOf(callee));
+      if (symbol !== undefined && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+      return (
+        symbol?.getName() === "unwrap" &&
+        (symbol.getDeclarations() ?? []).some((declaration) =>
+          RESULT_MODULE.test(declaration.getSourceFile().fileName)
+        )
+      );
+    };
+
+    return {
+      CallExpression(node) {
+        const callee = node.callee.type === "MemberExpression" ? node.callee.property : node.callee;
+        if (isUnwrap(callee)) {
+          context.report({ node, messageId: "noUnwrap" });
+        }
+      },
+    };
+  },
+};
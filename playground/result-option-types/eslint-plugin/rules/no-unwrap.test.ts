@@ -0,0 +1,42 @@
+import { fixture, ruleTester } from "../rule-tester";
+import rule from "./no-unwrap.js";
+
+const filename = fixture("no-unwrap.fixture.ts");
+
+ruleTester.run("no-unwrap", rule, {
+  valid: [
+    {
+      filename,
+      code: "import { ok, unwrapOr } from \"./result\"; unwrapOr(ok(1), 0);",
+    },
+    {
+      name: "unwrap in a test file",
+      filename: fixture("no-unwrap.fixture.test.ts"),
+      code: "import { ok, unwrap } from \"./result\"; unwrap(ok(1));",
+    },
+    {
+      name: "an unrelated function called unwrap",
+      filename,
+      code: "const unwrap = (box: { value: number }) => box.value; unwrap({ value: 1 });",
+    },
+  ],
+  invalid: [
+    {
+      filename,
+      code: "import { ok, unwrap } from \"./result\"; unwrap(ok(1));",
+      errors: [{ messageId: "noUnwrap" }],
+    },
+    {
+      name: "renamed import through the barrel",
+      filename,
+      code: "import { ok, unwrap as get } from \"./index\"; get(ok(1));",
+      errors: [{ messageId: "noUnwrap" }],
+    },
+    {
+      name: "namespace import",
+      filename,
+      code: "import * as R from \"./result\"; R.unwrap(R.ok(1));",
+      errors: [{ messageId: "noUnwrap" }],
+    },
+  ],
+});
@@ -0,0 +1,51 @@
+// Type checks shared by the rules. Option and Result are recognized by
+// shape rather than by name, so aliases, re-exports and narrowed variants
+// such as Ok<T> are all found.
+
+export const RESULT_TAGS = ["Ok", "Err"];
+export const OPTION_TAGS = ["Some", "None"];
+
+/**
+ * Returns the parser services of a type-aware parse, or throws if the
+ * file was parsed without type information.
+ *
+ * @param {import("eslint").Rule.RuleContext} context
+ */
+export function getTypeServices(context) {
+  const services = context.sourceCode.parserServices;
+  if (!services?.program || !services.esTreeNodeToTSNodeMap) {
+    throw new Error(
+      `Rule "${context.id}" needs type information. Lint with @typescript-eslint/parser ` +
+        "and set parserOptions.projectService."
+    );
+  }
+  const checker = services.program.getTypeChecker();
+  /** @param {import("estree").Node} node */
+  const tsNodeOf = (node) => services.esTreeNodeToTSNodeMap.get(node);
+  return {
+    checker,
+    tsNodeOf,
+    /** @param {import("estree").Node} node */
+    typeOf: (node) => checker.getTypeAtLocation(tsNodeOf(node)),
+  };
+}
+
+/**
+ * Whether every member of the type has a `_tag` that is one of the given
+ * string literals.
+ *
+ * @param {import("typescript").TypeChecker} checker
+ * @param {import("typescript").Type} type
+ * @param {readonly string[]} tags
+ */
+export function hasTags(checker, type, tags) {
+  const members = type.isUnion() ? type.types : [type];
+  return members.every((member) => {
+    const tag = member.getProperty("_tag");
+    if (tag === undefined) {
+      return false;
+    }
+    const tagType = checker.getTypeOfSymbol(tag);
+    return tagType.isStringLiteral() && tags.includes(tagType.value);
+  });
+}
@@ -1,6 +1,7 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf } from "vitest";
 import { some, none } from "./option";
-import { ok } from "./result";
+import { type Result, ok, err, unwrap } from "./result";
+import { object, number } from "./decoder";
 import {
   first,
   last,
@@ -10,11 +11,16 @@ import {
   validateEmail,
   validateRange,
   validateNonEmpty,
+  validatePort,
   validateUserRegistration,
+  validateUserRegistrationAll,
   getDatabaseHost,
   getDatabasePort,
   parseCoordinates,
   type Config,
+  type Email,
+  type NonEmptyString,
+  type PortNumber,
 } from "./examples";
 
 describe("Examples", () => {
@@ -38,10 +44,18 @@ describe("Examples", () => {
     });
 
     it("parseJSON handles valid and invalid input", () => {
-      expect(parseJSON<{ a: number }>(`{"a": 1}`)).toEqual(ok({ a: 1 }));
+      expect(parseJSON(`{"a": 1}`)).toEqual(ok({ a: 1 }));
       expect(parseJSON("{invalid}")._tag).toBe("Err");
     });
 
+    it("parseJSON checks the value against a decoder", () => {
+      const decoder = object({ a: number });
+      expect(parseJSON(`{"a": 1}`, decoder)).toEqual(ok({ a: 1 }));
+      expect(parseJSON(`{"a": "1"}`, decoder)).toEqual(
+        err({ _tag: "DecodeError", path: ["a"], expected: "number", actual: "string" })
+      );
+    });
+
     it("parseDate handles valid and invalid input", () => {
       expect(parseDate("2025-01-01")._tag).toBe("Ok");
       expect(parseDate("not-a-date")._tag).toBe("Err");
@@ -64,6 +78,24 @@ describe("Examples", () => {
       expect(validateNonEmpty("hello")).toEqual(ok("hello"));
       expect(validateNonEmpty("   ")._tag).toBe("Err");
     });
+
+    it("validatePort accepts integers from 1 to 65535", () => {
+      expect(validatePort(1)).toEqual(ok(1));
+      expect(validatePort(65535)).toEqual(ok(65535));
+      expect(validatePort(0)).toEqual(err("Invalid port number: 0"));
+      expect(validatePort(65536)._tag).toBe("Err");
+      expect(validatePort(80.5)._tag).toBe("Err");
+    });
+
+    it("should return branded types that plain values cannot stand in for", () => {
+      expectTypeOf(validateEmail).returns.toEqualTypeOf<Result<Email, string>>();
+      expectTypeOf(validateNonEmpty).returns.toEqualTypeOf<
+        Result<NonEmptyString, string>
+      >();
+      expectTypeOf(validatePort).returns.toEqualTypeOf<Result<PortNumber, string>>();
+      expectTypeOf<string>().not.toMatchTypeOf<Email>();
+      expectTypeOf<Email>().not.toMatchTypeOf<NonEmptyString>();
+    });
   });
 
   describe("Railway-Oriented Programming", () => {
@@ -74,13 +106,33 @@ describe("Examples", () => {
 
       // First failure in chain stops propagation
       expect(validateUserRegistration("invalid", "25", "johndoe")._tag).toBe("Err");
+      expect(validateUserRegistration("user@example.com", "7", "")).toEqual(
+        err("Value 7 is below minimum 13")
+      );
+    });
+  });
+
+  describe("Error Accumulation", () => {
+    it("validateUserRegistrationAll reports every invalid field", () => {
+      expect(
+        validateUserRegistrationAll("user@example.com", "25", "johndoe")
+      ).toEqual(ok({ email: "user@example.com", age: 25, username: "johndoe" }));
+
+      expect(validateUserRegistrationAll("invalid", "7", " ")).toEqual(
+        err([
+          `Invalid email format: "invalid"`,
+          "Value 7 is below minimum 13",
+          "String cannot be empty",
+        ])
+      );
     });
   });
 
   describe("Option Chaining", () => {
     it("getDatabaseHost extracts nested optional values", () => {
-      const withHost: Config = { database: { host: "localhost", port: 5432 } };
-      const withoutHost: Config = { database: { port: 5432 } };
+      const port = unwrap(validatePort(5432));
+      const withHost: Config = { database: { host: "localhost", port } };
+      const withoutHost: Config = { database: { port } };
       const empty: Config = {};
 
       expect(getDatabaseHost(withHost)).toEqual(some("localhost"));
@@ -89,11 +141,13 @@ describe("Examples", () => {
     });
 
     it("getDatabasePort provides default for missing values", () => {
-      const withPort: Config = { database: { host: "localhost", port: 3306 } };
+      const port = unwrap(validatePort(3306));
+      const withPort: Config = { database: { host: "localhost", port } };
       const empty: Config = {};
 
       expect(getDatabasePort(withPort)).toBe(3306);
       expect(getDatabasePort(empty)).toBe(5432);
+      expectTypeOf(getDatabasePort).returns.toEqualTypeOf<PortNumber>();
     });
   });
 
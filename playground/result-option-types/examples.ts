@@ -1,6 +1,12 @@
 import { type Option, flatMap as flatMapOption, unwrapOr as unwrapOrOption } from "./option";
-import { type Result, ok, err, flatMap } from "./result";
+import { pipe } from "./function";
+import { type Result, ok, err, flatMap, bind, gen, expect } from "./result";
 import { fromNullable, tryCatch, arrayAt } from "./conversions";
+import { struct, toResult } from "./validation";
+import { type NonEmptyArray } from "./non-empty-array";
+import { type Decoder, type DecodeError, decode } from "./decoder";
+import { type Brand, refine } from "./brand";
+import { type Port } from "./config";
 
 // --- Example 1: Safe Array Access with Option ---
 
@@ -35,9 +41,23 @@ export function safeParseInt(str: string): Result<number, string> {
 /**
  * Attempts to parse a string as JSON.
  * Returns Ok(value) if successful, Err(error) if parsing fails.
+ * Without a decoder the value is unknown; with one, it is checked against
+ * the decoder before being returned as T.
  */
-export function parseJSON<T = unknown>(str: string): Result<T, Error> {
-  return tryCatch(() => JSON.parse(str) as T);
+export function parseJSON(str: string): Result<unknown, Error>;
+export function parseJSON<T>(
+  str: string,
+  decoder: Decoder<T>
+): Result<T, Error | DecodeError>;
+export function parseJSON<T>(
+  str: string,
+  decoder?: Decoder<T>
+): Result<unknown, Error | DecodeError> {
+  const parsed = tryCatch((): unknown => JSON.parse(str));
+  if (decoder === undefined) {
+    return parsed;
+  }
+  return flatMap(parsed, (value) => decode(decoder, value));
 }
 
 /**
@@ -54,17 +74,30 @@ export function parseDate(str: string): Result<Date, string> {
 
 // --- Example 3: Validation with Result ---
 
+/**
+ * A string that has the format of an email address.
+ */
+export type Email = Brand<string, "Email">;
+
+/**
+ * A string with at least one non-whitespace character.
+ */
+export type NonEmptyString = Brand<string, "NonEmptyString">;
+
+/**
+ * An integer that is a valid TCP port, 1 to 65535. The same brand the
+ * config `port` parser produces, so a validated port can be used as one.
+ */
+export type PortNumber = Port;
+
 /**
  * Validates an email address format.
  * Returns Ok(email) if valid, Err(message) if invalid.
  */
-export function validateEmail(email: string): Result<string, string> {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  if (emailRegex.test(email)) {
-    return ok(email);
-  }
-  return err(`Invalid email format: "${email}"`);
-}
+export const validateEmail = refine<Email, string>(
+  (email) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email),
+  (email) => `Invalid email format: "${email}"`
+);
 
 /**
  * Validates that a number is within a range.
@@ -88,12 +121,19 @@ export function validateRange(
  * Validates that a string is not empty.
  * Returns Ok(string) if non-empty, Err(message) if empty.
  */
-export function validateNonEmpty(str: string): Result<string, string> {
-  if (str.trim().length === 0) {
-    return err("String cannot be empty");
-  }
-  return ok(str);
-}
+export const validateNonEmpty = refine<NonEmptyString, string>(
+  (str) => str.trim().length > 0,
+  () => "String cannot be empty"
+);
+
+/**
+ * Validates that a number is a usable port.
+ * Returns Ok(port) if valid, Err(message) if not.
+ */
+export const validatePort = refine<PortNumber, string>(
+  (port) => Number.isInteger(port) && port >= 1 && port <= 65535,
+  (port) => `Invalid port number: ${port}`
+);
 
 // --- Example 4: Railway-Oriented Programming (Chaining Operations) ---
 
@@ -101,32 +141,47 @@ export function validateNonEmpty(str: string): Result<string, string> {
  * Represents a user registration request with validation requirements.
  */
 export interface UserRegistration {
-  readonly email: string;
+  readonly email: Email;
   readonly age: number;
-  readonly username: string;
+  readonly username: NonEmptyString;
 }
 
 /**
  * Validates a complete user registration.
- * Demonstrates chaining multiple validations using flatMap.
+ * Demonstrates sequencing validations with gen: each bind either yields
+ * the valid value or stops at the first failure.
  */
 export function validateUserRegistration(
   email: string,
   ageStr: string,
   username: string
 ): Result<UserRegistration, string> {
-  return flatMap(validateEmail(email), (validEmail) =>
-    flatMap(safeParseInt(ageStr), (age) =>
-      flatMap(validateRange(age, 13, 120), (validAge) =>
-        flatMap(validateNonEmpty(username), (validUsername) =>
-          ok({
-            email: validEmail,
-            age: validAge,
-            username: validUsername,
-          })
-        )
-      )
-    )
+  return gen(function* () {
+    const validEmail = yield* bind(validateEmail(email));
+    const age = yield* bind(safeParseInt(ageStr));
+    const validAge = yield* bind(validateRange(age, 13, 120));
+    const validUsername = yield* bind(validateNonEmpty(username));
+    return { email: validEmail, age: validAge, username: validUsername };
+  });
+}
+
+/**
+ * Validates a complete user registration, reporting every invalid field.
+ * The fields are independent, so they are combined with struct, which
+ * runs all of them; the age field is still a dependent chain of parse and
+ * range check.
+ */
+export function validateUserRegistrationAll(
+  email: string,
+  ageStr: string,
+  username: string
+): Result<UserRegistration, NonEmptyArray<string>> {
+  return toResult(
+    struct({
+      email: validateEmail(email),
+      age: flatMap(safeParseInt(ageStr), (age) => validateRange(age, 13, 120)),
+      username: validateNonEmpty(username),
+    })
   );
 }
 
@@ -138,10 +193,12 @@ export function validateUserRegistration(
 export interface Config {
   readonly database?: {
     readonly host?: string;
-    readonly port?: number;
+    readonly port?: PortNumber;
   };
 }
 
+const DEFAULT_DATABASE_PORT = expect(validatePort(5432), "5432 is a valid port");
+
 /**
  * Safely extracts the database host from a config object.
  * Demonstrates chaining Option operations.
@@ -154,14 +211,15 @@ export function getDatabaseHost(config: Config): Option<string> {
 
 /**
  * Safely extracts the database port with a default value.
+ * Demonstrates the same chain written as a pipeline of data-last calls.
+ * The config only holds ports that were validated, so neither the result
+ * nor the default needs checking again.
  */
-export function getDatabasePort(config: Config): number {
-  return unwrapOrOption(
-    flatMapOption(
-      fromNullable(config.database),
-      (db) => fromNullable(db.port)
-    ),
-    5432
+export function getDatabasePort(config: Config): PortNumber {
+  return pipe(
+    fromNullable(config.database),
+    flatMapOption((db) => fromNullable(db.port)),
+    unwrapOrOption(DEFAULT_DATABASE_PORT)
   );
 }
 
@@ -183,18 +241,13 @@ export function parseCoordinates(
   latStr: string,
   lonStr: string
 ): Result<Coordinates, string> {
-  return flatMap(safeParseFloat(latStr), (lat) =>
-    flatMap(safeParseFloat(lonStr), (lon) =>
-      flatMap(validateRange(lat, -90, 90), (validLat) =>
-        flatMap(validateRange(lon, -180, 180), (validLon) =>
-          ok({
-            latitude: validLat,
-            longitude: validLon,
-          })
-        )
-      )
-    )
-  );
+  return gen(function* () {
+    const lat = yield* bind(safeParseFloat(latStr));
+    const lon = yield* bind(safeParseFloat(lonStr));
+    const latitude = yield* bind(validateRange(lat, -90, 90));
+    const longitude = yield* bind(validateRange(lon, -180, 180));
+    return { latitude, longitude };
+  });
 }
 
 /**
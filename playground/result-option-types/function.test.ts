@@ -0,0 +1,179 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { identity, pipe, flow, dual } from "./function";
+import {
+  type Result,
+  ok,
+  err,
+  some,
+  none,
+  mapResult,
+  mapErr,
+  flatMapResult,
+  unwrapOrResult,
+  matchResult,
+  filterResult,
+  zip,
+  mapOption,
+  flatMapOption,
+  filterOption,
+  unwrapOrOption,
+  optionToResult,
+  mapAsync,
+  flatMapAsync,
+  okAsync,
+  tryCatch,
+} from "./index";
+
+describe("Function utilities", () => {
+  describe("identity", () => {
+    it("should return its argument", () => {
+      fc.assert(
+        fc.property(fc.anything(), (value) => {
+          expect(identity(value)).toBe(value);
+        })
+      );
+    });
+  });
+
+  describe("pipe", () => {
+    it("should return the value when given no functions", () => {
+      expect(pipe(42)).toBe(42);
+    });
+
+    it("should apply functions left to right", () => {
+      const result = pipe(
+        2,
+        (x) => x + 1,
+        (x) => x * 10,
+        (x) => `${x}`
+      );
+      expect(result).toBe("30");
+    });
+  });
+
+  describe("flow", () => {
+    it("should compose functions left to right", () => {
+      const fn = flow(
+        (a: number, b: number) => a + b,
+        (x) => x * 2
+      );
+      expect(fn(1, 2)).toBe(6);
+    });
+
+    it("should agree with pipe", () => {
+      fc.assert(
+        fc.property(fc.integer(), (n) => {
+          const f = (x: number): number => x + 1;
+          const g = (x: number): number => x * 2;
+          expect(flow(f, g)(n)).toBe(pipe(n, f, g));
+        })
+      );
+    });
+  });
+
+  describe("dual", () => {
+    const add = (...args: readonly unknown[]): unknown =>
+      dual(2, args, (a: number, b: number) => a + b);
+
+    it("should run the body when called with all arguments", () => {
+      expect(add(1, 2)).toBe(3);
+    });
+
+    it("should wait for the data when called with fewer arguments", () => {
+      const addTwo = add(2) as (a: number) => number;
+      expect(addTwo(1)).toBe(3);
+    });
+  });
+
+  describe("Data-last combinators in pipelines", () => {
+    interface User {
+      readonly name: string;
+    }
+
+    const validate = (value: unknown): Result<User, string> =>
+      typeof value === "object" &&
+      value !== null &&
+      typeof (value as { name?: unknown }).name === "string"
+        ? ok(value as User)
+        : err("Not a user");
+
+    const normalize = (user: User): User => ({
+      name: user.name.trim().toLowerCase(),
+    });
+
+    const parseUser = (input: string): Result<User, Error | string> =>
+      pipe(
+        tryCatch((): unknown => JSON.parse(input)),
+        flatMapResult(validate),
+        mapResult(normalize)
+      );
+
+    it("should run a Result pipeline to Ok", () => {
+      expect(parseUser(`{"name": "  Ada "}`)).toEqual(ok({ name: "ada" }));
+    });
+
+    it("should short-circuit a Result pipeline on Err", () => {
+      expect(parseUser(`{"age": 3}`)).toEqual(err("Not a user"));
+      expect(parseUser("{")._tag).toBe("Err");
+    });
+
+    it("should match data-first and data-last forms for Result", () => {
+      const result = ok<number, string>(5);
+      expect(pipe(result, mapResult((x) => x + 1))).toEqual(
+        mapResult(result, (x) => x + 1)
+      );
+      expect(pipe(err<string, number>("e"), mapErr((e) => e.length))).toEqual(
+        err(1)
+      );
+      expect(pipe(result, unwrapOrResult(0))).toBe(5);
+      expect(
+        pipe(
+          result,
+          filterResult(
+            (x) => x > 10,
+            (x) => `${x} too small`
+          )
+        )
+      ).toEqual(err("5 too small"));
+      expect(pipe(result, zip(ok("a")))).toEqual(ok([5, "a"]));
+      expect(
+        pipe(
+          result,
+          matchResult({ ok: (x) => `ok ${x}`, err: (e) => `err ${e}` })
+        )
+      ).toBe("ok 5");
+    });
+
+    it("should run an Option pipeline", () => {
+      const summarize = (value: number | undefined): string =>
+        pipe(
+          value === undefined ? none<number>() : some(value),
+          filterOption((x) => x > 0),
+          mapOption((x) => x * 2),
+          flatMapOption((x) => (x < 100 ? some(`${x}`) : none())),
+          unwrapOrOption("nothing")
+        );
+
+      expect(summarize(5)).toBe("10");
+      expect(summarize(-1)).toBe("nothing");
+      expect(summarize(undefined)).toBe("nothing");
+      expect(summarize(60)).toBe("nothing");
+    });
+
+    it("should convert between types inside a pipeline", () => {
+      expect(pipe(none<number>(), optionToResult("missing"))).toEqual(
+        err("missing")
+      );
+    });
+
+    it("should run an AsyncResult pipeline", async () => {
+      const result = await pipe(
+        okAsync(2),
+        mapAsync(async (x) => x + 1),
+        flatMapAsync((x) => (x > 2 ? ok(x * 10) : err("too small")))
+      );
+      expect(result).toEqual(ok(30));
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Returns its argument unchanged.
+ */
+export function identity<T>(value: T): T {
+  return value;
+}
+
+/**
+ * Threads a value through a sequence of functions, left to right.
+ * pipe(a, f, g) is g(f(a)). Combine with the data-last form of the
+ * combinators to read a pipeline top to bottom instead of inside out.
+ */
+export function pipe<A>(a: A): A;
+export function pipe<A, B>(a: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): D;
+export function pipe<A, B, C, D, E>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): E;
+export function pipe<A, B, C, D, E, F>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+  a: A,
+  ab: (a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): J;
+export function pipe(
+  value: unknown,
+  ...fns: ReadonlyArray<(value: unknown) => unknown>
+): unknown {
+  return fns.reduce((acc, fn) => fn(acc), value);
+}
+
+/**
+ * Composes functions left to right into a new function.
+ * flow(f, g)(a) is g(f(a)). The first function may take any arguments;
+ * the rest are unary.
+ */
+export function flow<A extends readonly unknown[], B>(
+  ab: (...a: A) => B
+): (...a: A) => B;
+export function flow<A extends readonly unknown[], B, C>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C
+): (...a: A) => C;
+export function flow<A extends readonly unknown[], B, C, D>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D
+): (...a: A) => D;
+export function flow<A extends readonly unknown[], B, C, D, E>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E
+): (...a: A) => E;
+export function flow<A extends readonly unknown[], B, C, D, E, F>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F
+): (...a: A) => F;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G
+): (...a: A) => G;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H
+): (...a: A) => H;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I
+): (...a: A) => I;
+export function flow<A extends readonly unknown[], B, C, D, E, F, G, H, I, J>(
+  ab: (...a: A) => B,
+  bc: (b: B) => C,
+  cd: (c: C) => D,
+  de: (d: D) => E,
+  ef: (e: E) => F,
+  fg: (f: F) => G,
+  gh: (g: G) => H,
+  hi: (h: H) => I,
+  ij: (i: I) => J
+): (...a: A) => J;
+export function flow(
+  first: (...args: unknown[]) => unknown,
+  ...rest: ReadonlyArray<(value: unknown) => unknown>
+): (...args: unknown[]) => unknown {
+  return (...args) => rest.reduce((acc, fn) => fn(acc), first(...args));
+}
+
+/**
+ * Dispatches a combinator between its data-first and data-last forms.
+ * `arity` is the number of arguments of the data-first form, whose first
+ * argument is the data. When called with fewer arguments the combinator
+ * returns a function that waits for the data, so `map(result, fn)` and
+ * `map(fn)(result)` run the same body.
+ *
+ * The overload signatures of the calling combinator carry the types; this
+ * helper only moves arguments around.
+ */
+export function dual(
+  arity: number,
+  args: readonly unknown[],
+  body: (...args: never[]) => unknown
+): unknown {
+  const run = body as (...args: readonly unknown[]) => unknown;
+  if (args.length >= arity) {
+    return run(...args);
+  }
+  return (data: unknown) => run(data, ...args);
+}
@@ -1,9 +1,29 @@
 // Re-export all public APIs for convenient importing
 
+export { identity, pipe, flow } from "./function";
+
+export {
+  type Eq,
+  type Ord,
+  type Hash,
+  type Ordering,
+  combineHash,
+  ordString,
+  ordNumber,
+  ordBoolean,
+  hashString,
+  hashNumber,
+  hashBoolean,
+  eqStrict,
+  reverse,
+  contramap,
+} from "./compare";
+
 export {
   type Option,
   type Some,
   type None,
+  type OptionHandlers,
   some,
   none,
   isSome,
@@ -14,12 +34,33 @@ export {
   unwrapOrElse as unwrapOrElseOption,
   match as matchOption,
   filter as filterOption,
+  bind as bindOption,
+  gen as genOption,
+  fromPredicate as fromPredicateOption,
+  zip as zipOption,
+  zipWith as zipWithOption,
+  or as orOption,
+  orElse as orElseOption,
+  xor as xorOption,
+  and as andOption,
+  contains as containsOption,
+  exists as existsOption,
+  tap as tapOption,
+  getOrThrow as getOrThrowOption,
+  toNullable,
+  toUndefined,
+  getEq as getEqOption,
+  getOrd as getOrdOption,
+  getHash as getHashOption,
 } from "./option";
 
 export {
   type Result,
   type Ok,
   type Err,
+  type ResultHandlers,
+  type ErrorOf,
+  type ValueOf,
   ok,
   err,
   isOk,
@@ -27,14 +68,175 @@ export {
   map as mapResult,
   mapErr,
   flatMap as flatMapResult,
+  andThen,
+  orElse as orElseResult,
+  flatten as flattenResult,
+  bimap,
+  swap,
+  tap as tapResult,
+  tapErr as tapErrResult,
   unwrap,
+  expect as expectResult,
   unwrapOr as unwrapOrResult,
   unwrapOrElse as unwrapOrElseResult,
   match as matchResult,
   filter as filterResult,
   zip,
+  bind as bindResult,
+  gen as genResult,
+  getEq as getEqResult,
+  getOrd as getOrdResult,
+  getHash as getHashResult,
 } from "./result";
 
+export {
+  type AsyncResult,
+  type MaybeAsyncResult,
+  type AsyncResultHandlers,
+  okAsync,
+  errAsync,
+  fromResult as fromResultAsync,
+  fromPromise,
+  fromSafePromise,
+  toPromise,
+  map as mapAsync,
+  mapErr as mapErrAsync,
+  flatMap as flatMapAsync,
+  orElse as orElseAsync,
+  match as matchAsync,
+  tap as tapAsync,
+  tapErr as tapErrAsync,
+  bind as bindAsync,
+  gen as genAsync,
+} from "./async-result";
+
+export {
+  type Validation,
+  type Valid,
+  type Invalid,
+  type Validatable,
+  type ValidationHandlers,
+  valid,
+  invalid,
+  isValid,
+  isInvalid,
+  fromResult as resultToValidation,
+  toResult as validationToResult,
+  map as mapValidation,
+  mapErr as mapErrValidation,
+  zip as zipValidation,
+  all as combineAll,
+  struct as combineStruct,
+  validateAll,
+  match as matchValidation,
+} from "./validation";
+
+export { type NonEmptyArray, isNonEmpty } from "./non-empty-array";
+export * as nonEmptyArray from "./non-empty-array";
+export * as iterable from "./iterable";
+export * as asyncIterable from "./async-iterable";
+
+export {
+  sequence,
+  traverse,
+  sequenceAll,
+  traverseAll,
+  sequenceRecord,
+  sequenceRecordAll,
+  partition,
+  firstOk,
+  sequenceOption,
+  traverseOption,
+  filterMap,
+  compact,
+} from "./collections";
+
+export * as decoders from "./decoder";
+export {
+  type Decoder,
+  type DecodeError,
+  type DecodePath,
+  type Infer,
+  decode,
+  formatDecodeError,
+} from "./decoder";
+
+export {
+  type Json,
+  type Codec,
+  type OptionJson,
+  type ResultJson,
+  WIRE_VERSION,
+  codec,
+  fromDecoder,
+  toJSON,
+  fromJSON,
+  optionCodec,
+  resultCodec,
+  errorCodec,
+  json,
+} from "./serialization";
+
+export {
+  type TaggedError,
+  type TaggedErrorConstructor,
+  type ContextError,
+  type ErrorHandlers,
+  taggedError,
+  contextError,
+  withContext,
+  toError,
+  causes,
+  rootCause,
+  formatErrorChain,
+  matchError,
+} from "./errors";
+
+export * as safe from "./safe";
+
+export { type Brand, type Unbranded, refine } from "./brand";
+
+export * as config from "./config";
+
+export {
+  type TagKey,
+  type TagCases,
+  type TagHandlers,
+  type Pattern,
+  type Matcher,
+  type NonExhaustive,
+  matchTag,
+  match,
+} from "./match";
+
+export {
+  type ReleaseError,
+  type DisposableResource,
+  releaseError,
+  bracket,
+  bracketAsync,
+  using,
+} from "./resource";
+
+export {
+  type Task,
+  type Scheduler,
+  type Backoff,
+  type RetryOptions,
+  type TimeoutOptions,
+  type RetriesExhausted,
+  type TimeoutError,
+  defaultScheduler,
+  timeoutError,
+  retriesExhausted,
+  fixed,
+  exponential,
+  jitter,
+  retry,
+  timeout,
+  fallback,
+} from "./policies";
+
 export {
   fromNullable,
   tryCatch,
@@ -0,0 +1,162 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { some, none } from "./option";
+import { ok, err, type Result } from "./result";
+import { sequence } from "./collections";
+import { pipe } from "./function";
+import { safeParseInt } from "./examples";
+import { type NonEmptyArray } from "./non-empty-array";
+import { filterMap, mapResult, takeWhileOk, collectResults, chunk } from "./iterable";
+
+// Counts how many elements have been read and whether the source was closed.
+const tracked = <T>(values: Iterable<T>): Iterable<T> & { reads: number; closed: boolean } => {
+  const source = {
+    reads: 0,
+    closed: false,
+    *[Symbol.iterator]() {
+      try {
+        for (const value of values) {
+          source.reads += 1;
+          yield value;
+        }
+      } finally {
+        source.closed = true;
+      }
+    },
+  };
+  return source;
+};
+
+function* naturals(): Generator<number> {
+  for (let n = 0; ; n++) {
+    yield n;
+  }
+}
+
+describe("Iterable", () => {
+  describe("filterMap", () => {
+    it("should keep the values of the Somes", () => {
+      const evens = filterMap([1, 2, 3, 4], (n) => (n % 2 === 0 ? some(n * 10) : none()));
+      expect([...evens]).toEqual([20, 40]);
+    });
+
+    it("should be lazy", () => {
+      const source = tracked([1, 2, 3]);
+      const mapped = filterMap(source, (n) => some(n));
+      expect(source.reads).toBe(0);
+      expect([...mapped]).toEqual([1, 2, 3]);
+    });
+
+    it("should work over infinite sources", () => {
+      const squares = filterMap(naturals(), (n) => (n > 0 ? some(n * n) : none()));
+      expect([...takeWhileOk(mapResult(squares, (n) => (n < 20 ? ok(n) : err(n))))]).toEqual([
+        1, 4, 9, 16,
+      ]);
+    });
+  });
+
+  describe("mapResult", () => {
+    it("should yield the Results up to and including the first Err", () => {
+      const source = tracked(["1", "2", "x", "4"]);
+      const results = [...mapResult(source, safeParseInt)];
+      expect(results).toEqual([ok(1), ok(2), err("Failed to parse \"x\" as integer")]);
+      expect(source.reads).toBe(3);
+      expect(source.closed).toBe(true);
+    });
+
+    it("should pass the index", () => {
+      expect([...mapResult(["a", "b"], (value, index) => ok(`${index}${value}`))]).toEqual([
+        ok("0a"),
+        ok("1b"),
+      ]);
+    });
+
+    it("should work data-last", () => {
+      const results = pipe(["1", "2"], mapResult(safeParseInt), collectResults);
+      expectTypeOf(results).toEqualTypeOf<Result<number[], string>>();
+      expect(results).toEqual(ok([1, 2]));
+    });
+  });
+
+  describe("takeWhileOk", () => {
+    it("should yield the leading Ok values and stop at the first Err", () => {
+      const source = tracked([ok(1), ok(2), err("e"), ok(3)]);
+      expect([...takeWhileOk(source)]).toEqual([1, 2]);
+      expect(source.reads).toBe(3);
+      expect(source.closed).toBe(true);
+    });
+  });
+
+  describe("collectResults", () => {
+    it("should collect every value when all are Ok", () => {
+      expect(collectResults([ok(1), ok(2)])).toEqual(ok([1, 2]));
+      expect(collectResults([])).toEqual(ok([]));
+    });
+
+    it("should return the first Err without reading further", () => {
+      expect(collectResults(mapResult(naturals(), (n) => (n < 3 ? ok(n) : err(n))))).toEqual(
+        err(3)
+      );
+    });
+  });
+
+  describe("chunk", () => {
+    it("should group elements, with a shorter last chunk", () => {
+      expect([...chunk([1, 2, 3, 4, 5], 2)]).toEqual([[1, 2], [3, 4], [5]]);
+      expect([...chunk([], 2)]).toEqual([]);
+    });
+
+    it("should yield NonEmptyArrays", () => {
+      expectTypeOf(chunk([1], 1)).toEqualTypeOf<Iterable<NonEmptyArray<number>>>();
+    });
+
+    it("should only read one chunk ahead", () => {
+      const source = tracked(naturals());
+      const [first] = chunk(source, 3);
+      expect(first).toEqual([0, 1, 2]);
+      expect(source.reads).toBe(3);
+      expect(source.closed).toBe(true);
+    });
+
+    it("should reject sizes that are not positive integers", () => {
+      expect(() => chunk([1], 0)).toThrow(RangeError);
+      expect(() => chunk(1.5)([1])).toThrow(RangeError);
+    });
+  });
+
+  describe("Agreement with arrays (Property-Based)", () => {
+    const arbResults = fc.array(
+      fc.oneof(
+        fc.integer().map((n) => ok<number, string>(n)),
+        fc.string().map((s) => err<string, number>(s))
+      )
+    );
+
+    it("collectResults agrees with sequence", () => {
+      fc.assert(
+        fc.property(arbResults, (results) => {
+          expect(collectResults(results)).toEqual(sequence(results));
+        })
+      );
+    });
+
+    it("chunk preserves every element in order", () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer()), fc.integer({ min: 1, max: 10 }), (values, size) => {
+          const chunks = [...chunk(values, size)];
+          expect(chunks.flat()).toEqual(values);
+          expect(chunks.every((group) => group.length <= size)).toBe(true);
+        })
+      );
+    });
+
+    it("can be iterated again when the source can", () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer()), (values) => {
+          const doubled = filterMap(values, (n) => some(n * 2));
+          expect([...doubled]).toEqual([...doubled]);
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { type Option, isSome } from "./option";
+import { type Result, ok, isErr } from "./result";
+import { type NonEmptyArray } from "./non-empty-array";
+import { dual } from "./function";
+
+// Lazy helpers for iterables of any size. Nothing is read from the source
+// until the result is iterated, and only as much as is needed: stopping
+// early, e.g. at the first Err, also stops reading and closes the source.
+// Memory use does not grow with the input unless a helper collects it.
+// The returned iterables can be iterated again if the source can. For
+// async sources, see async-iterable.ts.
+
+// Wraps a generator function so each iteration starts a fresh pass.
+function lazy<T>(generate: () => Generator<T>): Iterable<T> {
+  return { [Symbol.iterator]: generate };
+}
+
+/**
+ * Applies an Option-returning function to every element, keeping the
+ * values of the Somes and skipping the Nones.
+ */
+export function filterMap<A, B>(
+  iterable: Iterable<A>,
+  fn: (value: A, index: number) => Option<B>
+): Iterable<B>;
+export function filterMap<A, B>(
+  fn: (value: A, index: number) => Option<B>
+): (iterable: Iterable<A>) => Iterable<B>;
+export function filterMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, B>(iterable: Iterable<A>, fn: (value: A, index: number) => Option<B>): Iterable<B> =>
+      lazy(function* () {
+        let index = 0;
+        for (const value of iterable) {
+          const option = fn(value, index++);
+          if (isSome(option)) {
+            yield option.value;
+          }
+        }
+      })
+  );
+}
+
+/**
+ * Applies a Result-returning function to every element and yields the
+ * Results. The first Err is yielded last: no further elements are read.
+ */
+export function mapResult<A, B, E>(
+  iterable: Iterable<A>,
+  fn: (value: A, index: number) => Result<B, E>
+): Iterable<Result<B, E>>;
+export function mapResult<A, B, E>(
+  fn: (value: A, index: number) => Result<B, E>
+): (iterable: Iterable<A>) => Iterable<Result<B, E>>;
+export function mapResult(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, B, E>(
+      iterable: Iterable<A>,
+      fn: (value: A, index: number) => Result<B, E>
+    ): Iterable<Result<B, E>> =>
+      lazy(function* () {
+        let index = 0;
+        for (const value of iterable) {
+          const result = fn(value, index++);
+          yield result;
+          if (isErr(result)) {
+            return;
+          }
+        }
+      })
+  );
+}
+
+/**
+ * Yields the values of the leading Oks and stops at the first Err, which
+ * is dropped. Use collectResults to keep it.
+ */
+export function takeWhileOk<T, E>(iterable: Iterable<Result<T, E>>): Iterable<T> {
+  return lazy(function* () {
+    for (const result of iterable) {
+      if (isErr(result)) {
+        return;
+      }
+      yield result.value;
+    }
+  });
+}
+
+/**
+ * Reads the Results into an array of values, or returns the first Err
+ * without reading further.
+ */
+export function collectResults<T, E>(iterable: Iterable<Result<T, E>>): Result<T[], E> {
+  const values: T[] = [];
+  for (const result of iterable) {
+    if (isErr(result)) {
+      return result;
+    }
+    values.push(result.value);
+  }
+  return ok(values);
+}
+
+/**
+ * Groups consecutive elements into arrays of `size` elements. The last
+ * chunk holds whatever is left, so it may be shorter, but never empty.
+ */
+export function chunk<T>(iterable: Iterable<T>, size: number): Iterable<NonEmptyArray<T>>;
+export function chunk(size: number): <T>(iterable: Iterable<T>) => Iterable<NonEmptyArray<T>>;
+export function chunk(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T>(iterable: Iterable<T>, size: number): Iterable<NonEmptyArray<T>> => {
+      if (!Number.isInteger(size) || size < 1) {
+        throw new RangeError(`Chunk size must be a positive integer, got ${size}`);
+      }
+      return lazy(function* () {
+        let current: T[] = [];
+        for (const value of iterable) {
+          current.push(value);
+          if (current.length === size) {
+            yield current as unknown as NonEmptyArray<T>;
+            current = [];
+          }
+        }
+        if (current.length > 0) {
+          yield current as unknown as NonEmptyArray<T>;
+        }
+      });
+    }
+  );
+}
@@ -0,0 +1,234 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { pipe } from "./function";
+import { matchTag, match } from "./match";
+
+type Shape =
+  | { readonly kind: "circle"; readonly radius: number }
+  | { readonly kind: "square"; readonly side: number }
+  | { readonly kind: "rectangle"; readonly width: number; readonly height: number };
+
+type Rate =
+  | { readonly type: "Fixed"; readonly value: number }
+  | { readonly type: "Floating"; readonly index: string; readonly spread: number };
+
+// Annotated as Shape rather than narrowed to their variant.
+const circle = { kind: "circle", radius: 1 } as Shape;
+const square = { kind: "square", side: 2 } as Shape;
+const rectangle = { kind: "rectangle", width: 2, height: 3 } as Shape;
+
+describe("Pattern Matching", () => {
+  describe("matchTag", () => {
+    const area = (shape: Shape): number =>
+      matchTag(shape, "kind", {
+        circle: (c) => Math.PI * c.radius ** 2,
+        square: (s) => s.side ** 2,
+        rectangle: (r) => r.width * r.height,
+      });
+
+    it("should call the handler for the value's tag with the narrowed variant", () => {
+      expect(area(circle)).toBeCloseTo(Math.PI);
+      expect(area(square)).toBe(4);
+      expect(area(rectangle)).toBe(6);
+    });
+
+    it("should match on any discriminant key", () => {
+      const rate = { type: "Floating", index: "SOFR", spread: 0.01 } as Rate;
+      const describeRate = matchTag(rate, "type", {
+        Fixed: (fixed) => `${fixed.value}`,
+        Floating: (floating) => `${floating.index} + ${floating.spread}`,
+      });
+      expect(describeRate).toBe("SOFR + 0.01");
+    });
+
+    it("should fall back to the wildcard for tags without a handler", () => {
+      const isRound = (shape: Shape): boolean =>
+        matchTag(shape, "kind", { circle: () => true, _: () => false });
+      expect(isRound(circle)).toBe(true);
+      expect(isRound(square)).toBe(false);
+    });
+
+    it("should not take tags such as toString from Object.prototype", () => {
+      type Method = { readonly name: "toString" | "map" };
+      const label = (method: Method): string =>
+        matchTag(method, "name", { map: () => "handled", _: () => "wildcard" });
+      expect(label({ name: "toString" })).toBe("wildcard");
+      expect(label({ name: "map" })).toBe("handled");
+    });
+
+    it("should prefer a specific handler over the wildcard", () => {
+      expect(matchTag(square, "kind", { square: () => "square", _: () => "other" })).toBe(
+        "square"
+      );
+    });
+
+    it("should work data-last in a pipe", () => {
+      const result = pipe(
+        square,
+        matchTag<Shape, "kind", string>("kind", {
+          circle: () => "round",
+          _: (shape) => `${shape.kind} has corners`,
+        })
+      );
+      expect(result).toBe("square has corners");
+    });
+
+    it("should reject missing cases at compile time", () => {
+      const check = (): number =>
+        // @ts-expect-error rectangle has no handler and there is no wildcard
+        matchTag(rectangle, "kind", { circle: () => 1, square: () => 2 });
+      expect(check).toThrow(TypeError);
+    });
+
+    it("should reject keys that are not shared by every variant", () => {
+      // @ts-expect-error radius only exists on circles
+      expect(() => matchTag(circle, "radius", {})).toThrow(TypeError);
+    });
+  });
+
+  describe("match", () => {
+    it("should return the result of the first matching case", () => {
+      const name = (shape: Shape): string =>
+        match(shape)
+          .with({ kind: "circle" }, (c) => `circle of radius ${c.radius}`)
+          .with({ kind: "square" }, (s) => `square of side ${s.side}`)
+          .with({ kind: "rectangle" }, (r) => `${r.width}x${r.height} rectangle`)
+          .exhaustive();
+      expect(name(circle)).toBe("circle of radius 1");
+      expect(name(square)).toBe("square of side 2");
+      expect(name(rectangle)).toBe("2x3 rectangle");
+    });
+
+    it("should match patterns on several keys", () => {
+      const isUnitSquare = (shape: Shape): boolean =>
+        match(shape)
+          .with({ kind: "square", side: 1 }, () => true)
+          .otherwise(() => false);
+      expect(isUnitSquare({ kind: "square", side: 1 })).toBe(true);
+      expect(isUnitSquare(square)).toBe(false);
+    });
+
+    it("should try guards in order with the other cases", () => {
+      const size = (shape: Shape): string =>
+        match(shape)
+          .when(
+            (s) => s.kind === "circle" && s.radius > 10,
+            () => "large circle"
+          )
+          .with({ kind: "circle" }, () => "circle")
+          .otherwise((other) => other.kind);
+      expect(size({ kind: "circle", radius: 20 })).toBe("large circle");
+      expect(size(circle)).toBe("circle");
+      expect(size(rectangle)).toBe("rectangle");
+    });
+
+    it("should count type guards towards exhaustiveness", () => {
+      const hasCorners = (shape: Shape): shape is Exclude<Shape, { kind: "circle" }> =>
+        shape.kind !== "circle";
+      const corners = (shape: Shape): number =>
+        match(shape)
+          .when(hasCorners, () => 4)
+          .with({ kind: "circle" }, () => 0)
+          .exhaustive();
+      expect(corners(square)).toBe(4);
+      expect(corners(circle)).toBe(0);
+    });
+
+    it("should still require cases for variants a plain predicate may reject", () => {
+      const check = (shape: Shape): string =>
+        match(shape)
+          .when(
+            (s) => s.kind === "square" && s.side > 1,
+            () => "large square"
+          )
+          .with({ kind: "circle" }, () => "circle")
+          .with({ kind: "square" }, () => "square")
+          .with({ kind: "rectangle" }, () => "rectangle")
+          .exhaustive();
+      expect(check(square)).toBe("large square");
+      expect(check({ kind: "square", side: 1 })).toBe("square");
+
+      const incomplete = (shape: Shape): string =>
+        match(shape)
+          .when(
+            (s) => s.kind === "square" && s.side > 1,
+            () => "large square"
+          )
+          .with({ kind: "circle" }, () => "circle")
+          .with({ kind: "rectangle" }, () => "rectangle")
+          // @ts-expect-error small squares are not handled
+          .exhaustive();
+      expect(() => incomplete({ kind: "square", side: 1 })).toThrow(TypeError);
+    });
+
+    it("should reject missing cases at compile time", () => {
+      const check = (): string =>
+        match<Shape>(rectangle)
+          .with({ kind: "circle" }, () => "circle")
+          .with({ kind: "square" }, () => "square")
+          // @ts-expect-error rectangle is not handled
+          .exhaustive();
+      expect(check).toThrow(TypeError);
+    });
+
+    it("should union the results of every case", () => {
+      const result = match<Shape>(circle)
+        .with({ kind: "circle" }, () => 1)
+        .otherwise(() => "other");
+      expectTypeOf(result).toEqualTypeOf<number | string>();
+    });
+
+    it("should narrow the otherwise handler to the unhandled variants", () => {
+      match<Shape>(square)
+        .with({ kind: "circle" }, () => 0)
+        .otherwise((rest) => {
+          expectTypeOf(rest).toEqualTypeOf<Exclude<Shape, { kind: "circle" }>>();
+          return 1;
+        });
+    });
+
+    it("should run only the first matching handler", () => {
+      fc.assert(
+        fc.property(fc.constantFrom(circle, square, rectangle), (shape) => {
+          const calls: string[] = [];
+          match(shape)
+            .with({ kind: "circle" }, () => calls.push("circle"))
+            .when(
+              () => true,
+              () => calls.push("guard")
+            )
+            .otherwise(() => calls.push("otherwise"));
+          expect(calls).toEqual([shape.kind === "circle" ? "circle" : "guard"]);
+        })
+      );
+    });
+  });
+
+  describe("Consistency (Property-Based)", () => {
+    const arbShape = fc.oneof(
+      fc.double({ noNaN: true }).map((radius): Shape => ({ kind: "circle", radius })),
+      fc.double({ noNaN: true }).map((side): Shape => ({ kind: "square", side })),
+      fc
+        .tuple(fc.double({ noNaN: true }), fc.double({ noNaN: true }))
+        .map(([width, height]): Shape => ({ kind: "rectangle", width, height }))
+    );
+
+    it("matchTag and match agree", () => {
+      fc.assert(
+        fc.property(arbShape, (shape) => {
+          const byTag = matchTag(shape, "kind", {
+            circle: (c) => c.radius,
+            square: (s) => s.side,
+            rectangle: (r) => r.width,
+          });
+          const byBuilder = match(shape)
+            .with({ kind: "circle" }, (c) => c.radius)
+            .with({ kind: "square" }, (s) => s.side)
+            .with({ kind: "rectangle" }, (r) => r.width)
+            .exhaustive();
+          expect(byBuilder).toBe(byTag);
+        })
+      );
+    });
+  });
+});
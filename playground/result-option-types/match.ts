@@ -0,0 +1,174 @@
+import { type Option, some, none, isSome } from "./option";
+import { dual } from "./function";
+
+// Tags are compared with ===, so only primitive discriminants are supported.
+type Tag = string | number | boolean;
+
+/**
+ * The keys of A whose values can discriminate a union, e.g. "kind" for
+ * FormulaError or "type" for Rate.
+ */
+export type TagKey<A> = keyof A &
+  {
+    readonly [K in keyof A]-?: A[K] extends Tag ? K : never;
+  }[keyof A];
+
+/**
+ * One handler per value of the tag, each receiving the variant with that tag.
+ */
+export type TagCases<A, K extends TagKey<A>, U> = {
+  readonly [T in A[K] & Tag as `${T}`]: (value: Extract<A, { readonly [P in K]: T }>) => U;
+};
+
+/**
+ * The handlers accepted by matchTag: every case, or some cases plus a
+ * wildcard `_` that receives whatever is left.
+ */
+export type TagHandlers<A, K extends TagKey<A>, U> =
+  | TagCases<A, K, U>
+  | (Partial<TagCases<A, K, U>> & { readonly _: (value: A) => U });
+
+/**
+ * Matches a tagged union on the given key. Every tag needs a handler
+ * unless a wildcard `_` is given, so adding a variant is a compile error
+ * until it is handled.
+ *
+ * ```ts
+ * matchTag(rate, "type", {
+ *   Fixed: (fixed) => fixed.value,
+ *   Floating: (floating) => floating.spread,
+ * });
+ * ```
+ */
+export function matchTag<A, K extends TagKey<A>, U>(
+  value: A,
+  key: K,
+  handlers: TagHandlers<A, K, U>
+): U;
+export function matchTag<A, K extends TagKey<A>, U>(
+  key: K,
+  handlers: TagHandlers<A, K, U>
+): (value: A) => U;
+export function matchTag(...args: readonly unknown[]): unknown {
+  return dual(
+    3,
+    args,
+    <A, K extends TagKey<A>, U>(value: A, key: K, handlers: TagHandlers<A, K, U>): U => {
+      const cases = handlers as Partial<Record<string, (value: A) => U>>;
+      // Only the handlers' own keys count, so a tag such as "toString"
+      // does not pick up a method from Object.prototype.
+      const tag = String(value[key]);
+      const handler = Object.hasOwn(cases, tag) ? cases[tag] : cases._;
+      if (handler === undefined) {
+        throw new TypeError(`No handler for ${String(key)} ${JSON.stringify(value[key])}`);
+      }
+      return handler(value);
+    }
+  );
+}
+
+/**
+ * A partial description of a value: each given key must hold exactly the
+ * given primitive value. Keys left out match anything.
+ */
+export type Pattern<A> = {
+  readonly [K in keyof A]?: A[K] & Tag;
+};
+
+// The variants of R that a pattern selects.
+type Selected<R, P> = Extract<R, P>;
+
+/**
+ * Reported by `exhaustive` when some variants have no case. Hover the
+ * error to see which ones are left.
+ */
+export interface NonExhaustive<Unhandled> {
+  readonly unhandled: Unhandled;
+}
+
+/**
+ * A match in progress. `R` is the part of the input no case has handled
+ * yet and `U` the union of the handlers' results.
+ */
+export interface Matcher<A, R, U> {
+  /**
+   * Handles the variants that match the pattern.
+   */
+  readonly with: <const P extends Pattern<R>, V>(
+    pattern: P,
+    handler: (value: Selected<R, P>) => V
+  ) => Matcher<A, Exclude<R, Selected<R, P>>, U | V>;
+  /**
+   * Handles values that satisfy the guard. A type guard removes the
+   * narrowed type from what is left; a plain predicate removes nothing,
+   * since it may reject any variant.
+   */
+  readonly when: {
+    <N extends R, V>(
+      guard: (value: R) => value is N,
+      handler: (value: N) => V
+    ): Matcher<A, Exclude<R, N>, U | V>;
+    <V>(guard: (value: R) => boolean, handler: (value: R) => V): Matcher<A, R, U | V>;
+  };
+  /**
+   * Handles everything no earlier case handled and returns the result.
+   */
+  readonly otherwise: <V>(handler: (value: R) => V) => U | V;
+  /**
+   * Returns the result of the matching case. Only callable once every
+   * variant has a case; otherwise it expects a NonExhaustive argument,
+   * which no caller has, so the call fails to compile.
+   */
+  readonly exhaustive: (
+    ...unhandled: [R] extends [never] ? [] : [NonExhaustive<R>]
+  ) => U;
+}
+
+function matchesPattern(value: unknown, pattern: object): boolean {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const record = value as Readonly<Record<string, unknown>>;
+  return Object.entries(pattern).every(([key, expected]) => record[key] === expected);
+}
+
+// Cases run as they are added; once one has matched, later cases are skipped.
+function matcher<A, R, U>(value: A, result: Option<U>): Matcher<A, R, U> {
+  const next = <V>(
+    matches: boolean,
+    handler: (value: never) => V
+  ): Matcher<A, never, U | V> =>
+    matcher<A, never, U | V>(
+      value,
+      !isSome(result) && matches ? some(handler(value as never)) : result
+    );
+  return {
+    with: (pattern, handler) => next(matchesPattern(value, pattern), handler),
+    when: (guard: (value: R) => boolean, handler: (value: never) => unknown) =>
+      next(!isSome(result) && guard(value as unknown as R), handler),
+    otherwise: (handler) => (isSome(result) ? result.value : handler(value as unknown as R)),
+    exhaustive: () => {
+      if (isSome(result)) {
+        return result.value;
+      }
+      // Only reachable when the value is outside its declared type.
+      throw new TypeError(`No case matched ${JSON.stringify(value)}`);
+    },
+  } as Matcher<A, R, U>;
+}
+
+/**
+ * Starts a match on any value. Cases are tried in order and the first one
+ * that matches wins.
+ *
+ * ```ts
+ * const status = match(error)
+ *   .with({ kind: "MissingFormulaDefinition" }, () => 404)
+ *   .when((e) => e.kind === "ExecutionFailed" && e.reason.includes("timeout"), () => 504)
+ *   .with({ kind: "ExecutionFailed" }, () => 422)
+ *   .otherwise(() => 500);
+ * ```
+ */
+export function match<A>(value: A): Matcher<A, A, never> {
+  return matcher<A, A, never>(value, none());
+}
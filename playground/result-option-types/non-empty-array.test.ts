@@ -0,0 +1,162 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { some, none, map as mapOption, type Option } from "./option";
+import { pipe } from "./function";
+import {
+  of,
+  isNonEmpty,
+  concat,
+  fromArray,
+  head,
+  last,
+  map,
+  reduce,
+  groupBy,
+  type NonEmptyArray,
+} from "./non-empty-array";
+
+const arbNonEmpty = fc
+  .array(fc.integer(), { minLength: 1 })
+  .map((array) => array as unknown as NonEmptyArray<number>);
+
+describe("NonEmptyArray", () => {
+  describe("of", () => {
+    it("should create an array from a head and a tail", () => {
+      expect(of(1)).toEqual([1]);
+      expect(of(1, 2, 3)).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe("isNonEmpty", () => {
+    it("should identify non-empty arrays", () => {
+      expect(isNonEmpty([1])).toBe(true);
+      expect(isNonEmpty([])).toBe(false);
+    });
+  });
+
+  describe("concat", () => {
+    it("should append the second array", () => {
+      expect(concat(of(1, 2), [3])).toEqual([1, 2, 3]);
+      expect(concat(of(1), [])).toEqual([1]);
+    });
+
+    it("should be non-empty when only the second array is", () => {
+      const joined = concat([] as number[], of(1));
+      expectTypeOf(joined).toEqualTypeOf<NonEmptyArray<number>>();
+      expect(joined).toEqual([1]);
+    });
+  });
+
+  describe("fromArray", () => {
+    it("should return Some for non-empty arrays and None for empty ones", () => {
+      expect(fromArray([1, 2])).toEqual(some([1, 2]));
+      expect(fromArray([])).toEqual(none());
+    });
+
+    it("should let later calls skip the emptiness check", () => {
+      const firstName = pipe(fromArray(["Ada", "Grace"]), mapOption(head));
+      expectTypeOf(firstName).toEqualTypeOf<Option<string>>();
+      expect(firstName).toEqual(some("Ada"));
+    });
+  });
+
+  describe("head and last", () => {
+    it("should return the first and last element", () => {
+      expect(head(of(1, 2, 3))).toBe(1);
+      expect(last(of(1, 2, 3))).toBe(3);
+      expect(last(of("only"))).toBe("only");
+    });
+
+    it("should not include undefined in the type", () => {
+      expectTypeOf(head(of(1))).toEqualTypeOf<number>();
+      expectTypeOf(last(of(1))).toEqualTypeOf<number>();
+    });
+  });
+
+  describe("map", () => {
+    it("should apply the function with the index", () => {
+      expect(map(of("a", "b"), (value, index) => `${index}:${value}`)).toEqual(["0:a", "1:b"]);
+    });
+
+    it("should work data-last", () => {
+      const doubled = pipe(of(1, 2), map((n: number) => n * 2));
+      expectTypeOf(doubled).toEqualTypeOf<NonEmptyArray<number>>();
+      expect(doubled).toEqual([2, 4]);
+    });
+  });
+
+  describe("reduce", () => {
+    it("should combine from the first element without an initial value", () => {
+      expect(reduce(of(3, 1, 2), Math.max)).toBe(3);
+      expect(reduce(of("a", "b", "c"), (acc, value) => acc + value)).toBe("abc");
+      expect(reduce(of(7), () => 0)).toBe(7);
+    });
+  });
+
+  describe("groupBy", () => {
+    it("should group elements by key, preserving order", () => {
+      const groups = groupBy(["apple", "avocado", "banana"], (word) => word.charAt(0));
+      expect(groups).toEqual({ a: ["apple", "avocado"], b: ["banana"] });
+    });
+
+    it("should type each group as non-empty and missing keys as absent", () => {
+      const groups = pipe(
+        [1, 2, 3],
+        groupBy((n: number): "odd" | "even" => (n % 2 === 0 ? "even" : "odd"))
+      );
+      expectTypeOf(groups.odd).toEqualTypeOf<NonEmptyArray<number> | undefined>();
+      expect(groups).toEqual({ odd: [1, 3], even: [2] });
+    });
+
+    it("should store keys that collide with Object.prototype as data", () => {
+      const groups = groupBy(["x"], () => "__proto__");
+      expect(Object.keys(groups)).toEqual(["__proto__"]);
+    });
+  });
+
+  describe("Laws (Property-Based)", () => {
+    it("head and last agree with indexing", () => {
+      fc.assert(
+        fc.property(arbNonEmpty, (array) => {
+          expect(head(array)).toBe(array[0]);
+          expect(last(array)).toBe(array.at(-1));
+        })
+      );
+    });
+
+    it("map preserves length and identity", () => {
+      fc.assert(
+        fc.property(arbNonEmpty, (array) => {
+          expect(map(array, (n) => n)).toEqual(array);
+          expect(map(array, String)).toHaveLength(array.length);
+        })
+      );
+    });
+
+    it("reduce agrees with Array.prototype.reduce", () => {
+      fc.assert(
+        fc.property(arbNonEmpty, (array) => {
+          expect(reduce(array, Math.min)).toBe(Math.min(...array));
+        })
+      );
+    });
+
+    it("groupBy keeps every element exactly once", () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer()), (array) => {
+          const groups = groupBy(array, (n) => String(n % 3));
+          const regrouped = Object.values(groups).flatMap((group) => group ?? []);
+          expect(regrouped.sort()).toEqual([...array].sort());
+        })
+      );
+    });
+
+    it("concat is associative", () => {
+      fc.assert(
+        fc.property(arbNonEmpty, arbNonEmpty, arbNonEmpty, (a, b, c) => {
+          expect(concat(concat(a, b), c)).toEqual(concat(a, concat(b, c)));
+        })
+      );
+    });
+  });
+});
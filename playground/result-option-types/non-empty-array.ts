@@ -0,0 +1,128 @@
+import { type Option, some, none } from "./option";
+import { dual } from "./function";
+
+/**
+ * An array with at least one element. The tuple type lets the compiler see
+ * that index 0 is always present.
+ */
+export type NonEmptyArray<T> = readonly [T, ...T[]];
+
+/**
+ * Creates a NonEmptyArray from its first element and any further ones.
+ */
+export function of<T>(head: T, ...tail: readonly T[]): NonEmptyArray<T> {
+  return [head, ...tail];
+}
+
+/**
+ * Type guard to check if an array has at least one element.
+ */
+export function isNonEmpty<T>(array: readonly T[]): array is NonEmptyArray<T> {
+  return array.length > 0;
+}
+
+/**
+ * Joins two arrays, at least one of them non-empty. This is the semigroup
+ * used to accumulate errors: the result can never be empty.
+ */
+export function concat<T>(first: NonEmptyArray<T>, second: readonly T[]): NonEmptyArray<T>;
+export function concat<T>(first: readonly T[], second: NonEmptyArray<T>): NonEmptyArray<T>;
+export function concat<T>(first: readonly T[], second: readonly T[]): NonEmptyArray<T> {
+  return [...first, ...second] as unknown as NonEmptyArray<T>;
+}
+
+/**
+ * Checks an array once and returns it as a NonEmptyArray, or None if it is
+ * empty. The helpers below need no further checks.
+ */
+export function fromArray<T>(array: readonly T[]): Option<NonEmptyArray<T>> {
+  return isNonEmpty(array) ? some(array) : none();
+}
+
+/**
+ * Returns the first element. Unlike `array[0]`, the type is T, not
+ * T | undefined.
+ */
+export function head<T>(array: NonEmptyArray<T>): T {
+  return array[0];
+}
+
+/**
+ * Returns the last element.
+ */
+export function last<T>(array: NonEmptyArray<T>): T {
+  return array[array.length - 1] as T;
+}
+
+/**
+ * Applies a function to every element. The result has as many elements as
+ * the input, so it is non-empty too.
+ */
+export function map<T, U>(
+  array: NonEmptyArray<T>,
+  fn: (value: T, index: number) => U
+): NonEmptyArray<U>;
+export function map<T, U>(
+  fn: (value: T, index: number) => U
+): (array: NonEmptyArray<T>) => NonEmptyArray<U>;
+export function map(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U>(array: NonEmptyArray<T>, fn: (value: T, index: number) => U): NonEmptyArray<U> =>
+      array.map(fn) as unknown as NonEmptyArray<U>
+  );
+}
+
+/**
+ * Combines the elements from left to right, starting from the first. No
+ * initial value is needed because there is always a first element.
+ *
+ * ```ts
+ * reduce(of(3, 1, 2), Math.max); // 3
+ * ```
+ */
+export function reduce<T>(array: NonEmptyArray<T>, fn: (acc: T, value: T) => T): T;
+export function reduce<T>(fn: (acc: T, value: T) => T): (array: NonEmptyArray<T>) => T;
+export function reduce(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(array: NonEmptyArray<T>, fn: (acc: T, value: T) => T): T => {
+    const [first, ...rest] = array;
+    return rest.reduce((acc, value) => fn(acc, value), first);
+  });
+}
+
+/**
+ * Groups the elements of any array by a key. Every group that exists has
+ * at least one element, so groups are NonEmptyArrays; keys with no
+ * elements are absent.
+ */
+export function groupBy<T, K extends string>(
+  array: readonly T[],
+  key: (value: T) => K
+): Partial<Record<K, NonEmptyArray<T>>>;
+export function groupBy<T, K extends string>(
+  key: (value: T) => K
+): (array: readonly T[]) => Partial<Record<K, NonEmptyArray<T>>>;
+export function groupBy(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, K extends string>(
+      array: readonly T[],
+      key: (value: T) => K
+    ): Partial<Record<K, NonEmptyArray<T>>> => {
+      // A Map rather than an object, so keys like "__proto__" are stored as data.
+      const groups = new Map<string, [T, ...T[]]>();
+      for (const value of array) {
+        const groupKey = key(value);
+        const group = groups.get(groupKey);
+        if (group === undefined) {
+          groups.set(groupKey, [value]);
+        } else {
+          group.push(value);
+        }
+      }
+      return Object.fromEntries(groups) as unknown as Partial<Record<K, NonEmptyArray<T>>>;
+    }
+  );
+}
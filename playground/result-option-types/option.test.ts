@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf } from "vitest";
 import * as fc from "fast-check";
 import {
   some,
@@ -11,8 +11,29 @@ import {
   unwrapOrElse,
   match,
   filter,
+  bind,
+  gen,
+  fromPredicate,
+  zip,
+  zipWith,
+  or,
+  orElse,
+  xor,
+  and,
+  contains,
+  exists,
+  tap,
+  getOrThrow,
+  toNullable,
+  toUndefined,
+  getEq,
+  getOrd,
+  getHash,
   type Option,
 } from "./option";
+import { ordNumber, hashNumber } from "./compare";
+import { fromNullable } from "./conversions";
+import { pipe } from "./function";
 
 describe("Option", () => {
   describe("Constructors", () => {
@@ -142,6 +163,171 @@ describe("Option", () => {
     });
   });
 
+  describe("gen", () => {
+    const lookup = (table: Record<string, number>, key: string): Option<number> =>
+      key in table ? some(table[key] as number) : none();
+    const table = { a: 1, b: 2 };
+
+    it("should return Some with the block's return value", () => {
+      const result = gen(function* () {
+        const a = yield* bind(lookup(table, "a"));
+        const b = yield* bind(lookup(table, "b"));
+        return a + b;
+      });
+      expect(result).toEqual(some(3));
+    });
+
+    it("should short-circuit on the first None", () => {
+      let reached = false;
+      const result = gen(function* () {
+        const a = yield* bind(lookup(table, "missing"));
+        reached = true;
+        return a;
+      });
+      expect(result).toEqual(none());
+      expect(reached).toBe(false);
+    });
+  });
+
+  describe("fromPredicate", () => {
+    it("should return Some when the predicate holds", () => {
+      expect(fromPredicate(4, (n) => n % 2 === 0)).toEqual(some(4));
+      expect(fromPredicate(3, (n) => n % 2 === 0)).toEqual(none());
+    });
+
+    it("should narrow with a type guard in the data-last form", () => {
+      const isString = (value: unknown): value is string => typeof value === "string";
+      const result = pipe("a" as unknown, fromPredicate(isString));
+      expectTypeOf(result).toEqualTypeOf<Option<string>>();
+      expect(result).toEqual(some("a"));
+    });
+  });
+
+  describe("zip and zipWith", () => {
+    it("should combine two Somes", () => {
+      expect(zip(some(1), some("a"))).toEqual(some([1, "a"]));
+      expect(zipWith(some(2), some(3), (a, b) => a * b)).toEqual(some(6));
+    });
+
+    it("should return None if either is None", () => {
+      expect(zip(some(1), none())).toEqual(none());
+      expect(zipWith(none<number>(), some(3), (a, b) => a * b)).toEqual(none());
+    });
+
+    it("should support the data-last form", () => {
+      expect(pipe(some(2), zipWith(some(3), (a: number, b) => a + b))).toEqual(some(5));
+      expect(pipe(some(1), zip(some(true)))).toEqual(some([1, true]));
+    });
+  });
+
+  describe("or, orElse, xor and and", () => {
+    it("or should pick the first Some", () => {
+      expect(or(some(1), some(2))).toEqual(some(1));
+      expect(or(none(), some(2))).toEqual(some(2));
+      expect(or(none(), none())).toEqual(none());
+    });
+
+    it("orElse should only call fn for None", () => {
+      let calls = 0;
+      const fallback = (): Option<number> => {
+        calls++;
+        return some(0);
+      };
+      expect(orElse(some(1), fallback)).toEqual(some(1));
+      expect(orElse(none(), fallback)).toEqual(some(0));
+      expect(calls).toBe(1);
+    });
+
+    it("xor should return Some only when exactly one is Some", () => {
+      expect(xor(some(1), none())).toEqual(some(1));
+      expect(xor(none(), some(2))).toEqual(some(2));
+      expect(xor(some(1), some(2))).toEqual(none());
+      expect(xor(none(), none())).toEqual(none());
+    });
+
+    it("and should return the second only when the first is Some", () => {
+      expect(and(some(1), some("b"))).toEqual(some("b"));
+      expect(and(none(), some("b"))).toEqual(none());
+      expect(and(some(1), none())).toEqual(none());
+    });
+  });
+
+  describe("contains and exists", () => {
+    it("contains should compare the value with ===", () => {
+      expect(contains(some(1), 1)).toBe(true);
+      expect(contains(some(1), 2)).toBe(false);
+      expect(contains(none(), 1)).toBe(false);
+    });
+
+    it("exists should test the value with the predicate", () => {
+      expect(exists(some(5), (n) => n > 3)).toBe(true);
+      expect(exists(some(1), (n) => n > 3)).toBe(false);
+      expect(pipe(none<number>(), exists((n) => n > 3))).toBe(false);
+    });
+  });
+
+  describe("tap", () => {
+    it("should run the effect for Some and return the option", () => {
+      const seen: number[] = [];
+      const option = some(1);
+      expect(tap(option, (n) => seen.push(n))).toBe(option);
+      tap(none<number>(), (n) => seen.push(n));
+      expect(seen).toEqual([1]);
+    });
+  });
+
+  describe("Leaving Option", () => {
+    it("getOrThrow should return the value or throw", () => {
+      expect(getOrThrow(some(1))).toBe(1);
+      expect(() => getOrThrow(none())).toThrow("Called getOrThrow on a None value");
+      expect(() => getOrThrow(none(), () => new RangeError("missing port"))).toThrow(RangeError);
+    });
+
+    it("toNullable and toUndefined should map None to null and undefined", () => {
+      expect(toNullable(some(1))).toBe(1);
+      expect(toNullable(none())).toBeNull();
+      expect(toUndefined(some(1))).toBe(1);
+      expect(toUndefined(none())).toBeUndefined();
+    });
+
+    it("toNullable should invert fromNullable", () => {
+      fc.assert(
+        fc.property(fc.option(fc.integer(), { nil: null }), (value) => {
+          expect(toNullable(fromNullable(value))).toBe(value);
+        })
+      );
+    });
+  });
+
+  describe("Combinator Laws (Property-Based)", () => {
+    const arbOption = fc.oneof(fc.integer().map(some), fc.constant(none<number>()));
+
+    it("xor is commutative up to which Some is kept", () => {
+      fc.assert(
+        fc.property(arbOption, arbOption, (a, b) => {
+          expect(isSome(xor(a, b))).toBe(isSome(xor(b, a)));
+        })
+      );
+    });
+
+    it("or with None is the identity on both sides", () => {
+      fc.assert(
+        fc.property(arbOption, (a) => {
+          expect(or(a, none())).toEqual(a);
+          expect(or(none(), a)).toEqual(a);
+        })
+      );
+    });
+
+    it("zip is None exactly when either side is None", () => {
+      fc.assert(
+        fc.property(arbOption, arbOption, (a, b) => {
+          expect(isNone(zip(a, b))).toBe(isNone(a) || isNone(b));
+        })
+      );
+    });
+  });
+
   describe("Monad Laws (Property-Based)", () => {
     // Arbitrary for Option<number>
     const arbOption = fc.oneof(
@@ -215,4 +401,53 @@ describe("Option", () => {
       );
     });
   });
+
+  describe("Eq, Ord and Hash (Property-Based)", () => {
+    const arbOption = fc.oneof(
+      fc.integer({ min: -3, max: 3 }).map(some),
+      fc.constant(none<number>())
+    );
+    const ord = getOrd(ordNumber);
+    const hash = getHash(hashNumber);
+
+    it("should compare Options structurally", () => {
+      const eq = getEq(ordNumber);
+      expect(eq.equals(some(1), some(1))).toBe(true);
+      expect(eq.equals(some(1), some(2))).toBe(false);
+      expect(eq.equals(none(), none())).toBe(true);
+      expect(eq.equals(some(1), none())).toBe(false);
+    });
+
+    it("should order None before Some", () => {
+      const sorted = [some(2), none<number>(), some(1)].sort(ord.compare);
+      expect(sorted).toEqual([none(), some(1), some(2)]);
+    });
+
+    it("Ord laws: total, antisymmetric, transitive and consistent with equals", () => {
+      fc.assert(
+        fc.property(arbOption, arbOption, arbOption, (x, y, z) => {
+          expect(ord.compare(x, x)).toBe(0);
+          expect(ord.compare(x, y) === 0).toBe(ord.equals(x, y));
+          expect(ord.compare(x, y)).toBe(-ord.compare(y, x) || 0);
+          if (ord.compare(x, y) <= 0 && ord.compare(y, z) <= 0) {
+            expect(ord.compare(x, z)).toBeLessThanOrEqual(0);
+          }
+        })
+      );
+    });
+
+    it("Hash law: equal Options have equal hashes", () => {
+      fc.assert(
+        fc.property(arbOption, arbOption, (x, y) => {
+          if (hash.equals(x, y)) {
+            expect(hash.hash(x)).toBe(hash.hash(y));
+          }
+        })
+      );
+    });
+
+    it("should distinguish None from Some(0) by hash", () => {
+      expect(hash.hash(none())).not.toBe(hash.hash(some(0)));
+    });
+  });
 });
@@ -1,6 +1,12 @@
+import { dual } from "./function";
+import { type Eq, type Ord, type Hash, combineHash } from "./compare";
+
 /**
  * Represents an optional value: every Option is either Some and contains a value, or None.
  * Inspired by Rust's Option<T> type.
+ *
+ * The combinators below can be called data-first, `map(option, fn)`, or
+ * data-last, `map(fn)(option)`, which is the form to use with pipe.
  */
 export type Option<T> = Some<T> | None;
 
@@ -51,11 +57,15 @@ export function isNone<T>(option: Option<T>): option is None {
  * Maps an Option<T> to Option<U> by applying a function to the contained value.
  * Returns None if the option is None.
  */
-export function map<T, U>(option: Option<T>, fn: (value: T) => U): Option<U> {
-  if (isSome(option)) {
-    return some(fn(option.value));
-  }
-  return none();
+export function map<T, U>(option: Option<T>, fn: (value: T) => U): Option<U>;
+export function map<T, U>(fn: (value: T) => U): (option: Option<T>) => Option<U>;
+export function map(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, U>(option: Option<T>, fn: (value: T) => U): Option<U> => {
+    if (isSome(option)) {
+      return some(fn(option.value));
+    }
+    return none();
+  });
 }
 
 /**
@@ -66,48 +76,78 @@ export function map<T, U>(option: Option<T>, fn: (value: T) => U): Option<U> {
 export function flatMap<T, U>(
   option: Option<T>,
   fn: (value: T) => Option<U>
-): Option<U> {
-  if (isSome(option)) {
-    return fn(option.value);
-  }
-  return none();
+): Option<U>;
+export function flatMap<T, U>(
+  fn: (value: T) => Option<U>
+): (option: Option<T>) => Option<U>;
+export function flatMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U>(option: Option<T>, fn: (value: T) => Option<U>): Option<U> => {
+      if (isSome(option)) {
+        return fn(option.value);
+      }
+      return none();
+    }
+  );
 }
 
 /**
  * Returns the contained value if Some, otherwise returns the provided default.
  */
-export function unwrapOr<T>(option: Option<T>, defaultValue: T): T {
-  if (isSome(option)) {
-    return option.value;
-  }
-  return defaultValue;
+export function unwrapOr<T>(option: Option<T>, defaultValue: T): T;
+export function unwrapOr<T>(defaultValue: T): (option: Option<T>) => T;
+export function unwrapOr(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, defaultValue: T): T => {
+    if (isSome(option)) {
+      return option.value;
+    }
+    return defaultValue;
+  });
 }
 
 /**
  * Returns the contained value if Some, otherwise computes it from a function.
  */
-export function unwrapOrElse<T>(option: Option<T>, fn: () => T): T {
-  if (isSome(option)) {
-    return option.value;
-  }
-  return fn();
+export function unwrapOrElse<T>(option: Option<T>, fn: () => T): T;
+export function unwrapOrElse<T>(fn: () => T): (option: Option<T>) => T;
+export function unwrapOrElse(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, fn: () => T): T => {
+    if (isSome(option)) {
+      return option.value;
+    }
+    return fn();
+  });
+}
+
+/**
+ * The pair of handlers accepted by match.
+ */
+export interface OptionHandlers<T, U> {
+  readonly some: (value: T) => U;
+  readonly none: () => U;
 }
 
 /**
  * Matches on an Option, executing the appropriate function based on its variant.
  * This enables exhaustive pattern matching.
  */
+export function match<T, U>(option: Option<T>, handlers: OptionHandlers<T, U>): U;
 export function match<T, U>(
-  option: Option<T>,
-  handlers: {
-    readonly some: (value: T) => U;
-    readonly none: () => U;
-  }
-): U {
-  if (isSome(option)) {
-    return handlers.some(option.value);
-  }
-  return handlers.none();
+  handlers: OptionHandlers<T, U>
+): (option: Option<T>) => U;
+export function match(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U>(option: Option<T>, handlers: OptionHandlers<T, U>): U => {
+      if (isSome(option)) {
+        return handlers.some(option.value);
+      }
+      return handlers.none();
+    }
+  );
 }
 
 /**
@@ -119,9 +159,267 @@ export function match<T, U>(
 export function filter<T>(
   option: Option<T>,
   predicate: (value: T) => boolean
-): Option<T> {
-  if (isSome(option) && predicate(option.value)) {
+): Option<T>;
+export function filter<T>(
+  predicate: (value: T) => boolean
+): (option: Option<T>) => Option<T>;
+export function filter(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T>(option: Option<T>, predicate: (value: T) => boolean): Option<T> => {
+      if (isSome(option) && predicate(option.value)) {
+        return option;
+      }
+      return none();
+    }
+  );
+}
+
+/**
+ * Creates Some(value) if the predicate holds for the value, None otherwise.
+ * A type guard narrows the Some type.
+ */
+export function fromPredicate<T, U extends T>(
+  value: T,
+  predicate: (value: T) => value is U
+): Option<U>;
+export function fromPredicate<T>(value: T, predicate: (value: T) => boolean): Option<T>;
+export function fromPredicate<T, U extends T>(
+  predicate: (value: T) => value is U
+): (value: T) => Option<U>;
+export function fromPredicate<T>(
+  predicate: (value: T) => boolean
+): (value: T) => Option<T>;
+export function fromPredicate(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T>(value: T, predicate: (value: T) => boolean): Option<T> =>
+      predicate(value) ? some(value) : none()
+  );
+}
+
+/**
+ * Combines two Options into an Option of a tuple.
+ * Returns None if either option is None.
+ */
+export function zip<A, B>(first: Option<A>, second: Option<B>): Option<[A, B]>;
+export function zip<B>(second: Option<B>): <A>(first: Option<A>) => Option<[A, B]>;
+export function zip(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <A, B>(first: Option<A>, second: Option<B>): Option<[A, B]> =>
+      zipWith(first, second, (a, b): [A, B] => [a, b])
+  );
+}
+
+/**
+ * Combines the values of two Options with a function.
+ * Returns None if either option is None.
+ */
+export function zipWith<A, B, C>(
+  first: Option<A>,
+  second: Option<B>,
+  fn: (a: A, b: B) => C
+): Option<C>;
+export function zipWith<A, B, C>(
+  second: Option<B>,
+  fn: (a: A, b: B) => C
+): (first: Option<A>) => Option<C>;
+export function zipWith(...args: readonly unknown[]): unknown {
+  return dual(
+    3,
+    args,
+    <A, B, C>(first: Option<A>, second: Option<B>, fn: (a: A, b: B) => C): Option<C> => {
+      if (isSome(first) && isSome(second)) {
+        return some(fn(first.value, second.value));
+      }
+      return none();
+    }
+  );
+}
+
+/**
+ * Returns the option if it is Some, otherwise the alternative.
+ * The alternative is evaluated eagerly; use orElse to compute it lazily.
+ */
+export function or<T>(option: Option<T>, alternative: Option<T>): Option<T>;
+export function or<T>(alternative: Option<T>): (option: Option<T>) => Option<T>;
+export function or(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, alternative: Option<T>): Option<T> =>
+    isSome(option) ? option : alternative
+  );
+}
+
+/**
+ * Returns the option if it is Some, otherwise calls fn for an alternative.
+ */
+export function orElse<T>(option: Option<T>, fn: () => Option<T>): Option<T>;
+export function orElse<T>(fn: () => Option<T>): (option: Option<T>) => Option<T>;
+export function orElse(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, fn: () => Option<T>): Option<T> =>
+    isSome(option) ? option : fn()
+  );
+}
+
+/**
+ * Returns Some if exactly one of the two options is Some, otherwise None.
+ */
+export function xor<T>(option: Option<T>, other: Option<T>): Option<T>;
+export function xor<T>(other: Option<T>): (option: Option<T>) => Option<T>;
+export function xor(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, other: Option<T>): Option<T> => {
+    if (isSome(option)) {
+      return isNone(other) ? option : none();
+    }
+    return other;
+  });
+}
+
+/**
+ * Returns None if the option is None, otherwise the other option.
+ */
+export function and<T, U>(option: Option<T>, other: Option<U>): Option<U>;
+export function and<U>(other: Option<U>): <T>(option: Option<T>) => Option<U>;
+export function and(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, U>(option: Option<T>, other: Option<U>): Option<U> =>
+    isSome(option) ? other : none()
+  );
+}
+
+/**
+ * Returns true if the option is Some and its value is `===` to the given
+ * value. Use exists for any other notion of equality.
+ */
+export function contains<T>(option: Option<T>, value: T): boolean;
+export function contains<T>(value: T): (option: Option<T>) => boolean;
+export function contains(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, value: T): boolean =>
+    isSome(option) && option.value === value
+  );
+}
+
+/**
+ * Returns true if the option is Some and the predicate holds for its value.
+ */
+export function exists<T>(option: Option<T>, predicate: (value: T) => boolean): boolean;
+export function exists<T>(predicate: (value: T) => boolean): (option: Option<T>) => boolean;
+export function exists(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, predicate: (value: T) => boolean): boolean =>
+    isSome(option) && predicate(option.value)
+  );
+}
+
+/**
+ * Calls fn with the value of a Some for its side effect, e.g. logging, and
+ * returns the option unchanged.
+ */
+export function tap<T>(option: Option<T>, fn: (value: T) => void): Option<T>;
+export function tap<T>(fn: (value: T) => void): (option: Option<T>) => Option<T>;
+export function tap(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T>(option: Option<T>, fn: (value: T) => void): Option<T> => {
+    if (isSome(option)) {
+      fn(option.value);
+    }
     return option;
+  });
+}
+
+/**
+ * Returns the contained value, or throws if the option is None.
+ * The error comes from onNone when given; prefer unwrapOr or match
+ * outside of tests and program boundaries.
+ */
+export function getOrThrow<T>(
+  option: Option<T>,
+  onNone: () => unknown = () => new Error("Called getOrThrow on a None value")
+): T {
+  if (isSome(option)) {
+    return option.value;
+  }
+  throw onNone();
+}
+
+/**
+ * Converts an Option to a nullable value for APIs that use null for absence.
+ */
+export function toNullable<T>(option: Option<T>): T | null {
+  return isSome(option) ? option.value : null;
+}
+
+/**
+ * Converts an Option to a value or undefined, e.g. for optional properties.
+ */
+export function toUndefined<T>(option: Option<T>): T | undefined {
+  return isSome(option) ? option.value : undefined;
+}
+
+/**
+ * Unwraps an Option inside a gen block: `const x = yield* bind(option)`
+ * evaluates to the Some value, or stops the block with None.
+ */
+export function* bind<T>(option: Option<T>): Generator<None, T, unknown> {
+  if (isSome(option)) {
+    return option.value;
+  }
+  yield option;
+  // gen never resumes a block after None, so this is only reachable
+  // when the generator is driven by hand.
+  throw new Error("bind resumed after None; run it inside gen");
+}
+
+/**
+ * Runs a generator as a sequence of Option steps. Each
+ * `yield* bind(option)` either produces the Some value or short-circuits
+ * the block with None; the generator's return value becomes the Some
+ * value.
+ */
+export function gen<T>(body: () => Generator<None, T, unknown>): Option<T> {
+  const iterator = body();
+  const step = iterator.next();
+  if (step.done) {
+    return some(step.value);
   }
+  // Close the generator so any finally blocks in the body run.
+  iterator.return(undefined as never);
   return none();
 }
+
+/**
+ * Derives an Eq for Options: None equals None, and two Somes are equal when
+ * their values are equal under eqT.
+ */
+export function getEq<T>(eqT: Eq<T>): Eq<Option<T>> {
+  return {
+    equals: (x, y) =>
+      isSome(x) ? isSome(y) && eqT.equals(x.value, y.value) : isNone(y),
+  };
+}
+
+/**
+ * Derives an Ord for Options: None comes before every Some, and Somes are
+ * ordered by their values.
+ */
+export function getOrd<T>(ordT: Ord<T>): Ord<Option<T>> {
+  return {
+    equals: getEq(ordT).equals,
+    compare: (x, y) => {
+      if (isSome(x) && isSome(y)) {
+        return ordT.compare(x.value, y.value);
+      }
+      return isSome(x) ? 1 : isSome(y) ? -1 : 0;
+    },
+  };
+}
+
+/**
+ * Derives a Hash for Options from a Hash for the value.
+ */
+export function getHash<T>(hashT: Hash<T>): Hash<Option<T>> {
+  return {
+    equals: getEq(hashT).equals,
+    hash: (option) => (isSome(option) ? combineHash(1, hashT.hash(option.value)) : 0),
+  };
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, type Result } from "./result";
+import { okAsync, errAsync } from "./async-result";
+import { pipe } from "./function";
+import {
+  retry,
+  timeout,
+  fallback,
+  fixed,
+  exponential,
+  jitter,
+  retriesExhausted,
+  timeoutError,
+  type Task,
+  type Scheduler,
+  type RetriesExhausted,
+} from "./policies";
+
+// Resolves every sleep at once and records the requested delays.
+const recordingScheduler = (): Scheduler & { readonly delays: number[] } => {
+  const delays: number[] = [];
+  return {
+    delays,
+    sleep: (ms) => {
+      delays.push(ms);
+      return Promise.resolve();
+    },
+  };
+};
+
+// A sleep that only resolves when its signal aborts, i.e. time never passes.
+const frozenScheduler: Scheduler = {
+  sleep: (_ms, signal) =>
+    new Promise((resolve) => signal?.addEventListener("abort", () => resolve())),
+};
+
+// Fails with the given errors in order, then succeeds with the attempt count.
+const flaky = <E>(...errors: E[]): Task<number, E> & { calls: number } => {
+  const task = Object.assign(
+    async (): Promise<Result<number, E>> => {
+      const error = errors[task.calls];
+      task.calls += 1;
+      return error === undefined ? ok(task.calls) : err(error);
+    },
+    { calls: 0 }
+  );
+  return task;
+};
+
+describe("Policies", () => {
+  describe("Backoff", () => {
+    it("fixed should wait the same delay every time", () => {
+      expect([1, 2, 3].map(fixed(50))).toEqual([50, 50, 50]);
+    });
+
+    it("exponential should grow by the factor up to max", () => {
+      const backoff = exponential({ initial: 100, factor: 3, max: 1000 });
+      expect([1, 2, 3, 4].map(backoff)).toEqual([100, 300, 900, 1000]);
+    });
+
+    it("jitter should stay between 0 and the underlying delay", () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+          fc.integer({ min: 1, max: 10 }),
+          (random, attempt) => {
+            const delay = jitter(exponential({ initial: 10, max: 5000 }), () => random)(attempt);
+            expect(delay).toBeGreaterThanOrEqual(0);
+            expect(delay).toBeLessThanOrEqual(5000);
+          }
+        )
+      );
+    });
+  });
+
+  describe("retry", () => {
+    it("should return the first Ok without retrying again", async () => {
+      const scheduler = recordingScheduler();
+      const task = flaky("e1", "e2");
+      const result = await retry(task, { times: 5, scheduler })();
+      expect(result).toEqual(ok(3));
+      expect(task.calls).toBe(3);
+    });
+
+    it("should wait according to the backoff between attempts", async () => {
+      const scheduler = recordingScheduler();
+      await retry(flaky("e1", "e2", "e3"), {
+        times: 3,
+        backoff: exponential({ initial: 100 }),
+        scheduler,
+      })();
+      expect(scheduler.delays).toEqual([100, 200, 400]);
+    });
+
+    it("should give up with RetriesExhausted carrying the last error", async () => {
+      const scheduler = recordingScheduler();
+      const task = flaky("e1", "e2", "e3");
+      const result = await retry(task, { times: 2, scheduler })();
+      expect(result).toEqual(err(retriesExhausted(3, "e3")));
+      expect(task.calls).toBe(3);
+      if (result._tag === "Err" && typeof result.error === "object") {
+        expect(result.error.attempts).toBe(3);
+        expect(result.error.cause).toBe("e3");
+      }
+    });
+
+    it("should return errors rejected by retryIf immediately", async () => {
+      const task = flaky({ status: 503 }, { status: 404 }, { status: 503 });
+      const result = await retry(task, {
+        times: 5,
+        retryIf: (error) => error.status >= 500,
+        scheduler: recordingScheduler(),
+      })();
+      expect(result).toEqual(err({ status: 404 }));
+      expect(task.calls).toBe(2);
+    });
+
+    it("should not start another attempt when aborted during the backoff", async () => {
+      const controller = new AbortController();
+      const task = flaky("e1", "e2", "e3");
+      const scheduler: Scheduler = {
+        sleep: () => {
+          controller.abort();
+          return Promise.resolve();
+        },
+      };
+      const result = await retry(task, { times: 5, scheduler })(controller.signal);
+      expect(result).toEqual(err("e1"));
+      expect(task.calls).toBe(1);
+    });
+
+    it("should include RetriesExhausted in the error type", () => {
+      const task: Task<number, string> = () => okAsync(1);
+      expectTypeOf(retry(task, { times: 1 })).toEqualTypeOf<
+        Task<number, string | RetriesExhausted<string>>
+      >();
+    });
+  });
+
+  describe("timeout", () => {
+    it("should return the task result when it settles first", async () => {
+      const result = await timeout(() => okAsync(1), { ms: 100, scheduler: frozenScheduler })();
+      expect(result).toEqual(ok(1));
+    });
+
+    it("should return TimeoutError when the timer fires first", async () => {
+      const never: Task<number, string> = () => new Promise(() => undefined);
+      const immediate: Scheduler = { sleep: () => Promise.resolve() };
+      const result = await timeout(never, { ms: 250, scheduler: immediate })();
+      expect(result).toEqual(err(timeoutError(250)));
+      if (result._tag === "Err" && typeof result.error === "object") {
+        expect(result.error._tag).toBe("TimeoutError");
+        expect(result.error.message).toBe("Timed out after 250ms");
+      }
+    });
+
+    it("should abort the task's signal on timeout", async () => {
+      let seen: AbortSignal | undefined;
+      const task: Task<number, string> = (signal) => {
+        seen = signal;
+        return new Promise(() => undefined);
+      };
+      await timeout(task, { ms: 10, scheduler: { sleep: () => Promise.resolve() } })();
+      expect(seen?.aborted).toBe(true);
+    });
+
+    it("should pass an aborted signal to the task when the caller already aborted", async () => {
+      let abortedAtStart: boolean | undefined;
+      const task: Task<number, string> = (signal) => {
+        abortedAtStart = signal?.aborted;
+        return okAsync(1);
+      };
+      const controller = new AbortController();
+      controller.abort();
+      const result = await timeout(task, { ms: 100, scheduler: frozenScheduler })(
+        controller.signal
+      );
+      expect(result).toEqual(ok(1));
+      expect(abortedAtStart).toBe(true);
+    });
+
+    it("should not report a timeout when the caller aborts first", async () => {
+      const controller = new AbortController();
+      const ignoresSignal: Task<number, string> = async () => {
+        controller.abort();
+        await Promise.resolve();
+        return err("cancelled late");
+      };
+      const result = await timeout(ignoresSignal, { ms: 100, scheduler: frozenScheduler })(
+        controller.signal
+      );
+      expect(result).toEqual(err("cancelled late"));
+    });
+
+    it("should work with real timers", async () => {
+      const slow: Task<number, string> = (signal) =>
+        new Promise((resolve) => {
+          const timer = setTimeout(() => resolve(ok(1)), 1000);
+          signal?.addEventListener("abort", () => clearTimeout(timer));
+        });
+      const result = await timeout(slow, 5)();
+      expect(result._tag).toBe("Err");
+    });
+  });
+
+  describe("fallback", () => {
+    it("should leave Ok untouched", async () => {
+      const result = await fallback(() => okAsync(1), () => ok(2))();
+      expect(result).toEqual(ok(1));
+    });
+
+    it("should run the alternative with the error", async () => {
+      const result = await fallback(
+        () => errAsync("primary down"),
+        (error) => okAsync(`cached (${error})`)
+      )();
+      expect(result).toEqual(ok("cached (primary down)"));
+    });
+  });
+
+  describe("Composition", () => {
+    it("should compose retry, timeout and fallback with pipe", async () => {
+      const scheduler = recordingScheduler();
+      const task = flaky("e1", "e2", "e3", "e4");
+      const resilient = pipe(
+        task,
+        retry({ times: 2, backoff: fixed(10), scheduler }),
+        timeout({ ms: 1000, scheduler: frozenScheduler }),
+        fallback(() => ok(-1))
+      );
+      expect(await resilient()).toEqual(ok(-1));
+      expect(task.calls).toBe(3);
+      expect(scheduler.delays).toEqual([10, 10]);
+    });
+  });
+});
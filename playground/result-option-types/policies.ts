@@ -0,0 +1,270 @@
+import { err, isOk } from "./result";
+import { type AsyncResult, type MaybeAsyncResult } from "./async-result";
+import { dual } from "./function";
+
+/**
+ * An async operation that can be run again. Policies wrap a Task and
+ * return a new Task, so they compose with pipe:
+ *
+ * ```ts
+ * const fetchUser = pipe(
+ *   () => tryCatchAsync(() => api.getUser(id)),
+ *   retry({ times: 3, backoff: exponential({ initial: 100 }) }),
+ *   timeout(2000)
+ * );
+ * const user = await fetchUser();
+ * ```
+ *
+ * The signal is aborted when the caller stops waiting, e.g. because a
+ * timeout fired. Tasks that ignore it still work; they just keep running
+ * in the background.
+ */
+export type Task<T, E> = (signal?: AbortSignal) => AsyncResult<T, E>;
+
+/**
+ * Provides the waiting that policies need. Inject a custom scheduler to
+ * control time in tests.
+ */
+export interface Scheduler {
+  /**
+   * Resolves after `ms` milliseconds, or as soon as the signal aborts.
+   */
+  readonly sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Waits with setTimeout and clears the timer when the signal aborts.
+ */
+export const defaultScheduler: Scheduler = {
+  sleep: (ms, signal) =>
+    new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }),
+};
+
+/**
+ * Returned by timeout when the task did not settle in time.
+ */
+export interface TimeoutError extends Error {
+  readonly _tag: "TimeoutError";
+  readonly ms: number;
+}
+
+/**
+ * Creates a TimeoutError for the given limit.
+ */
+export function timeoutError(ms: number): TimeoutError {
+  const error = new Error(`Timed out after ${ms}ms`);
+  error.name = "TimeoutError";
+  return Object.assign(error, { _tag: "TimeoutError" as const, ms });
+}
+
+/**
+ * Returned by retry when every attempt failed with a retryable error.
+ * `cause` is the error of the last attempt.
+ */
+export interface RetriesExhausted<E> extends Error {
+  readonly _tag: "RetriesExhausted";
+  readonly attempts: number;
+  readonly cause: E;
+}
+
+/**
+ * Creates a RetriesExhausted error.
+ */
+export function retriesExhausted<E>(attempts: number, cause: E): RetriesExhausted<E> {
+  const error = new Error(`Gave up after ${attempts} attempts`, { cause });
+  error.name = "RetriesExhausted";
+  return Object.assign(error, { _tag: "RetriesExhausted" as const, attempts, cause });
+}
+
+// --- Backoff ---
+
+/**
+ * Computes the delay in milliseconds before a retry. `retry` is 1 for the
+ * first retry, 2 for the second, and so on.
+ */
+export type Backoff = (retry: number) => number;
+
+/**
+ * Waits the same delay before every retry.
+ */
+export function fixed(ms: number): Backoff {
+  return () => ms;
+}
+
+/**
+ * Multiplies the delay by `factor` after every retry, starting from
+ * `initial` and never exceeding `max`.
+ */
+export function exponential(options: {
+  readonly initial: number;
+  readonly factor?: number;
+  readonly max?: number;
+}): Backoff {
+  const { initial, factor = 2, max = Infinity } = options;
+  return (retry) => Math.min(initial * factor ** (retry - 1), max);
+}
+
+/**
+ * Picks a random delay between 0 and the delay of the given backoff, so
+ * that many clients retrying at once do not retry in lockstep. `random`
+ * can be replaced for deterministic tests.
+ */
+export function jitter(backoff: Backoff, random: () => number = Math.random): Backoff {
+  return (retry) => Math.round(backoff(retry) * random());
+}
+
+// --- Policies ---
+
+export interface RetryOptions<E> {
+  /**
+   * How many times to retry after the first attempt.
+   */
+  readonly times: number;
+  /**
+   * Delay before each retry. Defaults to no delay.
+   */
+  readonly backoff?: Backoff;
+  /**
+   * Decides whether an error is worth retrying. Errors it rejects are
+   * returned immediately. Defaults to retrying every error.
+   */
+  readonly retryIf?: (error: E) => boolean;
+  readonly scheduler?: Scheduler;
+}
+
+/**
+ * Runs the task again while it fails with a retryable error, up to
+ * `times` more attempts. Stops early when the signal aborts.
+ */
+export function retry<T, E>(
+  task: Task<T, E>,
+  options: RetryOptions<E>
+): Task<T, E | RetriesExhausted<E>>;
+export function retry<E>(
+  options: RetryOptions<E>
+): <T>(task: Task<T, E>) => Task<T, E | RetriesExhausted<E>>;
+export function retry(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E>(task: Task<T, E>, options: RetryOptions<E>): Task<T, E | RetriesExhausted<E>> => {
+      const {
+        times,
+        backoff = fixed(0),
+        retryIf = () => true,
+        scheduler = defaultScheduler,
+      } = options;
+      return async (signal) => {
+        for (let attempt = 1; ; attempt++) {
+          const result = await task(signal);
+          if (isOk(result) || !retryIf(result.error) || signal?.aborted) {
+            return result;
+          }
+          if (attempt > times) {
+            return err(retriesExhausted(attempt, result.error));
+          }
+          await scheduler.sleep(backoff(attempt), signal);
+          if (signal?.aborted) {
+            return result;
+          }
+        }
+      };
+    }
+  );
+}
+
+export interface TimeoutOptions {
+  readonly ms: number;
+  readonly scheduler?: Scheduler;
+}
+
+/**
+ * Returns TimeoutError if the task has not settled after `ms`
+ * milliseconds, and aborts the signal passed to the task. An abort from
+ * the caller is passed on to the task too, but is not a timeout: the
+ * task's own result is returned.
+ */
+export function timeout<T, E>(
+  task: Task<T, E>,
+  options: number | TimeoutOptions
+): Task<T, E | TimeoutError>;
+export function timeout(
+  options: number | TimeoutOptions
+): <T, E>(task: Task<T, E>) => Task<T, E | TimeoutError>;
+export function timeout(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E>(task: Task<T, E>, options: number | TimeoutOptions): Task<T, E | TimeoutError> => {
+      const { ms, scheduler = defaultScheduler } =
+        typeof options === "number" ? { ms: options } : options;
+      return async (signal) => {
+        const controller = new AbortController();
+        const abort = (): void => controller.abort();
+        if (signal?.aborted) {
+          abort();
+        } else {
+          signal?.addEventListener("abort", abort, { once: true });
+        }
+        // The sleep also ends when the caller aborts; that is not a
+        // timeout, so the task's own result is awaited instead.
+        const timer = scheduler
+          .sleep(ms, controller.signal)
+          .then(() =>
+            controller.signal.aborted
+              ? new Promise<never>(() => undefined)
+              : err(timeoutError(ms))
+          );
+        try {
+          return await Promise.race([task(controller.signal), timer]);
+        } finally {
+          signal?.removeEventListener("abort", abort);
+          controller.abort();
+        }
+      };
+    }
+  );
+}
+
+/**
+ * Runs an alternative when the task fails. The alternative receives the
+ * error and may itself fail, in which case its error is returned.
+ */
+export function fallback<T, E, U, F>(
+  task: Task<T, E>,
+  alternative: (error: E, signal?: AbortSignal) => MaybeAsyncResult<U, F>
+): Task<T | U, F>;
+export function fallback<E, U, F>(
+  alternative: (error: E, signal?: AbortSignal) => MaybeAsyncResult<U, F>
+): <T>(task: Task<T, E>) => Task<T | U, F>;
+export function fallback(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, U, F>(
+      task: Task<T, E>,
+      alternative: (error: E, signal?: AbortSignal) => MaybeAsyncResult<U, F>
+    ): Task<T | U, F> =>
+      async (signal) => {
+        const result = await task(signal);
+        if (isOk(result)) {
+          return result;
+        }
+        return alternative(result.error, signal);
+      }
+  );
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { ok, err, type Result } from "./result";
+import { okAsync, errAsync } from "./async-result";
+import {
+  bracket,
+  bracketAsync,
+  using,
+  releaseError,
+  type ReleaseError,
+} from "./resource";
+
+interface Handle {
+  readonly id: number;
+  open: boolean;
+}
+
+const openHandle = (): Handle => ({ id: 1, open: true });
+
+describe("Resource", () => {
+  describe("bracket", () => {
+    it("should return the use value and release the resource", () => {
+      const handle = openHandle();
+      const result = bracket(
+        () => ok(handle),
+        (h) => ok(h.id * 10),
+        (h) => {
+          h.open = false;
+          return ok(undefined);
+        }
+      );
+      expect(result).toEqual(ok(10));
+      expect(handle.open).toBe(false);
+    });
+
+    it("should not release when acquire fails", () => {
+      let released = false;
+      const result = bracket(
+        () => err("no handle"),
+        () => ok(1),
+        () => {
+          released = true;
+          return ok(undefined);
+        }
+      );
+      expect(result).toEqual(err("no handle"));
+      expect(released).toBe(false);
+    });
+
+    it("should release and return the use Err", () => {
+      const handle = openHandle();
+      const result = bracket(
+        () => ok(handle),
+        () => err("parse failed"),
+        (h) => {
+          h.open = false;
+          return ok(undefined);
+        }
+      );
+      expect(result).toEqual(err("parse failed"));
+      expect(handle.open).toBe(false);
+    });
+
+    it("should release and rethrow when use throws", () => {
+      const handle = openHandle();
+      expect(() =>
+        bracket(
+          () => ok(handle),
+          (): Result<number, string> => {
+            throw new Error("boom");
+          },
+          (h) => {
+            h.open = false;
+            return err("close failed");
+          }
+        )
+      ).toThrow("boom");
+      expect(handle.open).toBe(false);
+    });
+
+    it("should report a release Err separately from the use outcome", () => {
+      const result = bracket(
+        () => ok(openHandle()),
+        (h) => ok(h.id),
+        () => err("close failed")
+      );
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err" && typeof result.error === "object") {
+        expect(result.error._tag).toBe("ReleaseError");
+        expect(result.error.cause).toBe("close failed");
+        expect(result.error.result).toEqual(ok(1));
+      }
+    });
+
+    it("should type acquire, use and release errors", () => {
+      const result = bracket(
+        (): Result<Handle, "acquire"> => ok(openHandle()),
+        (): Result<number, "use"> => ok(1),
+        (): Result<void, "release"> => ok(undefined)
+      );
+      expectTypeOf(result).toEqualTypeOf<
+        Result<number, "acquire" | "use" | ReleaseError<"release", number, "use">>
+      >();
+    });
+  });
+
+  describe("bracketAsync", () => {
+    it("should await every step and release after use", async () => {
+      const events: string[] = [];
+      const result = await bracketAsync(
+        async () => {
+          events.push("acquire");
+          return ok(openHandle());
+        },
+        async (h) => {
+          events.push("use");
+          return ok(h.id);
+        },
+        async () => {
+          events.push("release");
+          return ok(undefined);
+        }
+      );
+      expect(result).toEqual(ok(1));
+      expect(events).toEqual(["acquire", "use", "release"]);
+    });
+
+    it("should accept sync steps", async () => {
+      const result = await bracketAsync(
+        () => ok(openHandle()),
+        () => errAsync("query failed"),
+        () => ok(undefined)
+      );
+      expect(result).toEqual(err("query failed"));
+    });
+
+    it("should release and reject when use rejects", async () => {
+      let released = false;
+      await expect(
+        bracketAsync(
+          () => okAsync(openHandle()),
+          (): Promise<Result<number, string>> => Promise.reject(new Error("boom")),
+          async () => {
+            released = true;
+            return ok(undefined);
+          }
+        )
+      ).rejects.toThrow("boom");
+      expect(released).toBe(true);
+    });
+
+    it("should report a release Err with the use Err", async () => {
+      const result = await bracketAsync(
+        () => okAsync(openHandle()),
+        () => errAsync("query failed"),
+        () => errAsync("close failed")
+      );
+      expect(result).toEqual(err(releaseError("close failed", err("query failed"))));
+    });
+  });
+
+  describe("using", () => {
+    const disposable = (log: string[], fail = false): AsyncDisposable => ({
+      async [Symbol.asyncDispose]() {
+        log.push("disposed");
+        if (fail) {
+          throw new Error("dispose failed");
+        }
+      },
+    });
+
+    it("should dispose an AsyncDisposable after use", async () => {
+      const log: string[] = [];
+      const result = await using(
+        () => ok(disposable(log)),
+        async () => {
+          log.push("used");
+          return ok("done");
+        }
+      );
+      expect(result).toEqual(ok("done"));
+      expect(log).toEqual(["used", "disposed"]);
+    });
+
+    it("should dispose a sync Disposable", async () => {
+      let disposed = false;
+      const resource: Disposable = {
+        [Symbol.dispose]() {
+          disposed = true;
+        },
+      };
+      await using(() => ok(resource), () => err("failed"));
+      expect(disposed).toBe(true);
+    });
+
+    it("should turn a disposal failure into a ReleaseError", async () => {
+      const result = await using(
+        () => ok(disposable([], true)),
+        () => ok(42)
+      );
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error._tag).toBe("ReleaseError");
+        expect((result.error.cause as Error).message).toBe("dispose failed");
+        expect(result.error.result).toEqual(ok(42));
+      }
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { type Result, err, isErr } from "./result";
+import { type AsyncResult, type MaybeAsyncResult } from "./async-result";
+import { tryCatchAsync } from "./conversions";
+import { identity } from "./function";
+
+/**
+ * Reports that a resource could not be released. `result` is what the use
+ * step produced, so a caller can still see whether the work itself
+ * succeeded before deciding how to handle the leak.
+ */
+export interface ReleaseError<E, T, EU> extends Error {
+  readonly _tag: "ReleaseError";
+  readonly cause: E;
+  readonly result: Result<T, EU>;
+}
+
+/**
+ * Creates a ReleaseError from the release failure and the use outcome.
+ */
+export function releaseError<E, T, EU>(
+  cause: E,
+  result: Result<T, EU>
+): ReleaseError<E, T, EU> {
+  const error = new Error("Failed to release resource", { cause });
+  error.name = "ReleaseError";
+  return Object.assign(error, { _tag: "ReleaseError" as const, cause, result });
+}
+
+/**
+ * Acquires a resource, uses it, and releases it. Release runs whenever
+ * acquire succeeded, whether use returned Ok, returned Err or threw.
+ *
+ * - An acquire Err is returned as-is; there is nothing to release.
+ * - A use Err is returned once the resource has been released.
+ * - A release Err becomes a ReleaseError carrying the use outcome, so it
+ *   cannot be mistaken for a failure of the work itself.
+ *
+ * If use throws, the exception is rethrown after release, as with
+ * try/finally; a release failure on that path is dropped in favor of the
+ * original exception.
+ *
+ * ```ts
+ * bracket(
+ *   () => openFile(path),
+ *   (file) => parse(file.read()),
+ *   (file) => file.close()
+ * );
+ * ```
+ */
+export function bracket<R, T, EA, EU, ER>(
+  acquire: () => Result<R, EA>,
+  use: (resource: R) => Result<T, EU>,
+  release: (resource: R) => Result<unknown, ER>
+): Result<T, EA | EU | ReleaseError<ER, T, EU>> {
+  const acquired = acquire();
+  if (isErr(acquired)) {
+    return acquired;
+  }
+  const resource = acquired.value;
+  let result: Result<T, EU>;
+  try {
+    result = use(resource);
+  } catch (thrown) {
+    try {
+      void release(resource);
+    } catch {
+      // The exception from use is the one worth reporting.
+    }
+    throw thrown;
+  }
+  const released = release(resource);
+  if (isErr(released)) {
+    return err(releaseError(released.error, result));
+  }
+  return result;
+}
+
+/**
+ * Asynchronous version of bracket. Each step may return a Result or a
+ * promise of one; release is awaited before the AsyncResult resolves.
+ */
+export async function bracketAsync<R, T, EA, EU, ER>(
+  acquire: () => MaybeAsyncResult<R, EA>,
+  use: (resource: R) => MaybeAsyncResult<T, EU>,
+  release: (resource: R) => MaybeAsyncResult<unknown, ER>
+): AsyncResult<T, EA | EU | ReleaseError<ER, T, EU>> {
+  const acquired = await acquire();
+  if (isErr(acquired)) {
+    return acquired;
+  }
+  const resource = acquired.value;
+  let result: Result<T, EU>;
+  try {
+    result = await use(resource);
+  } catch (thrown) {
+    try {
+      void (await release(resource));
+    } catch {
+      // The exception from use is the one worth reporting.
+    }
+    throw thrown;
+  }
+  const released = await release(resource);
+  if (isErr(released)) {
+    return err(releaseError(released.error, result));
+  }
+  return result;
+}
+
+/**
+ * Any object that knows how to release itself, following the explicit
+ * resource management protocol.
+ */
+export type DisposableResource = Disposable | AsyncDisposable;
+
+async function dispose(resource: DisposableResource): Promise<void> {
+  if (Symbol.asyncDispose in resource) {
+    await resource[Symbol.asyncDispose]();
+  } else {
+    resource[Symbol.dispose]();
+  }
+}
+
+/**
+ * Like bracketAsync for resources that implement Symbol.asyncDispose or
+ * Symbol.dispose. Disposers report failure by throwing, so a throw or
+ * rejection during disposal becomes a ReleaseError whose cause is the
+ * thrown value.
+ *
+ * ```ts
+ * using(
+ *   () => connect(url),
+ *   (connection) => connection.query(sql)
+ * );
+ * ```
+ */
+export function using<R extends DisposableResource, T, EA, EU>(
+  acquire: () => MaybeAsyncResult<R, EA>,
+  use: (resource: R) => MaybeAsyncResult<T, EU>
+): AsyncResult<T, EA | EU | ReleaseError<unknown, T, EU>> {
+  return bracketAsync(acquire, use, (resource) =>
+    tryCatchAsync(() => dispose(resource), identity)
+  );
+}
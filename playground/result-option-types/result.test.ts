@@ -1,4 +1,4 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf } from "vitest";
 import * as fc from "fast-check";
 import {
   ok,
@@ -14,8 +14,23 @@ import {
   match,
   filter,
   zip,
+  bind,
+  gen,
+  andThen,
+  orElse,
+  flatten,
+  bimap,
+  swap,
+  tap,
+  tapErr,
+  expect as expectOk,
+  getEq,
+  getOrd,
+  getHash,
   type Result,
 } from "./result";
+import { ordNumber, ordString, hashNumber, hashString } from "./compare";
+import { pipe } from "./function";
 
 describe("Result", () => {
   describe("Constructors", () => {
@@ -213,6 +228,218 @@ describe("Result", () => {
     });
   });
 
+  describe("gen", () => {
+    const parsePositive = (x: number): Result<number, string> =>
+      x > 0 ? ok(x) : err(`${x} is not positive`);
+    const parseEven = (x: number): Result<number, { readonly odd: number }> =>
+      x % 2 === 0 ? ok(x) : err({ odd: x });
+
+    it("should return Ok with the block's return value", () => {
+      const result = gen(function* () {
+        const a = yield* bind(parsePositive(2));
+        const b = yield* bind(parseEven(4));
+        return a + b;
+      });
+      expect(result).toEqual(ok(6));
+    });
+
+    it("should short-circuit on the first Err", () => {
+      const reached: string[] = [];
+      const result = gen(function* () {
+        const a = yield* bind(parsePositive(-1));
+        reached.push("after first");
+        const b = yield* bind(parseEven(3));
+        return a + b;
+      });
+      expect(result).toEqual(err("-1 is not positive"));
+      expect(reached).toEqual([]);
+    });
+
+    it("should infer the union of bound error types", () => {
+      const result = gen(function* () {
+        const a = yield* bind(parsePositive(2));
+        const b = yield* bind(parseEven(3));
+        return a + b;
+      });
+      expectTypeOf(result).toEqualTypeOf<
+        Result<number, string | { readonly odd: number }>
+      >();
+      expect(result).toEqual(err({ odd: 3 }));
+    });
+
+    it("should run finally blocks when short-circuiting", () => {
+      let cleanedUp = false;
+      gen(function* () {
+        try {
+          return yield* bind(parsePositive(0));
+        } finally {
+          cleanedUp = true;
+        }
+      });
+      expect(cleanedUp).toBe(true);
+    });
+
+    it("should agree with flatMap (Property-Based)", () => {
+      fc.assert(
+        fc.property(fc.integer(), fc.integer(), (x, y) => {
+          const viaGen = gen(function* () {
+            const a = yield* bind(parsePositive(x));
+            const b = yield* bind(parsePositive(y));
+            return a + b;
+          });
+          const viaFlatMap = flatMap(parsePositive(x), (a) =>
+            map(parsePositive(y), (b) => a + b)
+          );
+          expect(viaGen).toEqual(viaFlatMap);
+        })
+      );
+    });
+  });
+
+  describe("orElse", () => {
+    it("should recover from Err with the fallback's Ok", () => {
+      const cached = (key: string): Result<number, string> =>
+        key === "rate" ? ok(0.05) : err(`no cached ${key}`);
+      expect(orElse(err<string, number>("rate"), cached)).toEqual(ok(0.05));
+      expect(orElse(err<string, number>("fx"), cached)).toEqual(err("no cached fx"));
+    });
+
+    it("should not call the fallback for Ok", () => {
+      let called = false;
+      const result = orElse(ok(1), () => {
+        called = true;
+        return ok(0);
+      });
+      expect(result).toEqual(ok(1));
+      expect(called).toBe(false);
+    });
+
+    it("should widen the error to the fallback's error type", () => {
+      const result = pipe(
+        err<string, number>("missing"),
+        orElse((e: string) => err<number, number>(e.length))
+      );
+      expectTypeOf(result).toEqualTypeOf<Result<number, number>>();
+      expect(result).toEqual(err(7));
+    });
+  });
+
+  describe("andThen", () => {
+    it("should chain like flatMap", () => {
+      const half = (n: number): Result<number, string> =>
+        n % 2 === 0 ? ok(n / 2) : err(`${n} is odd`);
+      expect(pipe(ok<number, string>(8), andThen(half), andThen(half))).toEqual(ok(2));
+      expect(pipe(ok<number, string>(6), andThen(half), andThen(half))).toEqual(err("3 is odd"));
+    });
+  });
+
+  describe("flatten", () => {
+    it("should remove one level of nesting", () => {
+      expect(flatten(ok(ok(1)))).toEqual(ok(1));
+      expect(flatten(ok(err("inner")))).toEqual(err("inner"));
+      expect(flatten(err("outer"))).toEqual(err("outer"));
+    });
+  });
+
+  describe("bimap and swap", () => {
+    it("bimap should map whichever variant is present", () => {
+      const toText = bimap(
+        (n: number) => `value ${n}`,
+        (e: string) => e.toUpperCase()
+      );
+      expect(toText(ok(1))).toEqual(ok("value 1"));
+      expect(toText(err("boom"))).toEqual(err("BOOM"));
+    });
+
+    it("swap should exchange the variants", () => {
+      expect(swap(ok(1))).toEqual(err(1));
+      expect(swap(err("e"))).toEqual(ok("e"));
+    });
+  });
+
+  describe("tap and tapErr", () => {
+    it("should run the effect on their own variant and return the result", () => {
+      const log: string[] = [];
+      const okResult = ok<number, string>(1);
+      const errResult = err<string, number>("boom");
+      expect(tap(okResult, (n) => log.push(`ok ${n}`))).toBe(okResult);
+      expect(tapErr(okResult, (e) => log.push(`err ${e}`))).toBe(okResult);
+      expect(tap(errResult, (n) => log.push(`ok ${n}`))).toBe(errResult);
+      expect(tapErr(errResult, (e) => log.push(`err ${e}`))).toBe(errResult);
+      expect(log).toEqual(["ok 1", "err boom"]);
+    });
+  });
+
+  describe("expect", () => {
+    it("should return the Ok value", () => {
+      expect(expectOk(ok(1), "config must load")).toBe(1);
+    });
+
+    it("should throw with the message and keep the error as cause", () => {
+      try {
+        expectOk(err({ code: 404 }), "config must load");
+        expect.unreachable();
+      } catch (thrown) {
+        expect((thrown as Error).message).toBe("config must load");
+        expect((thrown as Error).cause).toEqual({ code: 404 });
+      }
+    });
+  });
+
+  describe("Combinator Laws (Property-Based)", () => {
+    const arbResult = fc.oneof(
+      fc.integer().map((n) => ok<number, string>(n)),
+      fc.string().map((s) => err<string, number>(s))
+    );
+
+    it("swap is its own inverse", () => {
+      fc.assert(
+        fc.property(arbResult, (r) => {
+          expect(swap(swap(r))).toEqual(r);
+        })
+      );
+    });
+
+    it("bimap with identities is the identity", () => {
+      fc.assert(
+        fc.property(arbResult, (r) => {
+          expect(bimap(r, (x) => x, (e) => e)).toEqual(r);
+        })
+      );
+    });
+
+    it("bimap is map followed by mapErr", () => {
+      const f = (n: number): number => n * 2;
+      const g = (e: string): number => e.length;
+      fc.assert(
+        fc.property(arbResult, (r) => {
+          expect(bimap(r, f, g)).toEqual(mapErr(map(r, f), g));
+        })
+      );
+    });
+
+    it("orElse with ok is the identity on Ok, and recovers every Err", () => {
+      fc.assert(
+        fc.property(arbResult, (r) => {
+          const recovered = orElse(r, (e) => ok(e.length));
+          expect(isOk(recovered)).toBe(true);
+          if (isOk(r)) {
+            expect(recovered).toEqual(r);
+          }
+        })
+      );
+    });
+
+    it("flatten agrees with flatMap of identity", () => {
+      fc.assert(
+        fc.property(arbResult, fc.boolean(), (r, wrapErr) => {
+          const nested = wrapErr ? err<string, Result<number, string>>("outer") : ok(r);
+          expect(flatten(nested)).toEqual(flatMap(nested, (inner) => inner));
+        })
+      );
+    });
+  });
+
   describe("Monad Laws (Property-Based)", () => {
     // Arbitrary for Result<number, string>
     const arbResult = fc.oneof(
@@ -286,4 +513,68 @@ describe("Result", () => {
       );
     });
   });
+
+  describe("Eq, Ord and Hash (Property-Based)", () => {
+    const arbResult = fc.oneof(
+      fc.integer({ min: -3, max: 3 }).map((n) => ok<number, string>(n)),
+      fc.constantFrom("a", "b").map((s) => err<string, number>(s))
+    );
+    const hash = getHash(hashNumber, hashString);
+
+    it("should compare Results structurally", () => {
+      const eq = getEq(ordNumber, ordString);
+      expect(eq.equals(ok(1), ok(1))).toBe(true);
+      expect(eq.equals(err("a"), err("a"))).toBe(true);
+      expect(eq.equals(ok(1), err("a"))).toBe(false);
+      expect(eq.equals(err("a"), err("b"))).toBe(false);
+    });
+
+    it("should order Err before Ok by default", () => {
+      const ord = getOrd(ordNumber, ordString);
+      const sorted = [ok<number, string>(2), err<string, number>("b"), ok(1), err("a")].sort(
+        ord.compare
+      );
+      expect(sorted).toEqual([err("a"), err("b"), ok(1), ok(2)]);
+    });
+
+    it("should order Ok before Err with okFirst", () => {
+      const ord = getOrd(ordNumber, ordString, { okFirst: true });
+      expect(ord.compare(ok(5), err("a"))).toBe(-1);
+      expect(ord.compare(err("a"), ok(5))).toBe(1);
+    });
+
+    it("Ord laws hold in both variant orders", () => {
+      for (const ord of [
+        getOrd(ordNumber, ordString),
+        getOrd(ordNumber, ordString, { okFirst: true }),
+      ]) {
+        fc.assert(
+          fc.property(arbResult, arbResult, arbResult, (x, y, z) => {
+            expect(ord.compare(x, x)).toBe(0);
+            expect(ord.compare(x, y) === 0).toBe(ord.equals(x, y));
+            expect(ord.compare(x, y)).toBe(-ord.compare(y, x) || 0);
+            if (ord.compare(x, y) <= 0 && ord.compare(y, z) <= 0) {
+              expect(ord.compare(x, z)).toBeLessThanOrEqual(0);
+            }
+          })
+        );
+      }
+    });
+
+    it("Hash law: equal Results have equal hashes", () => {
+      fc.assert(
+        fc.property(arbResult, arbResult, (x, y) => {
+          if (hash.equals(x, y)) {
+            expect(hash.hash(x)).toBe(hash.hash(y));
+          }
+        })
+      );
+    });
+
+    it("should let Results be deduplicated by hash", () => {
+      const results = [ok<number, string>(1), err<string, number>("a"), ok(1), err("a")];
+      const unique = new Map(results.map((result) => [hash.hash(result), result]));
+      expect([...unique.values()]).toEqual([ok(1), err("a")]);
+    });
+  });
 });
@@ -1,6 +1,12 @@
+import { dual } from "./function";
+import { type Eq, type Ord, type Hash, combineHash } from "./compare";
+
 /**
  * Represents either success (Ok) or failure (Err).
  * Inspired by Rust's Result<T, E> type.
+ *
+ * The combinators below can be called data-first, `map(result, fn)`, or
+ * data-last, `map(fn)(result)`, which is the form to use with pipe.
  */
 export type Result<T, E> = Ok<T> | Err<E>;
 
@@ -55,11 +61,21 @@ export function isErr<T, E>(result: Result<T, E>): result is Err<E> {
 export function map<T, U, E>(
   result: Result<T, E>,
   fn: (value: T) => U
-): Result<U, E> {
-  if (isOk(result)) {
-    return ok(fn(result.value));
-  }
-  return result;
+): Result<U, E>;
+export function map<T, U>(
+  fn: (value: T) => U
+): <E>(result: Result<T, E>) => Result<U, E>;
+export function map(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U, E>(result: Result<T, E>, fn: (value: T) => U): Result<U, E> => {
+      if (isOk(result)) {
+        return ok(fn(result.value));
+      }
+      return result;
+    }
+  );
 }
 
 /**
@@ -69,28 +85,158 @@ export function map<T, U, E>(
 export function mapErr<T, E, F>(
   result: Result<T, E>,
   fn: (error: E) => F
-): Result<T, F> {
-  if (isErr(result)) {
-    return err(fn(result.error));
-  }
-  return result;
+): Result<T, F>;
+export function mapErr<E, F>(
+  fn: (error: E) => F
+): <T>(result: Result<T, E>) => Result<T, F>;
+export function mapErr(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, F>(result: Result<T, E>, fn: (error: E) => F): Result<T, F> => {
+      if (isErr(result)) {
+        return err(fn(result.error));
+      }
+      return result;
+    }
+  );
 }
 
 /**
- * Maps a Result<T, E> to Result<U, E> by applying a function that returns a Result.
- * Flattens the nested Result<Result<U, E>, E> to Result<U, E>.
+ * Maps a Result<T, E> to Result<U, E | F> by applying a function that returns a Result.
+ * Flattens the nested Result<Result<U, F>, E> to Result<U, E | F>.
  * Also known as 'bind' or 'chain' in other FP contexts.
  */
-export function flatMap<T, U, E>(
+export function flatMap<T, U, E, F = E>(
   result: Result<T, E>,
-  fn: (value: T) => Result<U, E>
-): Result<U, E> {
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F>;
+export function flatMap<T, U, F>(
+  fn: (value: T) => Result<U, F>
+): <E>(result: Result<T, E>) => Result<U, E | F>;
+export function flatMap(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U, E, F>(
+      result: Result<T, E>,
+      fn: (value: T) => Result<U, F>
+    ): Result<U, E | F> => {
+      if (isOk(result)) {
+        return fn(result.value);
+      }
+      return result;
+    }
+  );
+}
+
+/**
+ * Alias of flatMap under its Rust name, for chains that read as
+ * "do this, and then that".
+ */
+export const andThen = flatMap;
+
+/**
+ * Recovers from an Err by running a fallback computation on the error.
+ * The fallback may succeed, turning the Err into an Ok, or fail with a new
+ * error. Ok values pass through untouched.
+ */
+export function orElse<T, E, U, F>(
+  result: Result<T, E>,
+  fn: (error: E) => Result<U, F>
+): Result<T | U, F>;
+export function orElse<E, U, F>(
+  fn: (error: E) => Result<U, F>
+): <T>(result: Result<T, E>) => Result<T | U, F>;
+export function orElse(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, U, F>(result: Result<T, E>, fn: (error: E) => Result<U, F>): Result<T | U, F> => {
+      if (isErr(result)) {
+        return fn(result.error);
+      }
+      return result;
+    }
+  );
+}
+
+/**
+ * Removes one level of nesting: Ok(Ok(x)) becomes Ok(x), and an Err at
+ * either level becomes that Err.
+ */
+export function flatten<T, E, F>(result: Result<Result<T, F>, E>): Result<T, E | F> {
   if (isOk(result)) {
-    return fn(result.value);
+    return result.value;
   }
   return result;
 }
 
+/**
+ * Maps both variants at once: onOk for an Ok value, onErr for an Err.
+ */
+export function bimap<T, E, U, F>(
+  result: Result<T, E>,
+  onOk: (value: T) => U,
+  onErr: (error: E) => F
+): Result<U, F>;
+export function bimap<T, E, U, F>(
+  onOk: (value: T) => U,
+  onErr: (error: E) => F
+): (result: Result<T, E>) => Result<U, F>;
+export function bimap(...args: readonly unknown[]): unknown {
+  return dual(
+    3,
+    args,
+    <T, E, U, F>(
+      result: Result<T, E>,
+      onOk: (value: T) => U,
+      onErr: (error: E) => F
+    ): Result<U, F> => (isOk(result) ? ok(onOk(result.value)) : err(onErr(result.error)))
+  );
+}
+
+/**
+ * Turns an Ok into an Err and an Err into an Ok, e.g. to run Ok-side
+ * combinators over the error.
+ */
+export function swap<T, E>(result: Result<T, E>): Result<E, T> {
+  if (isOk(result)) {
+    return err(result.value);
+  }
+  return ok(result.error);
+}
+
+/**
+ * Calls fn with the Ok value for its side effect, e.g. logging, and
+ * returns the result unchanged.
+ */
+export function tap<T, E>(result: Result<T, E>, fn: (value: T) => void): Result<T, E>;
+export function tap<T>(fn: (value: T) => void): <E>(result: Result<T, E>) => Result<T, E>;
+export function tap(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, E>(result: Result<T, E>, fn: (value: T) => void): Result<T, E> => {
+    if (isOk(result)) {
+      fn(result.value);
+    }
+    return result;
+  });
+}
+
+/**
+ * Calls fn with the Err value for its side effect and returns the result
+ * unchanged.
+ */
+export function tapErr<T, E>(result: Result<T, E>, fn: (error: E) => void): Result<T, E>;
+export function tapErr<E>(fn: (error: E) => void): <T>(result: Result<T, E>) => Result<T, E>;
+export function tapErr(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, E>(result: Result<T, E>, fn: (error: E) => void): Result<T, E> => {
+    if (isErr(result)) {
+      fn(result.error);
+    }
+    return result;
+  });
+}
+
 /**
  * Returns the contained Ok value.
  * Throws an error if the Result is Err.
@@ -106,23 +252,53 @@ export function unwrap<T, E>(result: Result<T, E>): T {
 }
 
 /**
- * Returns the contained Ok value, or the provided default if Err.
+ * Returns the contained Ok value, or throws an Error with the given
+ * message if the Result is Err. The Err value is kept as the thrown
+ * error's cause. Like unwrap, reserve it for cases where an Err is a bug.
  */
-export function unwrapOr<T, E>(result: Result<T, E>, defaultValue: T): T {
+export function expect<T, E>(result: Result<T, E>, message: string): T {
   if (isOk(result)) {
     return result.value;
   }
-  return defaultValue;
+  throw new Error(message, { cause: result.error });
+}
+
+/**
+ * Returns the contained Ok value, or the provided default if Err.
+ */
+export function unwrapOr<T, E>(result: Result<T, E>, defaultValue: T): T;
+export function unwrapOr<T>(defaultValue: T): <E>(result: Result<T, E>) => T;
+export function unwrapOr(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, E>(result: Result<T, E>, defaultValue: T): T => {
+    if (isOk(result)) {
+      return result.value;
+    }
+    return defaultValue;
+  });
 }
 
 /**
  * Returns the contained Ok value, or computes it from a function if Err.
  */
-export function unwrapOrElse<T, E>(result: Result<T, E>, fn: (error: E) => T): T {
-  if (isOk(result)) {
-    return result.value;
-  }
-  return fn(result.error);
+export function unwrapOrElse<T, E>(result: Result<T, E>, fn: (error: E) => T): T;
+export function unwrapOrElse<T, E>(
+  fn: (error: E) => T
+): (result: Result<T, E>) => T;
+export function unwrapOrElse(...args: readonly unknown[]): unknown {
+  return dual(2, args, <T, E>(result: Result<T, E>, fn: (error: E) => T): T => {
+    if (isOk(result)) {
+      return result.value;
+    }
+    return fn(result.error);
+  });
+}
+
+/**
+ * The pair of handlers accepted by match.
+ */
+export interface ResultHandlers<T, E, U> {
+  readonly ok: (value: T) => U;
+  readonly err: (error: E) => U;
 }
 
 /**
@@ -131,15 +307,22 @@ export function unwrapOrElse<T, E>(result: Result<T, E>, fn: (error: E) => T): T
  */
 export function match<T, E, U>(
   result: Result<T, E>,
-  handlers: {
-    readonly ok: (value: T) => U;
-    readonly err: (error: E) => U;
-  }
-): U {
-  if (isOk(result)) {
-    return handlers.ok(result.value);
-  }
-  return handlers.err(result.error);
+  handlers: ResultHandlers<T, E, U>
+): U;
+export function match<T, E, U>(
+  handlers: ResultHandlers<T, E, U>
+): (result: Result<T, E>) => U;
+export function match(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, U>(result: Result<T, E>, handlers: ResultHandlers<T, E, U>): U => {
+      if (isOk(result)) {
+        return handlers.ok(result.value);
+      }
+      return handlers.err(result.error);
+    }
+  );
 }
 
 /**
@@ -151,29 +334,164 @@ export function filter<T, E>(
   result: Result<T, E>,
   predicate: (value: T) => boolean,
   errorFn: (value: T) => E
-): Result<T, E> {
-  if (isOk(result)) {
-    if (predicate(result.value)) {
+): Result<T, E>;
+export function filter<T, E>(
+  predicate: (value: T) => boolean,
+  errorFn: (value: T) => E
+): (result: Result<T, E>) => Result<T, E>;
+export function filter(...args: readonly unknown[]): unknown {
+  return dual(
+    3,
+    args,
+    <T, E>(
+      result: Result<T, E>,
+      predicate: (value: T) => boolean,
+      errorFn: (value: T) => E
+    ): Result<T, E> => {
+      if (isOk(result)) {
+        if (predicate(result.value)) {
+          return result;
+        }
+        return err(errorFn(result.value));
+      }
       return result;
     }
-    return err(errorFn(result.value));
-  }
-  return result;
+  );
 }
 
 /**
  * Combines two Results into a tuple if both are Ok.
  * Returns the first Err encountered if either is Err.
+ * The data-last form, zip(result2)(result1), keeps result1 first.
  */
 export function zip<T1, T2, E>(
   result1: Result<T1, E>,
   result2: Result<T2, E>
-): Result<[T1, T2], E> {
-  if (isErr(result1)) {
-    return err(result1.error);
+): Result<[T1, T2], E>;
+export function zip<T2, E>(
+  result2: Result<T2, E>
+): <T1>(result1: Result<T1, E>) => Result<[T1, T2], E>;
+export function zip(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T1, T2, E>(
+      result1: Result<T1, E>,
+      result2: Result<T2, E>
+    ): Result<[T1, T2], E> => {
+      if (isErr(result1)) {
+        return err(result1.error);
+      }
+      if (isErr(result2)) {
+        return err(result2.error);
+      }
+      return ok([result1.value, result2.value]);
+    }
+  );
+}
+
+/**
+ * Extracts the value type from a Result type.
+ */
+export type ValueOf<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * Extracts the error type from a union of Err variants, e.g. the values
+ * yielded by a gen block.
+ */
+export type ErrorOf<Y> = Y extends Err<infer E> ? E : never;
+
+/**
+ * Unwraps a Result inside a gen block: `const x = yield* bind(result)`
+ * evaluates to the Ok value, or stops the block with the Err.
+ */
+export function* bind<T, E>(result: Result<T, E>): Generator<Err<E>, T, unknown> {
+  if (isOk(result)) {
+    return result.value;
   }
-  if (isErr(result2)) {
-    return err(result2.error);
+  yield result;
+  // gen never resumes a block after an Err, so this is only reachable
+  // when the generator is driven by hand.
+  throw new Error("bind resumed after Err; run it inside gen");
+}
+
+/**
+ * Runs a generator as a sequence of Result steps, replacing a ladder of
+ * early isErr returns. Each `yield* bind(result)` either produces the Ok
+ * value or short-circuits the block with that Err; the generator's return
+ * value becomes the Ok value. The error type is the union of the errors
+ * of every bound Result.
+ *
+ * ```ts
+ * const point = gen(function* () {
+ *   const x = yield* bind(parseX(input));
+ *   const y = yield* bind(parseY(input));
+ *   return { x, y };
+ * });
+ * ```
+ */
+export function gen<Y extends Err<unknown>, T>(
+  body: () => Generator<Y, T, unknown>
+): Result<T, ErrorOf<Y>> {
+  const iterator = body();
+  const step = iterator.next();
+  if (step.done) {
+    return ok(step.value);
   }
-  return ok([result1.value, result2.value]);
+  // Close the generator so any finally blocks in the body run.
+  iterator.return(undefined as never);
+  return step.value as Err<ErrorOf<Y>>;
+}
+
+/**
+ * Derives an Eq for Results: two Oks are equal when their values are
+ * equal under eqT, two Errs when their errors are equal under eqE.
+ */
+export function getEq<T, E>(eqT: Eq<T>, eqE: Eq<E>): Eq<Result<T, E>> {
+  return {
+    equals: (x, y) => {
+      if (isOk(x)) {
+        return isOk(y) && eqT.equals(x.value, y.value);
+      }
+      return isErr(y) && eqE.equals(x.error, y.error);
+    },
+  };
+}
+
+/**
+ * Derives an Ord for Results. Values of the same variant are ordered by
+ * ordT or ordE; by default every Err comes before every Ok, and
+ * `okFirst: true` puts the Oks first instead.
+ */
+export function getOrd<T, E>(
+  ordT: Ord<T>,
+  ordE: Ord<E>,
+  options: { readonly okFirst?: boolean } = {}
+): Ord<Result<T, E>> {
+  const okRank = options.okFirst ? -1 : 1;
+  return {
+    equals: getEq(ordT, ordE).equals,
+    compare: (x, y) => {
+      if (isOk(x) && isOk(y)) {
+        return ordT.compare(x.value, y.value);
+      }
+      if (isErr(x) && isErr(y)) {
+        return ordE.compare(x.error, y.error);
+      }
+      return isOk(x) ? okRank : okRank === 1 ? -1 : 1;
+    },
+  };
+}
+
+/**
+ * Derives a Hash for Results from Hashes for the value and the error.
+ */
+export function getHash<T, E>(hashT: Hash<T>, hashE: Hash<E>): Hash<Result<T, E>> {
+  return {
+    equals: getEq(hashT, hashE).equals,
+    hash: (result) =>
+      isOk(result)
+        ? combineHash(1, hashT.hash(result.value))
+        : combineHash(2, hashE.hash(result.error)),
+  };
 }
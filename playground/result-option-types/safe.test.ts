@@ -0,0 +1,228 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { some, none } from "./option";
+import { ok, type Result } from "./result";
+import {
+  parseJson,
+  parseUrl,
+  parseBigInt,
+  decodeUriComponent,
+  clone,
+  mapGet,
+  regExp,
+  parseNumber,
+  parseInteger,
+  InvalidJson,
+  InvalidUrl,
+  InvalidBigInt,
+  InvalidUriComponent,
+  NotCloneable,
+  InvalidRegExp,
+  InvalidNumber,
+  InvalidInteger,
+  type InvalidNumberError,
+  type InvalidIntegerError,
+} from "./safe";
+
+describe("Safe built-ins", () => {
+  describe("parseJson", () => {
+    it("should return Ok for valid JSON", () => {
+      expect(parseJson("{\"a\":[1,null]}")).toEqual(ok({ a: [1, null] }));
+    });
+
+    it("should return InvalidJson with the SyntaxError as cause", () => {
+      const result = parseJson("{a:1}");
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(InvalidJson.is(result.error)).toBe(true);
+        expect(result.error.input).toBe("{a:1}");
+        expect(result.error.cause).toBeInstanceOf(SyntaxError);
+      }
+    });
+
+    it("should shorten long inputs in the message", () => {
+      const result = parseJson("x".repeat(1000));
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(result.error.message.length).toBeLessThan(100);
+        expect(result.error.input).toHaveLength(1000);
+      }
+    });
+  });
+
+  describe("parseUrl", () => {
+    it("should return Ok for absolute URLs", () => {
+      const result = parseUrl("https://example.com/a?b=1");
+      expect(result._tag).toBe("Ok");
+      if (result._tag === "Ok") {
+        expect(result.value.searchParams.get("b")).toBe("1");
+      }
+    });
+
+    it("should resolve relative URLs against the base", () => {
+      const result = parseUrl("../c", "https://example.com/a/b/");
+      expect(result._tag).toBe("Ok");
+      if (result._tag === "Ok") {
+        expect(result.value.href).toBe("https://example.com/a/c");
+      }
+    });
+
+    it("should return InvalidUrl for relative URLs without a base", () => {
+      const result = parseUrl("/path");
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(InvalidUrl.is(result.error)).toBe(true);
+        expect(result.error.base).toBeUndefined();
+        expect(result.error.cause).toBeInstanceOf(TypeError);
+      }
+    });
+  });
+
+  describe("parseBigInt", () => {
+    it("should parse integers beyond Number.MAX_SAFE_INTEGER", () => {
+      expect(parseBigInt("9007199254740993")).toEqual(ok(9007199254740993n));
+    });
+
+    it("should return InvalidBigInt for non-integers", () => {
+      const result = parseBigInt("1.5");
+      expect(result._tag === "Err" && InvalidBigInt.is(result.error)).toBe(true);
+    });
+  });
+
+  describe("decodeUriComponent", () => {
+    it("should decode valid percent-encoding", () => {
+      expect(decodeUriComponent("a%20b%2Fc")).toEqual(ok("a b/c"));
+    });
+
+    it("should return InvalidUriComponent for malformed sequences", () => {
+      const result = decodeUriComponent("%E0%A4%A");
+      expect(result._tag).toBe("Err");
+      if (result._tag === "Err") {
+        expect(InvalidUriComponent.is(result.error)).toBe(true);
+        expect(result.error.cause).toBeInstanceOf(URIError);
+      }
+    });
+  });
+
+  describe("clone", () => {
+    it("should return a deep copy", () => {
+      const original = { nested: { values: [1, 2] }, when: new Date(0) };
+      const result = clone(original);
+      expect(result).toEqual(ok(original));
+      if (result._tag === "Ok") {
+        expect(result.value.nested).not.toBe(original.nested);
+      }
+    });
+
+    it("should return NotCloneable for functions", () => {
+      const result = clone({ callback: () => 1 });
+      expect(result._tag === "Err" && NotCloneable.is(result.error)).toBe(true);
+    });
+  });
+
+  describe("mapGet", () => {
+    const map = new Map<string, number | undefined>([
+      ["a", 1],
+      ["b", undefined],
+    ]);
+
+    it("should return Some for present keys, even with an undefined value", () => {
+      expect(mapGet(map, "a")).toEqual(some(1));
+      expect(mapGet(map, "b")).toEqual(some(undefined));
+    });
+
+    it("should return None for missing keys", () => {
+      expect(mapGet(map, "c")).toEqual(none());
+    });
+  });
+
+  describe("regExp", () => {
+    it("should compile valid patterns with flags", () => {
+      const result = regExp("^a+$", "i");
+      expect(result._tag === "Ok" && result.value.test("AAA")).toBe(true);
+    });
+
+    it("should return InvalidRegExp for invalid patterns and flags", () => {
+      for (const [pattern, flags] of [["(", undefined], ["a", "zz"]] as const) {
+        const result = regExp(pattern, flags);
+        expect(result._tag).toBe("Err");
+        if (result._tag === "Err") {
+          expect(InvalidRegExp.is(result.error)).toBe(true);
+          expect(result.error).toMatchObject({ pattern, flags });
+        }
+      }
+    });
+  });
+
+  describe("parseNumber", () => {
+    it("should parse decimal and exponent notation", () => {
+      expect(parseNumber("42")).toEqual(ok(42));
+      expect(parseNumber(" -1.5e3 ")).toEqual(ok(-1500));
+    });
+
+    it("should reject blank, non-numeric and non-finite input", () => {
+      for (const input of ["", "  ", "abc", "1px", "NaN", "Infinity"]) {
+        const result = parseNumber(input);
+        expect(result._tag === "Err" && InvalidNumber.is(result.error)).toBe(true);
+      }
+    });
+  });
+
+  describe("parseInteger", () => {
+    it("should parse safe integers", () => {
+      expect(parseInteger("-12")).toEqual(ok(-12));
+      expect(parseInteger("1e3")).toEqual(ok(1000));
+    });
+
+    it("should tell non-numbers apart from non-integers", () => {
+      const notANumber = parseInteger("abc");
+      const notAnInteger = parseInteger("1.5");
+      const tooLarge = parseInteger("9007199254740993");
+      expect(notANumber._tag === "Err" && InvalidNumber.is(notANumber.error)).toBe(true);
+      expect(notAnInteger._tag === "Err" && InvalidInteger.is(notAnInteger.error)).toBe(true);
+      expect(tooLarge._tag === "Err" && InvalidInteger.is(tooLarge.error)).toBe(true);
+    });
+
+    it("should type the error as the union of both variants", () => {
+      expectTypeOf(parseInteger("1")).toEqualTypeOf<
+        Result<number, InvalidNumberError | InvalidIntegerError>
+      >();
+    });
+  });
+
+  describe("Agreement with the built-ins (Property-Based)", () => {
+    it("parseJson returns what JSON.parse returns for serialized values", () => {
+      fc.assert(
+        fc.property(fc.jsonValue(), (value) => {
+          const text = JSON.stringify(value);
+          expect(parseJson(text)).toEqual(ok(JSON.parse(text)));
+        })
+      );
+    });
+
+    it("decodeUriComponent inverts encodeURIComponent", () => {
+      fc.assert(
+        fc.property(fc.string({ unit: "grapheme" }), (text) => {
+          expect(decodeUriComponent(encodeURIComponent(text))).toEqual(ok(text));
+        })
+      );
+    });
+
+    it("parseNumber reads back every finite number", () => {
+      fc.assert(
+        // String(-0) is "0", so -0 reads back as 0.
+        fc.property(fc.double({ noNaN: true, noDefaultInfinity: true }), (value) => {
+          expect(parseNumber(String(value))).toEqual(ok(value === 0 ? 0 : value));
+        })
+      );
+    });
+
+    it("parseBigInt reads back every bigint", () => {
+      fc.assert(
+        fc.property(fc.bigInt(), (value) => {
+          expect(parseBigInt(value.toString())).toEqual(ok(value));
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { type Option, some, none } from "./option";
+import { type Result, ok, err, isErr } from "./result";
+import { tryCatch } from "./conversions";
+import { type TaggedError, taggedError } from "./errors";
+
+// --- Errors ---
+//
+// Each wrapper fails with its own tagged error, which keeps the input that
+// was rejected and, where the built-in threw, the original exception as
+// `cause`.
+
+export type InvalidJsonError = TaggedError<"InvalidJson", { readonly input: string }>;
+export type InvalidUrlError = TaggedError<
+  "InvalidUrl",
+  { readonly input: string; readonly base: string | undefined }
+>;
+export type InvalidBigIntError = TaggedError<"InvalidBigInt", { readonly input: string }>;
+export type InvalidUriComponentError = TaggedError<
+  "InvalidUriComponent",
+  { readonly input: string }
+>;
+export type NotCloneableError = TaggedError<"NotCloneable">;
+export type InvalidRegExpError = TaggedError<
+  "InvalidRegExp",
+  { readonly pattern: string; readonly flags: string | undefined }
+>;
+export type InvalidNumberError = TaggedError<"InvalidNumber", { readonly input: string }>;
+export type InvalidIntegerError = TaggedError<"InvalidInteger", { readonly input: string }>;
+
+export const InvalidJson = taggedError(
+  "InvalidJson",
+  (fields: { readonly input: string }) => `Invalid JSON: ${preview(fields.input)}`
+);
+export const InvalidUrl = taggedError(
+  "InvalidUrl",
+  (fields: { readonly input: string; readonly base: string | undefined }) =>
+    fields.base === undefined
+      ? `Invalid URL: ${preview(fields.input)}`
+      : `Invalid URL: ${preview(fields.input)} relative to ${fields.base}`
+);
+export const InvalidBigInt = taggedError(
+  "InvalidBigInt",
+  (fields: { readonly input: string }) => `Invalid BigInt: ${preview(fields.input)}`
+);
+export const InvalidUriComponent = taggedError(
+  "InvalidUriComponent",
+  (fields: { readonly input: string }) => `Malformed URI component: ${preview(fields.input)}`
+);
+export const NotCloneable = taggedError("NotCloneable", () => "Value cannot be cloned");
+export const InvalidRegExp = taggedError(
+  "InvalidRegExp",
+  (fields: { readonly pattern: string; readonly flags: string | undefined }) =>
+    `Invalid regular expression: /${fields.pattern}/${fields.flags ?? ""}`
+);
+export const InvalidNumber = taggedError(
+  "InvalidNumber",
+  (fields: { readonly input: string }) => `Not a number: ${preview(fields.input)}`
+);
+export const InvalidInteger = taggedError(
+  "InvalidInteger",
+  (fields: { readonly input: string }) => `Not an integer: ${preview(fields.input)}`
+);
+
+// Inputs can be arbitrarily long; messages only quote the start.
+function preview(input: string): string {
+  return JSON.stringify(input.length > 40 ? `${input.slice(0, 40)}…` : input);
+}
+
+// --- Wrappers ---
+
+/**
+ * JSON.parse that returns Err instead of throwing a SyntaxError. The value
+ * is unknown; check its shape with a decoder.
+ */
+export function parseJson(input: string): Result<unknown, InvalidJsonError> {
+  return tryCatch(
+    (): unknown => JSON.parse(input),
+    (thrown) => InvalidJson({ input }, { cause: thrown })
+  );
+}
+
+/**
+ * `new URL(input, base)` that returns Err instead of throwing a TypeError.
+ */
+export function parseUrl(input: string, base?: string | URL): Result<URL, InvalidUrlError> {
+  return tryCatch(
+    () => new URL(input, base),
+    (thrown) => InvalidUrl({ input, base: base?.toString() }, { cause: thrown })
+  );
+}
+
+/**
+ * `BigInt(input)` for strings, returning Err instead of throwing a
+ * SyntaxError. Like BigInt, it accepts surrounding whitespace and treats
+ * an empty string as 0n.
+ */
+export function parseBigInt(input: string): Result<bigint, InvalidBigIntError> {
+  return tryCatch(
+    () => BigInt(input),
+    (thrown) => InvalidBigInt({ input }, { cause: thrown })
+  );
+}
+
+/**
+ * decodeURIComponent that returns Err instead of throwing a URIError for
+ * malformed percent-encoding.
+ */
+export function decodeUriComponent(input: string): Result<string, InvalidUriComponentError> {
+  return tryCatch(
+    () => decodeURIComponent(input),
+    (thrown) => InvalidUriComponent({ input }, { cause: thrown })
+  );
+}
+
+/**
+ * structuredClone that returns Err instead of throwing for values that
+ * cannot be cloned, such as functions and class instances holding them.
+ */
+export function clone<T>(value: T): Result<T, NotCloneableError> {
+  return tryCatch(
+    () => structuredClone(value),
+    (thrown) => NotCloneable({}, { cause: thrown })
+  );
+}
+
+/**
+ * Map.prototype.get that tells a missing key apart from a key stored with
+ * the value undefined. Returns Some(value) when the map has the key.
+ */
+export function mapGet<K, V>(map: ReadonlyMap<K, V>, key: K): Option<V> {
+  return map.has(key) ? some(map.get(key) as V) : none();
+}
+
+/**
+ * `new RegExp(pattern, flags)` that returns Err instead of throwing a
+ * SyntaxError, e.g. for patterns built from user input.
+ */
+export function regExp(pattern: string, flags?: string): Result<RegExp, InvalidRegExpError> {
+  return tryCatch(
+    () => new RegExp(pattern, flags),
+    (thrown) => InvalidRegExp({ pattern, flags }, { cause: thrown })
+  );
+}
+
+/**
+ * Parses a finite number with the syntax Number accepts. Unlike
+ * Number(input), blank strings are rejected rather than read as 0, and so
+ * are NaN and Infinity.
+ */
+export function parseNumber(input: string): Result<number, InvalidNumberError> {
+  const value = input.trim() === "" ? NaN : Number(input);
+  return Number.isFinite(value) ? ok(value) : err(InvalidNumber({ input }));
+}
+
+/**
+ * Parses an integer that a number can represent exactly, i.e. within
+ * Number.MAX_SAFE_INTEGER. Use parseBigInt for larger values.
+ */
+export function parseInteger(
+  input: string
+): Result<number, InvalidNumberError | InvalidIntegerError> {
+  const parsed = parseNumber(input);
+  if (isErr(parsed) || Number.isSafeInteger(parsed.value)) {
+    return parsed;
+  }
+  return err(InvalidInteger({ input }));
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, type Result } from "./result";
+import { some, none, type Option } from "./option";
+import { string, number, object, array } from "./decoder";
+import { taggedError, rootCause } from "./errors";
+import {
+  toJSON,
+  fromJSON,
+  fromDecoder,
+  optionCodec,
+  resultCodec,
+  errorCodec,
+  json,
+  type Codec,
+  type Json,
+} from "./serialization";
+
+const NotFound = taggedError("NotFound", (fields: { id: string }) => `No record ${fields.id}`);
+
+// Encodes, sends through a JSON string, and decodes again.
+const roundTrip = <T>(valueCodec: Codec<T>, value: T): Result<T, unknown> =>
+  fromJSON(valueCodec, JSON.parse(JSON.stringify(toJSON(valueCodec, value))));
+
+describe("Serialization", () => {
+  const numberCodec = fromDecoder(number);
+  const stringCodec = fromDecoder(string);
+
+  describe("Wire format", () => {
+    it("should write Options as versioned envelopes", () => {
+      const codec = optionCodec(numberCodec);
+      expect(toJSON(codec, some(42))).toEqual({ v: 1, _tag: "Some", value: 42 });
+      expect(toJSON(codec, none())).toEqual({ v: 1, _tag: "None" });
+    });
+
+    it("should write Results as versioned envelopes", () => {
+      const codec = resultCodec(numberCodec, stringCodec);
+      expect(toJSON(codec, ok(1))).toEqual({ v: 1, _tag: "Ok", value: 1 });
+      expect(toJSON(codec, err("boom"))).toEqual({ v: 1, _tag: "Err", error: "boom" });
+    });
+
+    it("should encode nested values with their own codecs", () => {
+      const codec = resultCodec(optionCodec(numberCodec), stringCodec);
+      expect(toJSON(codec, ok(some(1)))).toEqual({
+        v: 1,
+        _tag: "Ok",
+        value: { v: 1, _tag: "Some", value: 1 },
+      });
+    });
+  });
+
+  describe("fromJSON", () => {
+    const codec = resultCodec(numberCodec, stringCodec);
+
+    it("should return the sent Result inside Ok", () => {
+      expect(fromJSON(codec, { v: 1, _tag: "Err", error: "boom" })).toEqual(ok(err("boom")));
+    });
+
+    it("should reject an unknown version", () => {
+      expect(fromJSON(codec, { v: 2, _tag: "Ok", value: 1 })).toEqual(
+        err({ _tag: "DecodeError", path: ["v"], expected: "version 1", actual: "2" })
+      );
+    });
+
+    it("should reject an unknown tag", () => {
+      expect(fromJSON(codec, { v: 1, _tag: "Some", value: 1 })).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: ["_tag"],
+          expected: "\"Ok\" | \"Err\"",
+          actual: "\"Some\"",
+        })
+      );
+    });
+
+    it("should report payload errors at their path", () => {
+      const nested = resultCodec(optionCodec(numberCodec), stringCodec);
+      expect(
+        fromJSON(nested, { v: 1, _tag: "Ok", value: { v: 1, _tag: "Some", value: "1" } })
+      ).toEqual(
+        err({
+          _tag: "DecodeError",
+          path: ["value", "value"],
+          expected: "number",
+          actual: "string",
+        })
+      );
+    });
+
+    it("should reject non-objects", () => {
+      expect(fromJSON(codec, "Ok")._tag).toBe("Err");
+      expect(fromJSON(optionCodec(numberCodec), null)._tag).toBe("Err");
+    });
+  });
+
+  describe("errorCodec", () => {
+    it("should keep name, message and tagged fields", () => {
+      const decoded = roundTrip(errorCodec, NotFound({ id: "7" }));
+      expect(decoded._tag).toBe("Ok");
+      if (decoded._tag === "Ok") {
+        expect(decoded.value).toBeInstanceOf(Error);
+        expect(decoded.value.name).toBe("NotFound");
+        expect(decoded.value.message).toBe("No record 7");
+        expect(decoded.value).toMatchObject({ _tag: "NotFound", id: "7" });
+      }
+    });
+
+    it("should keep the cause chain", () => {
+      const error = NotFound({ id: "7" }, { cause: new Error("ECONNRESET", { cause: 503 }) });
+      const decoded = roundTrip(errorCodec, error);
+      expect(decoded._tag).toBe("Ok");
+      if (decoded._tag === "Ok") {
+        expect((decoded.value.cause as Error).message).toBe("ECONNRESET");
+        expect(rootCause(decoded.value)).toBe(503);
+      }
+    });
+
+    it("should not send stack traces", () => {
+      expect(toJSON(errorCodec, new Error("boom"))).toEqual({ name: "Error", message: "boom" });
+    });
+
+    it("should stop encoding a cause chain where it loops", () => {
+      const first = new Error("first");
+      const second = new Error("second", { cause: first });
+      first.cause = second;
+      expect(toJSON(errorCodec, first)).toEqual({
+        name: "Error",
+        message: "first",
+        cause: { name: "Error", message: "second" },
+      });
+    });
+
+    it("should not let decoded fields replace the prototype or the message", () => {
+      const decoded = fromJSON(
+        errorCodec,
+        // A computed key makes "__proto__" an own key, as JSON.parse does.
+        JSON.parse(
+          JSON.stringify({
+            name: "NotFound",
+            message: "No record 7",
+            fields: { ["__proto__"]: { polluted: true }, message: "forged", stack: "forged", id: "7" },
+          })
+        )
+      );
+      expect(decoded._tag).toBe("Ok");
+      if (decoded._tag === "Ok") {
+        expect(decoded.value).toBeInstanceOf(Error);
+        expect(decoded.value.message).toBe("No record 7");
+        expect(decoded.value.stack).not.toBe("forged");
+        expect(decoded.value).toMatchObject({ id: "7" });
+        expect("polluted" in decoded.value).toBe(false);
+      }
+    });
+
+    it("should skip fields that are not plain JSON or that contain themselves", () => {
+      const error = NotFound({ id: "7" });
+      const loop: Record<string, unknown> = { id: "loop" };
+      loop.self = loop;
+      Object.assign(error, { back: { error }, loop, at: new Date(0), tags: new Map() });
+      expect(toJSON(errorCodec, error)).toEqual({
+        name: "NotFound",
+        message: "No record 7",
+        fields: { _tag: "NotFound", id: "7" },
+      });
+    });
+
+    it("should carry Errors inside a Result", () => {
+      const codec = resultCodec(numberCodec, errorCodec);
+      const decoded = roundTrip(codec, err(new TypeError("bad input")));
+      expect(decoded).toMatchObject({
+        _tag: "Ok",
+        value: { _tag: "Err", error: { name: "TypeError", message: "bad input" } },
+      });
+    });
+  });
+
+  describe("json", () => {
+    it("should accept plain objects, arrays and primitives", () => {
+      const bare = Object.assign(Object.create(null) as object, { id: 1 });
+      expect(fromJSON(json, { a: [1, "b", null, { c: true }] })._tag).toBe("Ok");
+      expect(fromJSON(json, bare)._tag).toBe("Ok");
+    });
+
+    it("should reject class instances such as Date, Map and URL", () => {
+      expect(fromJSON(json, new Date(0))._tag).toBe("Err");
+      expect(fromJSON(json, { at: new Map() })._tag).toBe("Err");
+      expect(fromJSON(json, [new URL("https://example.com")])._tag).toBe("Err");
+    });
+
+    it("should reject a value that contains itself", () => {
+      const loop: Record<string, unknown> = {};
+      loop.items = [loop];
+      expect(fromJSON(json, loop)._tag).toBe("Err");
+      const shared = { id: 1 };
+      expect(fromJSON(json, { first: shared, second: shared })._tag).toBe("Ok");
+    });
+  });
+
+  describe("Round-trip (Property-Based)", () => {
+    const arbOption = <T>(arb: fc.Arbitrary<T>): fc.Arbitrary<Option<T>> =>
+      fc.oneof(arb.map((value) => some(value)), fc.constant(none<T>()));
+    const arbResult = <T, E>(
+      arbT: fc.Arbitrary<T>,
+      arbE: fc.Arbitrary<E>
+    ): fc.Arbitrary<Result<T, E>> =>
+      fc.oneof(
+        arbT.map((value) => ok<T, E>(value)),
+        arbE.map((error) => err<E, T>(error))
+      );
+
+    it("Option<number> survives encoding and decoding", () => {
+      fc.assert(
+        fc.property(arbOption(fc.integer()), (option) => {
+          expect(roundTrip(optionCodec(numberCodec), option)).toEqual(ok(option));
+        })
+      );
+    });
+
+    it("Result<Option<string>, number> survives encoding and decoding", () => {
+      const codec = resultCodec(optionCodec(stringCodec), numberCodec);
+      fc.assert(
+        fc.property(arbResult(arbOption(fc.string()), fc.integer()), (result) => {
+          expect(roundTrip(codec, result)).toEqual(ok(result));
+        })
+      );
+    });
+
+    it("Result of structured payloads survives encoding and decoding", () => {
+      const point = fromDecoder(object({ x: number, tags: array(string) }));
+      const codec = resultCodec(point, json);
+      const arbPoint = fc.record({ x: fc.integer(), tags: fc.array(fc.string()) });
+      // Parsing normalizes values JSON cannot tell apart, such as -0 and 0.
+      const arbJson = fc.jsonValue().map((value): Json => JSON.parse(JSON.stringify(value)));
+      fc.assert(
+        fc.property(arbResult(arbPoint, arbJson), (result) => {
+          expect(roundTrip(codec, result)).toEqual(ok(result));
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { type Result, ok, err, isOk, isErr } from "./result";
+import { type Option, some, none, isSome } from "./option";
+import {
+  type Decoder,
+  type DecodeError,
+  type DecodePath,
+  decode,
+  decodeError,
+  describeLiteral,
+} from "./decoder";
+
+/**
+ * A value that survives JSON.stringify and JSON.parse unchanged.
+ */
+export type Json =
+  | null
+  | boolean
+  | number
+  | string
+  | readonly Json[]
+  | { readonly [key: string]: Json };
+
+/**
+ * A Decoder that can also turn a T back into JSON, so the two directions
+ * of a wire format are defined in one place.
+ */
+export interface Codec<T> extends Decoder<T> {
+  readonly encode: (value: T) => Json;
+}
+
+/**
+ * The version written into every encoded Option and Result. Decoding
+ * rejects any other version rather than guessing at its shape.
+ */
+export const WIRE_VERSION = 1;
+
+/**
+ * How an Option is written on the wire.
+ */
+export type OptionJson =
+  | { readonly v: typeof WIRE_VERSION; readonly _tag: "Some"; readonly value: Json }
+  | { readonly v: typeof WIRE_VERSION; readonly _tag: "None" };
+
+/**
+ * How a Result is written on the wire.
+ */
+export type ResultJson =
+  | { readonly v: typeof WIRE_VERSION; readonly _tag: "Ok"; readonly value: Json }
+  | { readonly v: typeof WIRE_VERSION; readonly _tag: "Err"; readonly error: Json };
+
+/**
+ * Builds a codec from a decoder and the matching encoder.
+ */
+export function codec<T>(decoder: Decoder<T>, encode: (value: T) => Json): Codec<T> {
+  return { expected: decoder.expected, decode: decoder.decode, encode };
+}
+
+/**
+ * Turns a decoder for JSON-compatible values into a codec that writes
+ * values unchanged.
+ */
+export function fromDecoder<T extends Json>(decoder: Decoder<T>): Codec<T> {
+  return codec(decoder, (value) => value);
+}
+
+/**
+ * Encodes a value with a codec.
+ */
+export function toJSON<T>(valueCodec: Codec<T>, value: T): Json {
+  return valueCodec.encode(value);
+}
+
+/**
+ * Decodes and validates a parsed JSON value with a codec. For a Result
+ * codec this returns `Result<Result<T, E>, DecodeError>`: the outer
+ * Result says whether the payload was well-formed, the inner one is the
+ * value that was sent.
+ */
+export function fromJSON<T>(valueCodec: Codec<T>, input: unknown): Result<T, DecodeError> {
+  return decode(valueCodec, input);
+}
+
+// Plain objects only, as JSON.parse builds them: a Date, Map, URL or class
+// instance is not a record of its fields.
+function isRecord(input: unknown): input is Readonly<Record<string, unknown>> {
+  if (typeof input !== "object" || input === null) {
+    return false;
+  }
+  const prototype: unknown = Object.getPrototypeOf(input);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Checks the parts shared by every envelope: an object, the version and
+// one of the expected tags.
+function decodeEnvelope(
+  input: unknown,
+  path: DecodePath,
+  tags: readonly [string, string]
+): Result<Readonly<Record<string, unknown>> & { readonly _tag: string }, DecodeError> {
+  const expected = tags.map((tag) => `${tag} envelope`).join(" | ");
+  if (!isRecord(input)) {
+    return err(decodeError(path, expected, input));
+  }
+  if (input.v !== WIRE_VERSION) {
+    return err(
+      decodeError([...path, "v"], `version ${WIRE_VERSION}`, input.v, describeLiteral(input.v))
+    );
+  }
+  const tag = input._tag;
+  if (typeof tag !== "string" || !tags.includes(tag)) {
+    const expectedTag = tags.map((name) => JSON.stringify(name)).join(" | ");
+    return err(decodeError([...path, "_tag"], expectedTag, tag, describeLiteral(tag)));
+  }
+  return ok({ ...input, _tag: tag });
+}
+
+/**
+ * The wire format for Option<T>, with values written by valueCodec.
+ *
+ * ```json
+ * { "v": 1, "_tag": "Some", "value": 42 }
+ * { "v": 1, "_tag": "None" }
+ * ```
+ */
+export function optionCodec<T>(valueCodec: Codec<T>): Codec<Option<T>> {
+  return {
+    expected: `Option<${valueCodec.expected}>`,
+    encode: (option): OptionJson =>
+      isSome(option)
+        ? { v: WIRE_VERSION, _tag: "Some", value: valueCodec.encode(option.value) }
+        : { v: WIRE_VERSION, _tag: "None" },
+    decode: (input, path = []) => {
+      const envelope = decodeEnvelope(input, path, ["Some", "None"]);
+      if (isErr(envelope)) {
+        return envelope;
+      }
+      if (envelope.value._tag === "None") {
+        return ok(none());
+      }
+      const value = valueCodec.decode(envelope.value.value, [...path, "value"]);
+      return isOk(value) ? ok(some(value.value)) : value;
+    },
+  };
+}
+
+/**
+ * The wire format for Result<T, E>, with values written by valueCodec and
+ * errors by errorCodec.
+ *
+ * ```json
+ * { "v": 1, "_tag": "Ok", "value": 42 }
+ * { "v": 1, "_tag": "Err", "error": { "name": "Error", "message": "boom" } }
+ * ```
+ */
+export function resultCodec<T, E>(
+  valueCodec: Codec<T>,
+  errorCodec: Codec<E>
+): Codec<Result<T, E>> {
+  return {
+    expected: `Result<${valueCodec.expected}, ${errorCodec.expected}>`,
+    encode: (result): ResultJson =>
+      isOk(result)
+        ? { v: WIRE_VERSION, _tag: "Ok", value: valueCodec.encode(result.value) }
+        : { v: WIRE_VERSION, _tag: "Err", error: errorCodec.encode(result.error) },
+    decode: (input, path = []) => {
+      const envelope = decodeEnvelope(input, path, ["Ok", "Err"]);
+      if (isErr(envelope)) {
+        return envelope;
+      }
+      if (envelope.value._tag === "Ok") {
+        const value = valueCodec.decode(envelope.value.value, [...path, "value"]);
+        return isOk(value) ? ok(ok(value.value)) : value;
+      }
+      const error = errorCodec.decode(envelope.value.error, [...path, "error"]);
+      return isOk(error) ? ok(err(error.value)) : error;
+    },
+  };
+}
+
+// `seen` holds the arrays and objects further up, so a value that contains
+// itself is not JSON rather than checked forever.
+function isJson(input: unknown, seen: ReadonlySet<object> = new Set()): input is Json {
+  if (input === null || typeof input === "string" || typeof input === "boolean") {
+    return true;
+  }
+  if (typeof input === "number") {
+    return Number.isFinite(input);
+  }
+  if (typeof input !== "object" || seen.has(input)) {
+    return false;
+  }
+  const inner = new Set(seen).add(input);
+  if (Array.isArray(input)) {
+    return input.every((element) => isJson(element, inner));
+  }
+  return isRecord(input) && Object.values(input).every((value) => isJson(value, inner));
+}
+
+/**
+ * Accepts any JSON value and writes it unchanged. Use it for payloads
+ * whose shape is checked elsewhere.
+ */
+export const json: Codec<Json> = {
+  expected: "JSON value",
+  encode: (value) => value,
+  decode: (input, path = []) =>
+    isJson(input) ? ok(input) : err(decodeError(path, "JSON value", input)),
+};
+
+// Error fields that are written explicitly rather than copied.
+const ERROR_KEYS = new Set(["name", "message", "stack", "cause"]);
+// Keys that are never copied from the wire onto a decoded error.
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+// Encodes an error and its cause chain. `seen` holds the errors further
+// up the chain, so a chain that loops stops where it would repeat, as in
+// `causes` from errors.ts.
+function encodeError(error: Error, seen: ReadonlySet<unknown>): Json {
+  const fields = Object.fromEntries(
+    Object.entries(error).filter(([key, value]) => !ERROR_KEYS.has(key) && isJson(value))
+  ) as Record<string, Json>;
+  const chain = new Set(seen).add(error);
+  const cause = chain.has(error.cause) ? undefined : error.cause;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(Object.keys(fields).length > 0 ? { fields } : {}),
+    ...(cause !== undefined ? { cause: encodeCause(cause, chain) } : {}),
+  };
+}
+
+function encodeCause(cause: unknown, seen: ReadonlySet<unknown>): Json {
+  if (cause instanceof Error) {
+    return encodeError(cause, seen);
+  }
+  return isJson(cause) ? cause : String(cause);
+}
+
+/**
+ * The wire format for Error objects. JSON.stringify drops an Error's
+ * message and name; this codec writes them, every enumerable field that
+ * holds plain JSON, such as a TaggedError's `_tag`, and the cause chain.
+ * Stack traces are not sent. Decoding rebuilds an Error with the same
+ * name, message, fields and causes.
+ *
+ * ```json
+ * { "name": "NotFound", "message": "No record 7", "fields": { "_tag": "NotFound", "id": "7" } }
+ * ```
+ */
+export const errorCodec: Codec<Error> = {
+  expected: "error object",
+  encode: (error) => encodeError(error, new Set()),
+  decode: (input, path = []) => {
+    if (!isRecord(input) || typeof input.name !== "string" || typeof input.message !== "string") {
+      return err(decodeError(path, "error object", input));
+    }
+    const fields = input.fields ?? {};
+    if (!isRecord(fields)) {
+      return err(decodeError([...path, "fields"], "object", fields));
+    }
+    let cause: unknown = input.cause;
+    if (isRecord(cause) && typeof cause.name === "string" && typeof cause.message === "string") {
+      const decoded = errorCodec.decode(cause, [...path, "cause"]);
+      if (isErr(decoded)) {
+        return decoded;
+      }
+      cause = decoded.value;
+    }
+    const error = new Error(input.message, cause === undefined ? undefined : { cause });
+    error.name = input.name;
+    // Fields are copied one by one, never over the error's own name,
+    // message, stack or cause, and never onto its prototype.
+    for (const [key, value] of Object.entries(fields)) {
+      if (!ERROR_KEYS.has(key) && !UNSAFE_KEYS.has(key)) {
+        Object.defineProperty(error, key, {
+          value,
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+    }
+    return ok(error);
+  },
+};
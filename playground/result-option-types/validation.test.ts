@@ -0,0 +1,210 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import * as fc from "fast-check";
+import { ok, err, type Result } from "./result";
+import {
+  valid,
+  invalid,
+  isValid,
+  isInvalid,
+  fromResult,
+  toResult,
+  map,
+  mapErr,
+  zip,
+  all,
+  struct,
+  validateAll,
+  match,
+  type Validation,
+} from "./validation";
+import { pipe } from "./function";
+
+describe("Validation", () => {
+  describe("Constructors", () => {
+    it("should create Valid with a value", () => {
+      const validation = valid(42);
+      expect(isValid(validation)).toBe(true);
+      expect(isInvalid(validation)).toBe(false);
+    });
+
+    it("should create Invalid with one or more errors", () => {
+      expect(invalid("a")).toEqual({ _tag: "Invalid", errors: ["a"] });
+      expect(invalid("a", "b")).toEqual({ _tag: "Invalid", errors: ["a", "b"] });
+    });
+  });
+
+  describe("Result conversions", () => {
+    it("fromResult should map Ok to Valid and Err to a single error", () => {
+      expect(fromResult(ok(1))).toEqual(valid(1));
+      expect(fromResult(err("e"))).toEqual(invalid("e"));
+    });
+
+    it("fromResult should return Validations unchanged", () => {
+      const validation = invalid("a", "b");
+      expect(fromResult(validation)).toBe(validation);
+    });
+
+    it("toResult should map Invalid to Err with every error", () => {
+      expect(toResult(valid(1))).toEqual(ok(1));
+      expect(toResult(invalid("a", "b"))).toEqual(err(["a", "b"]));
+    });
+  });
+
+  describe("map", () => {
+    it("should transform Valid value", () => {
+      expect(map(valid(5), (x) => x * 2)).toEqual(valid(10));
+    });
+
+    it("should leave Invalid untouched", () => {
+      expect(map(invalid<string, number>("e"), (x) => x * 2)).toEqual(invalid("e"));
+    });
+  });
+
+  describe("mapErr", () => {
+    it("should transform each error", () => {
+      expect(mapErr(invalid("a", "bb"), (e) => e.length)).toEqual(invalid(1, 2));
+    });
+
+    it("should leave Valid untouched", () => {
+      expect(mapErr(valid<number, string>(1), (e) => e.length)).toEqual(valid(1));
+    });
+  });
+
+  describe("zip", () => {
+    it("should combine two Valid values", () => {
+      expect(zip(valid(1), ok("a"))).toEqual(valid([1, "a"]));
+    });
+
+    it("should keep the errors of both sides in order", () => {
+      expect(zip(err("first"), invalid("second", "third"))).toEqual(
+        invalid("first", "second", "third")
+      );
+    });
+
+    it("should return the only Invalid side", () => {
+      expect(zip(valid(1), err("e"))).toEqual(invalid("e"));
+      expect(zip(err("e"), valid(1))).toEqual(invalid("e"));
+    });
+
+    it("should support the data-last form", () => {
+      expect(pipe(ok(1), zip(ok(2)))).toEqual(valid([1, 2]));
+    });
+  });
+
+  describe("all", () => {
+    it("should combine a tuple of Results and Validations", () => {
+      const count: Result<number, string> = ok(1);
+      const name: Validation<string, string> = valid("a");
+      const flag: Result<boolean, number> = ok(true);
+      const combined = all([count, name, flag]);
+      expectTypeOf(combined).toEqualTypeOf<
+        Validation<[number, string, boolean], string | number>
+      >();
+      expect(combined).toEqual(valid([1, "a", true]));
+    });
+
+    it("should collect every error in input order", () => {
+      const combined = all([err("a"), ok(1), invalid("b", "c"), err("d")]);
+      expect(combined).toEqual(invalid("a", "b", "c", "d"));
+    });
+
+    it("should be Valid for an empty tuple", () => {
+      expect(all([])).toEqual(valid([]));
+    });
+  });
+
+  describe("struct", () => {
+    it("should combine a record of Results", () => {
+      const combined = struct({
+        name: ok<string, string>("Ada"),
+        age: ok<number, string>(36),
+      });
+      expectTypeOf(combined).toEqualTypeOf<
+        Validation<{ name: string; age: number }, string>
+      >();
+      expect(combined).toEqual(valid({ name: "Ada", age: 36 }));
+    });
+
+    it("should report every failing field", () => {
+      const combined = struct({
+        name: err("name is empty"),
+        age: ok(36),
+        email: err("email is invalid"),
+      });
+      expect(combined).toEqual(invalid("name is empty", "email is invalid"));
+    });
+  });
+
+  describe("validateAll", () => {
+    const minLength = (s: string): Result<string, string> =>
+      s.length >= 8 ? ok(s) : err("too short");
+    const hasDigit = (s: string): Result<string, string> =>
+      /\d/.test(s) ? ok(s) : err("needs a digit");
+
+    it("should return the value when every validator passes", () => {
+      expect(validateAll("password1", [minLength, hasDigit])).toEqual(
+        valid("password1")
+      );
+    });
+
+    it("should collect the failures of every validator", () => {
+      expect(validateAll("pass", [minLength, hasDigit])).toEqual(
+        invalid("too short", "needs a digit")
+      );
+    });
+
+    it("should support the data-last form", () => {
+      const checkPassword = validateAll([minLength, hasDigit]);
+      expect(checkPassword("longpassword")).toEqual(invalid("needs a digit"));
+    });
+  });
+
+  describe("match", () => {
+    it("should call the handler for each variant", () => {
+      const handlers = {
+        valid: (x: number) => `valid ${x}`,
+        invalid: (errors: readonly string[]) => errors.join(", "),
+      };
+      expect(match(valid(1), handlers)).toBe("valid 1");
+      expect(match(invalid("a", "b"), handlers)).toBe("a, b");
+    });
+  });
+
+  describe("Accumulation (Property-Based)", () => {
+    const arbResult = fc.oneof(
+      fc.integer().map((n) => ok<number, string>(n)),
+      fc.string().map((s) => err<string, number>(s))
+    );
+
+    it("all collects exactly the errors of the failing inputs", () => {
+      fc.assert(
+        fc.property(fc.array(arbResult), (results) => {
+          const expectedErrors = results.flatMap((r) =>
+            r._tag === "Err" ? [r.error] : []
+          );
+          const combined = all(results);
+          if (expectedErrors.length === 0) {
+            expect(combined).toEqual(
+              valid(results.map((r) => (r._tag === "Ok" ? r.value : 0)))
+            );
+          } else {
+            expect(combined).toEqual({ _tag: "Invalid", errors: expectedErrors });
+          }
+        })
+      );
+    });
+
+    it("toResult(fromResult(r)) keeps Ok values and wraps a single error", () => {
+      fc.assert(
+        fc.property(arbResult, (r) => {
+          const roundTrip = toResult(fromResult(r));
+          if (r._tag === "Ok") {
+            expect(roundTrip).toEqual(r);
+          } else {
+            expect(roundTrip).toEqual(err([r.error]));
+          }
+        })
+      );
+    });
+  });
+});
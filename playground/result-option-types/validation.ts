@@ -0,0 +1,285 @@
+import { type Result, type Ok, type Err, ok, err } from "./result";
+import { type NonEmptyArray, concat, isNonEmpty } from "./non-empty-array";
+import { dual } from "./function";
+
+/**
+ * Represents the outcome of independent checks that should all be
+ * reported together. Unlike Result, combining two Invalid values keeps
+ * the errors of both instead of stopping at the first.
+ *
+ * Use Result (flatMap, gen) when a step depends on the previous one, and
+ * Validation when the checks are independent, as with form fields.
+ */
+export type Validation<T, E> = Valid<T> | Invalid<E>;
+
+/**
+ * Contains the validated value
+ */
+export interface Valid<T> {
+  readonly _tag: "Valid";
+  readonly value: T;
+}
+
+/**
+ * Contains every error collected so far
+ */
+export interface Invalid<E> {
+  readonly _tag: "Invalid";
+  readonly errors: NonEmptyArray<E>;
+}
+
+/**
+ * Anything the combinators accept as input. A Result's Err counts as a
+ * single error, so plain validators returning Result can be combined
+ * directly.
+ */
+export type Validatable<T, E> = Validation<T, E> | Result<T, E>;
+
+/**
+ * Creates a successful Validation containing the given value.
+ */
+export function valid<T, E = never>(value: T): Validation<T, E> {
+  return { _tag: "Valid", value };
+}
+
+/**
+ * Creates a failed Validation from one or more errors.
+ */
+export function invalid<E, T = never>(
+  error: E,
+  ...moreErrors: readonly E[]
+): Validation<T, E> {
+  return { _tag: "Invalid", errors: [error, ...moreErrors] };
+}
+
+/**
+ * Type guard to check if a Validation is Valid.
+ */
+export function isValid<T, E>(validation: Validation<T, E>): validation is Valid<T> {
+  return validation._tag === "Valid";
+}
+
+/**
+ * Type guard to check if a Validation is Invalid.
+ */
+export function isInvalid<T, E>(
+  validation: Validation<T, E>
+): validation is Invalid<E> {
+  return validation._tag === "Invalid";
+}
+
+/**
+ * Converts a Result to a Validation, treating an Err as a single error.
+ * Validations are returned unchanged.
+ */
+export function fromResult<T, E>(input: Validatable<T, E>): Validation<T, E> {
+  switch (input._tag) {
+    case "Ok":
+      return valid(input.value);
+    case "Err":
+      return invalid(input.error);
+    default:
+      return input;
+  }
+}
+
+/**
+ * Converts a Validation back to a Result whose error lists every failure.
+ */
+export function toResult<T, E>(
+  validation: Validation<T, E>
+): Result<T, NonEmptyArray<E>> {
+  if (isValid(validation)) {
+    return ok(validation.value);
+  }
+  return err(validation.errors);
+}
+
+/**
+ * Maps the value of a Valid. Leaves Invalid values untouched.
+ */
+export function map<T, U, E>(
+  validation: Validation<T, E>,
+  fn: (value: T) => U
+): Validation<U, E>;
+export function map<T, U>(
+  fn: (value: T) => U
+): <E>(validation: Validation<T, E>) => Validation<U, E>;
+export function map(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, U, E>(
+      validation: Validation<T, E>,
+      fn: (value: T) => U
+    ): Validation<U, E> => {
+      if (isValid(validation)) {
+        return valid(fn(validation.value));
+      }
+      return validation;
+    }
+  );
+}
+
+/**
+ * Maps each collected error. Leaves Valid values untouched.
+ */
+export function mapErr<T, E, F>(
+  validation: Validation<T, E>,
+  fn: (error: E) => F
+): Validation<T, F>;
+export function mapErr<E, F>(
+  fn: (error: E) => F
+): <T>(validation: Validation<T, E>) => Validation<T, F>;
+export function mapErr(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, F>(
+      validation: Validation<T, E>,
+      fn: (error: E) => F
+    ): Validation<T, F> => {
+      if (isValid(validation)) {
+        return validation;
+      }
+      const [first, ...rest] = validation.errors;
+      return invalid(fn(first), ...rest.map(fn));
+    }
+  );
+}
+
+/**
+ * Combines two validations into a tuple. If both are Invalid, the errors
+ * of the first come before the errors of the second.
+ */
+export function zip<T1, T2, E>(
+  first: Validatable<T1, E>,
+  second: Validatable<T2, E>
+): Validation<[T1, T2], E>;
+export function zip<T2, E>(
+  second: Validatable<T2, E>
+): <T1>(first: Validatable<T1, E>) => Validation<[T1, T2], E>;
+export function zip(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T1, T2, E>(
+      first: Validatable<T1, E>,
+      second: Validatable<T2, E>
+    ): Validation<[T1, T2], E> => {
+      const left = fromResult(first);
+      const right = fromResult(second);
+      if (isValid(left)) {
+        return isValid(right) ? valid([left.value, right.value]) : right;
+      }
+      if (isValid(right)) {
+        return left;
+      }
+      return { _tag: "Invalid", errors: concat(left.errors, right.errors) };
+    }
+  );
+}
+
+// Both distribute over the variants of V, so each variant contributes only
+// the type it can actually carry.
+type ValueOf<V> = V extends Valid<infer T> | Ok<infer T> ? T : never;
+type ErrorOf<V> = V extends Invalid<infer E> | Err<infer E> ? E : never;
+type ValuesOf<V> = { -readonly [K in keyof V]: ValueOf<V[K]> };
+
+/**
+ * Combines a tuple of validations into a validation of the tuple of their
+ * values. Every input is checked; the errors are collected in order.
+ */
+export function all<const V extends readonly Validatable<unknown, unknown>[]>(
+  validations: V
+): Validation<ValuesOf<V>, ErrorOf<V[number]>> {
+  const values: unknown[] = [];
+  const errors: ErrorOf<V[number]>[] = [];
+  for (const input of validations) {
+    const validation = fromResult(input);
+    if (isValid(validation)) {
+      values.push(validation.value);
+    } else {
+      errors.push(...(validation.errors as NonEmptyArray<ErrorOf<V[number]>>));
+    }
+  }
+  if (isNonEmpty(errors)) {
+    return { _tag: "Invalid", errors };
+  }
+  return valid(values as ValuesOf<V>);
+}
+
+/**
+ * Combines a record of validations into a validation of the record of
+ * their values, so each field can be checked independently and every
+ * failing field reported at once.
+ */
+export function struct<
+  R extends Readonly<Record<string, Validatable<unknown, unknown>>>,
+>(validations: R): Validation<ValuesOf<R>, ErrorOf<R[keyof R]>> {
+  const keys = Object.keys(validations);
+  const combined = all(keys.map((key) => validations[key] as Validatable<unknown, unknown>));
+  return map(combined, (values) =>
+    Object.fromEntries(keys.map((key, index) => [key, values[index]]))
+  ) as Validation<ValuesOf<R>, ErrorOf<R[keyof R]>>;
+}
+
+/**
+ * Runs every validator against the same value and collects all failures.
+ * Returns Valid(value) only when every validator succeeds.
+ */
+export function validateAll<T, E>(
+  value: T,
+  validators: ReadonlyArray<(value: T) => Validatable<unknown, E>>
+): Validation<T, E>;
+export function validateAll<T, E>(
+  validators: ReadonlyArray<(value: T) => Validatable<unknown, E>>
+): (value: T) => Validation<T, E>;
+export function validateAll(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E>(
+      value: T,
+      validators: ReadonlyArray<(value: T) => Validatable<unknown, E>>
+    ): Validation<T, E> => {
+      const checks = all(validators.map((validator) => validator(value)));
+      return map(checks, () => value) as Validation<T, E>;
+    }
+  );
+}
+
+/**
+ * The pair of handlers accepted by match.
+ */
+export interface ValidationHandlers<T, E, U> {
+  readonly valid: (value: T) => U;
+  readonly invalid: (errors: NonEmptyArray<E>) => U;
+}
+
+/**
+ * Matches on a Validation, executing the appropriate function based on its
+ * variant.
+ */
+export function match<T, E, U>(
+  validation: Validation<T, E>,
+  handlers: ValidationHandlers<T, E, U>
+): U;
+export function match<T, E, U>(
+  handlers: ValidationHandlers<T, E, U>
+): (validation: Validation<T, E>) => U;
+export function match(...args: readonly unknown[]): unknown {
+  return dual(
+    2,
+    args,
+    <T, E, U>(
+      validation: Validation<T, E>,
+      handlers: ValidationHandlers<T, E, U>
+    ): U => {
+      if (isValid(validation)) {
+        return handlers.valid(validation.value);
+      }
+      return handlers.invalid(validation.errors);
+    }
+  );
+}